@@ -3,42 +3,27 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import packageJson from "../package.json";
+import { ErrorCode } from "./types";
+import { CwsError } from "./utils/errors";
+import { Output } from "./utils/output";
+import { createProgram } from "./program";
 
-// Import command handlers
-import { uploadCommand } from "./commands/upload";
-import { publishCommand } from "./commands/publish";
-import { statusCommand } from "./commands/status";
-import { configureCommand } from "./commands/configure";
-import { cancelCommand } from "./commands/cancel";
-import { deployCommand } from "./commands/deploy";
-
-const program = new Command();
-
-program
-  .name("cws-manager")
-  .description(
-    "CLI tool for managing Chrome extensions in the Chrome Web Store"
-  )
-  .version(packageJson.version);
-
-// Global options
-program
-  .option("-c, --config <path>", "path to config file")
-  .option("-v, --verbose", "enable verbose output")
-  .option("--dry", "dry run mode (don't actually make API calls)");
-
-// Commands
-program
-  .addCommand(configureCommand)
-  .addCommand(uploadCommand)
-  .addCommand(publishCommand)
-  .addCommand(statusCommand)
-  .addCommand(cancelCommand)
-  .addCommand(deployCommand);
+const program = createProgram();
+
+// Switch to JSON output before any command prints
+const jsonRequested = process.argv.includes("--json");
+if (jsonRequested) {
+  Output.enableJson();
+}
 
 // Error handling
 program.configureOutput({
-  writeErr: (str) => process.stderr.write(chalk.red(str)),
+  writeErr: (str) => {
+    // Parse errors are reported as JSON by exitOverride instead
+    if (!jsonRequested) {
+      process.stderr.write(chalk.red(str));
+    }
+  },
 });
 
 program.exitOverride((err) => {
@@ -50,10 +35,33 @@ program.exitOverride((err) => {
     console.log(err.message);
     process.exit(0);
   }
-  console.error(chalk.red(`Error: ${err.message}`));
+  if (jsonRequested) {
+    Output.failure(new CwsError(ErrorCode.INVALID_ARGUMENT, err.message));
+  } else {
+    console.error(chalk.red(`Error: ${err.message}`));
+  }
   process.exit(err.exitCode);
 });
 
+// Subcommands handle their own parse errors; in JSON mode report those as JSON too
+function reportParseErrorsAsJson(command: Command): void {
+  command.commands.forEach((subcommand) => {
+    subcommand
+      .configureOutput({ writeErr: () => undefined })
+      .exitOverride((err) => {
+        if (err.exitCode !== 0) {
+          Output.failure(new CwsError(ErrorCode.INVALID_ARGUMENT, err.message));
+        }
+        process.exit(err.exitCode);
+      });
+    reportParseErrorsAsJson(subcommand);
+  });
+}
+
+if (jsonRequested) {
+  reportParseErrorsAsJson(program);
+}
+
 // Parse arguments
 if (process.argv.length === 2) {
   program.help();
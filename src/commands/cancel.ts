@@ -1,49 +1,95 @@
 import { Command } from "commander";
-import { ConfigManager } from "../utils/config";
-import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
-import { CommandOptions } from "../types";
+import {
+  ClientProvider,
+  createClientProvider,
+} from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import { BatchCommandOptions, CommandOptions, CommandResult } from "../types";
 import { withSpinner } from "../utils/spinner";
 import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { logErrorHint } from "../utils/errors";
+import {
+  addBatchOptions,
+  finishBatch,
+  isBatchMode,
+  requireItemId,
+  runBatch,
+} from "../utils/batch";
+
+// Helper function to cancel the submission of a single item
+async function cancelItem(
+  getClient: ClientProvider,
+  itemId: string,
+  opts: CommandOptions
+): Promise<CommandResult> {
+  Logger.gray(`Item ID: ${itemId}`);
+
+  // Load configuration
+  const client = await getClient();
+
+  await withSpinner(
+    "Cancelling submission...",
+    "Submission cancelled successfully",
+    "Cancellation failed",
+    () =>
+      HistoryManager.track(
+        opts,
+        client,
+        { action: "cancel", itemId, params: {} },
+        () => client.cancelSubmission(itemId)
+      )
+  );
+
+  Logger.green("✅ Submission cancelled!");
+  Logger.gray(
+    "The current active submission has been cancelled and is no longer in review."
+  );
+
+  return {
+    summary: "cancelled",
+    data: { itemId, cancelled: true, dryRun: opts.dry || undefined },
+  };
+}
 
 export const cancelCommand = new Command("cancel")
   .description("Cancel the current submission of an item")
-  .argument("<item-id>", "Chrome Web Store item (extension) ID")
-  .action(async (itemId: string, _options: unknown, command: Command) => {
-    const globalOptions = command.parent?.opts() || {};
-    const opts: CommandOptions = { ...globalOptions, itemId };
-
-    try {
-      Logger.setVerbose(opts.verbose || false);
-      Logger.blue("❌ Chrome Web Store Cancel Submission");
-      Logger.gray(`Item ID: ${itemId}`);
-
-      if (opts.dry) {
-        Logger.yellow(
-          "🏃 Dry run mode - no actual cancellation will be performed"
-        );
-        return;
-      }
+  .argument("[item-id]", "Chrome Web Store item (extension) ID")
+  .action(
+    async (
+      itemId: string | undefined,
+      options: BatchCommandOptions,
+      command: Command
+    ) => {
+      const globalOptions = command.parent?.opts() || {};
+      const opts: CommandOptions = { ...globalOptions, itemId: itemId || "" };
 
-      // Load configuration
-      const config = await ConfigManager.loadConfig(opts.config);
-      const client = new ChromeWebStoreClient(config);
+      try {
+        Output.begin("cancel");
+        Logger.setVerbose(opts.verbose || false);
+        Logger.blue("❌ Chrome Web Store Cancel Submission");
+        const getClient = createClientProvider(opts);
 
-      await withSpinner(
-        "Cancelling submission...",
-        "Submission cancelled successfully",
-        "Cancellation failed",
-        () => client.cancelSubmission(itemId)
-      );
-
-      Logger.green("✅ Submission cancelled!");
-      Logger.gray(
-        "The current active submission has been cancelled and is no longer in review."
-      );
-    } catch (error) {
-      Logger.red(
-        "❌ Cancellation failed:",
-        error instanceof Error ? error.message : error
-      );
-      process.exit(1);
+        if (isBatchMode(options)) {
+          const results = await runBatch(opts, options, (target) =>
+            cancelItem(getClient, target.itemId, opts)
+          );
+          finishBatch(results);
+          return;
+        }
+
+        const result = await cancelItem(getClient, requireItemId(itemId), opts);
+        Output.success(result.data);
+      } catch (error) {
+        Output.failure(error, { itemId });
+        Logger.red(
+          "❌ Cancellation failed:",
+          error instanceof Error ? error.message : error
+        );
+        logErrorHint(error);
+        process.exit(1);
+      }
     }
-  });
+  );
+
+addBatchOptions(cancelCommand);
@@ -0,0 +1,89 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { CliOptions } from "../types";
+import { ConfigManager } from "../utils/config";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { logErrorHint } from "../utils/errors";
+import { renderTable } from "../utils/table";
+
+// Helper function to run a profile action with the shared output and error handling
+async function runProfileAction(
+  name: string,
+  command: Command,
+  action: (globalOptions: CliOptions) => void | Promise<void>
+): Promise<void> {
+  const globalOptions: CliOptions = command.optsWithGlobals();
+
+  try {
+    Output.begin(`config ${name}`);
+    Logger.setVerbose(globalOptions.verbose || false);
+    await action(globalOptions);
+  } catch (error) {
+    Output.failure(error);
+    Logger.red(
+      "❌ Config command failed:",
+      error instanceof Error ? error.message : error
+    );
+    logErrorHint(error);
+    process.exit(1);
+  }
+}
+
+const listCommand = new Command("list")
+  .description("List the configured profiles")
+  .action(async (_options: unknown, command: Command) => {
+    await runProfileAction("list", command, (globalOptions) => {
+      const profiles = ConfigManager.listProfiles(globalOptions.config);
+
+      if (profiles.length === 0) {
+        Logger.yellow(
+          "No profiles configured. Run `cws-manager configure` to create one."
+        );
+      } else {
+        const rows = profiles.map((profile) => [
+          profile.isDefault
+            ? chalk.green(`* ${profile.name}`)
+            : `  ${profile.name}`,
+          profile.publisherId,
+          profile.authType,
+          profile.secretStore,
+        ]);
+        Logger.log(
+          renderTable(["Profile", "Publisher ID", "Auth", "Secrets"], rows)
+        );
+      }
+
+      Output.success({ profiles });
+    });
+  });
+
+const useCommand = new Command("use")
+  .description(
+    "Set the profile used when --profile and CWS_PROFILE are not set"
+  )
+  .argument("<name>", "profile name")
+  .action(async (name: string, _options: unknown, command: Command) => {
+    await runProfileAction("use", command, (globalOptions) => {
+      ConfigManager.useProfile(name, globalOptions.config);
+      Logger.green(`✅ Default profile set to "${name}"`);
+      Output.success({ profile: name });
+    });
+  });
+
+const removeCommand = new Command("remove")
+  .description("Remove a profile and its credentials")
+  .argument("<name>", "profile name")
+  .action(async (name: string, _options: unknown, command: Command) => {
+    await runProfileAction("remove", command, async (globalOptions) => {
+      await ConfigManager.removeProfile(name, globalOptions.config);
+      Logger.green(`✅ Profile "${name}" removed`);
+      Output.success({ profile: name });
+    });
+  });
+
+export const configCommand = new Command("config")
+  .description("Manage configuration profiles")
+  .addCommand(listCommand)
+  .addCommand(useCommand)
+  .addCommand(removeCommand);
@@ -1,11 +1,34 @@
 import { Command } from "commander";
 import inquirer from "inquirer";
+import { resolve } from "path";
 import { ConfigManager } from "../utils/config";
-import { ChromeWebStoreConfig, ConfigureCommandOptions } from "../types";
+import {
+  ChromeWebStoreConfig,
+  ConfigureCommandOptions,
+  ErrorCode,
+  FetchFunction,
+  OAuthConfig,
+} from "../types";
 import { Logger } from "../utils/logger";
+import { withSpinner } from "../utils/spinner";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import {
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+  openBrowser,
+  parseAuthorizationResponse,
+  startLoopbackListener,
+} from "../services/oauth";
+import { loadServiceAccountKey } from "../services/service-account";
+import { parseSecretStoreType } from "../services/secret-store";
+import { createTransport } from "../services/client-factory";
 
 // Helper function to check if interactive mode is needed
 function shouldUseInteractiveMode(options: ConfigureCommandOptions): boolean {
+  if (options.serviceAccountKeyFile) {
+    return options.interactive || !options.publisherId;
+  }
   return (
     options.interactive ||
     !options.clientId ||
@@ -25,19 +48,51 @@ function showConfigurationInstructions(): void {
     "1. Go to the Google Cloud Console (https://console.cloud.google.com)"
   );
   Logger.gray("2. Enable the Chrome Web Store API");
-  Logger.gray("3. Create OAuth2 credentials");
+  Logger.gray(
+    "3. Create OAuth2 credentials, or a service account added to your publisher"
+  );
   Logger.gray(
     "4. Get your Publisher ID from the Chrome Web Store Developer Dashboard\n"
   );
+  Logger.gray(
+    "Tip: run `cws-manager configure --login` to get the refresh token by signing in with Google.\n"
+  );
 }
 
 // Helper function to get interactive configuration
 async function getInteractiveConfig(): Promise<ChromeWebStoreConfig> {
   const answers = await inquirer.prompt([
+    {
+      type: "list",
+      name: "authType",
+      message: "Authentication method:",
+      choices: [
+        { name: "OAuth2 refresh token (personal Google account)", value: "oauth" },
+        { name: "Service account JSON key (CI)", value: "serviceAccount" },
+      ],
+    },
+    {
+      type: "input",
+      name: "serviceAccountKeyFile",
+      message: "Path to service account JSON key:",
+      when: (current) => current.authType === "serviceAccount",
+      validate: (input) => {
+        if (input.trim().length === 0) {
+          return "Key file path is required";
+        }
+        try {
+          loadServiceAccountKey(resolve(input.trim()));
+          return true;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      },
+    },
     {
       type: "input",
       name: "clientId",
       message: "Google OAuth2 Client ID:",
+      when: (current) => current.authType === "oauth",
       validate: (input) => input.trim().length > 0 || "Client ID is required",
     },
     {
@@ -45,6 +100,7 @@ async function getInteractiveConfig(): Promise<ChromeWebStoreConfig> {
       name: "clientSecret",
       message: "Google OAuth2 Client Secret:",
       mask: "*",
+      when: (current) => current.authType === "oauth",
       validate: (input) =>
         input.trim().length > 0 || "Client Secret is required",
     },
@@ -53,6 +109,7 @@ async function getInteractiveConfig(): Promise<ChromeWebStoreConfig> {
       name: "refreshToken",
       message: "OAuth2 Refresh Token:",
       mask: "*",
+      when: (current) => current.authType === "oauth",
       validate: (input) =>
         input.trim().length > 0 || "Refresh Token is required",
     },
@@ -65,6 +122,13 @@ async function getInteractiveConfig(): Promise<ChromeWebStoreConfig> {
     },
   ]);
 
+  if (answers.authType === "serviceAccount") {
+    return {
+      serviceAccountKeyFile: resolve(answers.serviceAccountKeyFile.trim()),
+      publisherId: answers.publisherId.trim(),
+    };
+  }
+
   return {
     clientId: answers.clientId.trim(),
     clientSecret: answers.clientSecret.trim(),
@@ -73,10 +137,145 @@ async function getInteractiveConfig(): Promise<ChromeWebStoreConfig> {
   };
 }
 
+// Helper function to prompt for the values a login does not provide
+async function promptMissingValues(
+  options: ConfigureCommandOptions
+): Promise<Omit<OAuthConfig, "refreshToken">> {
+  const answers = await inquirer.prompt([
+    {
+      type: "input",
+      name: "clientId",
+      message: "Google OAuth2 Client ID:",
+      when: !options.clientId,
+      validate: (input) => input.trim().length > 0 || "Client ID is required",
+    },
+    {
+      type: "password",
+      name: "clientSecret",
+      message: "Google OAuth2 Client Secret:",
+      mask: "*",
+      when: !options.clientSecret,
+      validate: (input) =>
+        input.trim().length > 0 || "Client Secret is required",
+    },
+    {
+      type: "input",
+      name: "publisherId",
+      message: "Chrome Web Store Publisher ID:",
+      when: !options.publisherId,
+      validate: (input) =>
+        input.trim().length > 0 || "Publisher ID is required",
+    },
+  ]);
+
+  return {
+    clientId: (options.clientId || answers.clientId).trim(),
+    clientSecret: (options.clientSecret || answers.clientSecret).trim(),
+    publisherId: (options.publisherId || answers.publisherId).trim(),
+  };
+}
+
+// Helper function to obtain a refresh token through the browser consent flow.
+// Manual mode is for machines without a browser: the consent URL is opened
+// elsewhere and the final redirect URL is pasted back.
+async function getRefreshTokenFromLogin(
+  clientId: string,
+  clientSecret: string,
+  manual: boolean,
+  transport: FetchFunction
+): Promise<string> {
+  if (manual) {
+    // Nothing listens here; the user copies the URL the browser fails to load
+    const request = createAuthorizationRequest(clientId, "http://127.0.0.1");
+
+    Logger.yellow("Open this URL in a browser and grant access:");
+    Logger.log(`\n${request.url}\n`);
+    Logger.gray(
+      "The browser will then fail to load a http://127.0.0.1 page. Copy that page's full URL from the address bar."
+    );
+
+    const { redirect } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "redirect",
+        message: "Redirect URL (or authorization code):",
+        validate: (input) =>
+          input.trim().length > 0 || "Redirect URL is required",
+      },
+    ]);
+
+    const code = parseAuthorizationResponse(redirect.trim(), request.state);
+    return exchangeAuthorizationCode(
+      clientId,
+      clientSecret,
+      code,
+      request,
+      transport
+    );
+  }
+
+  const listener = await startLoopbackListener();
+  try {
+    const request = createAuthorizationRequest(clientId, listener.redirectUri);
+
+    Logger.yellow(
+      "Opening your browser to grant access. If it does not open, visit:"
+    );
+    Logger.log(`\n${request.url}\n`);
+    openBrowser(request.url);
+
+    const code = await withSpinner(
+      "Waiting for authorization in the browser...",
+      "Authorization received",
+      "Authorization failed",
+      () => listener.waitForCode(request.state)
+    );
+    return await exchangeAuthorizationCode(
+      clientId,
+      clientSecret,
+      code,
+      request,
+      transport
+    );
+  } finally {
+    listener.close();
+  }
+}
+
+// Helper function to get config through the OAuth login flow
+async function getLoginConfig(
+  options: ConfigureCommandOptions,
+  transport: FetchFunction
+): Promise<OAuthConfig> {
+  Logger.blue("🔐 CWS CLI Login");
+  Logger.gray(
+    "Use the client ID and secret of a Desktop app OAuth client with the Chrome Web Store API enabled.\n"
+  );
+
+  const values = await promptMissingValues(options);
+  const refreshToken = await getRefreshTokenFromLogin(
+    values.clientId,
+    values.clientSecret,
+    !!options.manual,
+    transport
+  );
+
+  return { ...values, refreshToken };
+}
+
 // Helper function to get config from command line options
 function getConfigFromOptions(
   options: ConfigureCommandOptions
 ): ChromeWebStoreConfig {
+  if (options.serviceAccountKeyFile) {
+    const serviceAccountKeyFile = resolve(options.serviceAccountKeyFile);
+    loadServiceAccountKey(serviceAccountKeyFile);
+    return {
+      serviceAccountKeyFile,
+      publisherId: options.publisherId!,
+    };
+  }
+
   return {
     clientId: options.clientId!,
     clientSecret: options.clientSecret!,
@@ -92,32 +291,81 @@ export const configureCommand = new Command("configure")
   .option("--client-secret <secret>", "Google OAuth2 client secret")
   .option("--refresh-token <token>", "OAuth2 refresh token")
   .option("--publisher-id <id>", "Chrome Web Store publisher ID")
+  .option(
+    "--service-account-key-file <path>",
+    "service account JSON key, used instead of OAuth2 credentials"
+  )
+  .option(
+    "--secret-store <store>",
+    "where to keep the client secret and refresh token: plain, encrypted-file or keyring",
+    "plain"
+  )
+  .option(
+    "-l, --login",
+    "obtain the refresh token by signing in with Google in the browser"
+  )
+  .option(
+    "--manual",
+    "with --login, paste the redirect URL instead of using a local listener (for headless machines)"
+  )
   .action(async (options: ConfigureCommandOptions, command: Command) => {
     const globalOptions = command.parent?.opts() || {};
 
     try {
+      Output.begin("configure");
       Logger.setVerbose(globalOptions.verbose || false);
+      const secretStore = parseSecretStoreType(options.secretStore || "plain");
 
       let config: ChromeWebStoreConfig;
 
-      if (shouldUseInteractiveMode(options)) {
+      if (options.login) {
+        if (options.serviceAccountKeyFile) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "--login cannot be combined with --service-account-key-file"
+          );
+        }
+        if (Output.isJson()) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "Login is interactive and not available with --json"
+          );
+        }
+        config = await getLoginConfig(options, createTransport(globalOptions));
+      } else if (shouldUseInteractiveMode(options)) {
+        if (Output.isJson()) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "Interactive configuration is not available with --json; pass all credential options"
+          );
+        }
         showConfigurationInstructions();
         config = await getInteractiveConfig();
       } else {
         config = getConfigFromOptions(options);
       }
 
-      await ConfigManager.saveConfig(config, globalOptions.config);
+      const profile = await ConfigManager.saveConfig(
+        config,
+        globalOptions.config,
+        globalOptions.profile,
+        secretStore
+      );
 
       Logger.green("✅ Configuration saved successfully!");
-      Logger.gray(
-        `Config saved to: ${globalOptions.config || "~/.cws-manager-cli/config.json"}`
-      );
+      const configPath = globalOptions.config || "~/.cws-manager-cli/config.json";
+      Logger.gray(`Config saved to: ${configPath} (profile: ${profile})`);
+      if (secretStore !== "plain") {
+        Logger.gray(`Secrets saved to the ${secretStore} secret store`);
+      }
+      Output.success({ configPath, profile, secretStore });
     } catch (error) {
+      Output.failure(error);
       Logger.red(
         "❌ Configuration failed:",
         error instanceof Error ? error.message : error
       );
+      logErrorHint(error);
       process.exit(1);
     }
   });
@@ -1,72 +1,139 @@
 import { Command } from "commander";
-import { ConfigManager } from "../utils/config";
-import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
-import { DeployPercentageOptions } from "../types";
+import {
+  ClientProvider,
+  createClientProvider,
+} from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import {
+  BatchCommandOptions,
+  CommandResult,
+  DeployPercentageOptions,
+  ErrorCode,
+} from "../types";
 import { withSpinner } from "../utils/spinner";
 import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
 import { validateDeployPercentage } from "../utils/utils";
+import {
+  addBatchOptions,
+  finishBatch,
+  isBatchMode,
+  requireItemId,
+  runBatch,
+} from "../utils/batch";
+
+// Helper function to set the deploy percentage of a single item
+async function deployItem(
+  getClient: ClientProvider,
+  itemId: string,
+  opts: DeployPercentageOptions
+): Promise<CommandResult> {
+  Logger.verbose(`Item ID: ${itemId}`);
+  Logger.verbose(`Deploy Percentage: ${opts.percentage}%`);
+
+  // Load configuration
+  const client = await getClient();
+
+  await withSpinner(
+    "Updating deployment percentage...",
+    "Deployment percentage updated successfully",
+    "Deploy percentage update failed",
+    () =>
+      HistoryManager.track(
+        opts,
+        client,
+        {
+          action: "deploy",
+          itemId,
+          params: { deployPercentage: opts.percentage },
+        },
+        () =>
+          client.setPublishedDeployPercentage(itemId, {
+            deployPercentage: opts.percentage,
+          })
+      )
+  );
+
+  Logger.green("✅ Deploy percentage updated!");
+  Logger.verbose(
+    `Visit https://chrome.google.com/webstore/devconsole to manage your rollout`
+  );
+
+  if (opts.verbose) {
+    Logger.verbose(`Deploy percentage set to ${opts.percentage}%`);
+  }
+
+  return {
+    summary: `deploy percentage: ${opts.percentage}%`,
+    data: {
+      itemId,
+      deployPercentage: opts.percentage,
+      dryRun: opts.dry || undefined,
+    },
+  };
+}
 
 export const deployCommand = new Command("deploy")
   .description("Set the deployment percentage for a published item")
-  .argument("<item-id>", "Chrome Web Store item (extension) ID")
-  .argument("<percentage>", "Deployment percentage (0-100)")
+  .argument("[item-id]", "Chrome Web Store item (extension) ID")
+  .argument(
+    "[percentage]",
+    "Deployment percentage (0-100); with --all/--item it is the only argument"
+  )
   .action(
     async (
-      itemId: string,
-      percentage: string,
-      _options: unknown,
+      itemId: string | undefined,
+      percentage: string | undefined,
+      options: BatchCommandOptions,
       command: Command
     ) => {
       const globalOptions = command.parent?.opts() || {};
-      const deployPercentage = validateDeployPercentage(percentage);
+      const batchMode = isBatchMode(options);
 
-      const opts: DeployPercentageOptions = {
-        ...globalOptions,
-        itemId,
-        percentage: deployPercentage,
-      };
+      // In batch mode the item IDs come from the project file, so the
+      // single positional argument is the percentage
+      const percentageArg = batchMode && !percentage ? itemId : percentage;
 
       try {
+        Output.begin("deploy");
+        if (percentageArg === undefined) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "Missing deployment percentage"
+          );
+        }
+
+        const opts: DeployPercentageOptions = {
+          ...globalOptions,
+          itemId: batchMode ? "" : itemId || "",
+          percentage: validateDeployPercentage(percentageArg),
+        };
+
         Logger.setVerbose(opts.verbose || false);
         Logger.blue("🎯 Chrome Web Store Deploy Percentage");
-        Logger.verbose(`Item ID: ${itemId}`);
-        Logger.verbose(`Deploy Percentage: ${opts.percentage}%`);
+        const getClient = createClientProvider(opts);
 
-        if (opts.dry) {
-          Logger.yellow(
-            "🏃 Dry run mode - no actual deployment change will be performed"
+        if (batchMode) {
+          const results = await runBatch(opts, options, (target) =>
+            deployItem(getClient, target.itemId, opts)
           );
+          finishBatch(results);
           return;
         }
 
-        // Load configuration
-        const config = await ConfigManager.loadConfig(opts.config);
-        const client = new ChromeWebStoreClient(config);
-
-        await withSpinner(
-          "Updating deployment percentage...",
-          "Deployment percentage updated successfully",
-          "Deploy percentage update failed",
-          () =>
-            client.setPublishedDeployPercentage(itemId, {
-              deployPercentage: opts.percentage,
-            })
-        );
-
-        Logger.green("✅ Deploy percentage updated!");
-        Logger.verbose(
-          `Visit https://chrome.google.com/webstore/devconsole to manage your rollout`
-        );
-
-        if (opts.verbose) {
-          Logger.verbose(`Deploy percentage set to ${opts.percentage}%`);
-        }
+        const result = await deployItem(getClient, requireItemId(itemId), opts);
+        Output.success(result.data);
       } catch (error) {
+        Output.failure(error, { itemId: batchMode ? undefined : itemId });
         Logger.red(
           "❌ Deploy percentage update failed:",
           error instanceof Error ? error.message : error
         );
+        logErrorHint(error);
         process.exit(1);
       }
     }
   );
+
+addBatchOptions(deployCommand);
@@ -0,0 +1,182 @@
+import { Command } from "commander";
+import { existsSync, readFileSync } from "fs";
+import { EmulatorServer } from "../services/emulator";
+import { logFakeStoreRequest } from "../services/fake-store";
+import {
+  CliOptions,
+  EmulatorCommandOptions,
+  EmulatorOptions,
+  EmulatorScenario,
+  ErrorCode,
+  FakeItemConfig,
+  FakeStoreBehavior,
+} from "../types";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import { parseDuration } from "../utils/utils";
+
+const DEFAULT_PORT = "8787";
+
+function parseCount(value: string, name: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `${name} must be a non-negative integer`
+    );
+  }
+  return count;
+}
+
+function readScenario(filePath: string): EmulatorScenario {
+  if (!existsSync(filePath)) {
+    throw new CwsError(
+      ErrorCode.FILE_NOT_FOUND,
+      `Scenario file not found: ${filePath}`
+    );
+  }
+  try {
+    return JSON.parse(readFileSync(filePath, "utf8")) as EmulatorScenario;
+  } catch (error) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Failed to parse scenario file ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+// Helper function to give the listed items a behaviour flag
+function flagItems(
+  items: Record<string, FakeItemConfig>,
+  itemIds: string | undefined,
+  flag: keyof Pick<FakeStoreBehavior, "takenDown" | "warned">
+): void {
+  (itemIds || "")
+    .split(",")
+    .map((itemId) => itemId.trim())
+    .filter(Boolean)
+    .forEach((itemId) => {
+      items[itemId] = {
+        ...items[itemId],
+        behavior: { ...items[itemId]?.behavior, [flag]: true },
+      };
+    });
+}
+
+// Helper function to combine the scenario file with the command line flags,
+// which take precedence
+function buildEmulatorOptions(
+  options: EmulatorCommandOptions
+): EmulatorOptions {
+  const scenario = options.scenario ? readScenario(options.scenario) : {};
+  const behavior: FakeStoreBehavior = { ...scenario.behavior };
+
+  if (options.processingDelay) {
+    behavior.processingDelayMs = parseDuration(options.processingDelay);
+  }
+  if (options.reviewDelay) {
+    behavior.reviewDelayMs = parseDuration(options.reviewDelay);
+  }
+  if (options.failUploads) {
+    behavior.failUploads = true;
+  }
+  if (options.rejectReviews) {
+    behavior.rejectReviews = true;
+  }
+  if (options.rateLimit) {
+    behavior.rateLimitedRequests = parseCount(options.rateLimit, "Rate limit");
+  }
+  if (options.retryAfter) {
+    behavior.retryAfterSeconds = parseCount(options.retryAfter, "Retry after");
+  }
+
+  const items = { ...scenario.items };
+  flagItems(items, options.takenDown, "takenDown");
+  flagItems(items, options.warned, "warned");
+
+  return {
+    port: parseCount(options.port || DEFAULT_PORT, "Port"),
+    host: options.host,
+    behavior,
+    items,
+  };
+}
+
+export const emulatorCommand = new Command("emulator")
+  .description(
+    "Run a local Chrome Web Store API emulator for integration tests"
+  )
+  .option(
+    "--port <port>",
+    "Port to listen on (0 picks a free port)",
+    DEFAULT_PORT
+  )
+  .option("--host <host>", "Address to listen on", "127.0.0.1")
+  .option("--scenario <file>", "JSON file with default and per-item behaviours")
+  .option(
+    "--processing-delay <duration>",
+    "How long uploads stay IN_PROGRESS, e.g. 10s"
+  )
+  .option(
+    "--review-delay <duration>",
+    "How long submissions stay PENDING_REVIEW, e.g. 1m"
+  )
+  .option("--fail-uploads", "End upload processing in FAILED")
+  .option("--reject-reviews", "End reviews in REJECTED")
+  .option(
+    "--rate-limit <count>",
+    "Answer the first <count> requests for each item with HTTP 429"
+  )
+  .option("--retry-after <seconds>", "Retry-After sent with HTTP 429 responses")
+  .option(
+    "--taken-down <item-ids>",
+    "Comma-separated items that are taken down"
+  )
+  .option("--warned <item-ids>", "Comma-separated items that have a warning")
+  .action(async (options: EmulatorCommandOptions, command: Command) => {
+    const globalOptions: CliOptions = command.parent?.opts() || {};
+
+    try {
+      Output.begin("emulator");
+      Logger.setVerbose(globalOptions.verbose || false);
+
+      const emulator = await EmulatorServer.start({
+        ...buildEmulatorOptions(options),
+        onRequest: (request) => {
+          if (globalOptions.verbose) {
+            logFakeStoreRequest(request);
+          } else {
+            Logger.gray(
+              `[${new Date().toLocaleTimeString()}] ${request.method} ${new URL(request.url).pathname}`
+            );
+          }
+        },
+      });
+
+      Logger.blue("🧪 Chrome Web Store API emulator");
+      Logger.log(`  API:   ${emulator.url}`);
+      Logger.log(`  Token: ${emulator.tokenUrl}`);
+      Logger.gray(
+        `\nPoint the CLI at it with CWS_API_URL=${emulator.url} CWS_TOKEN_URL=${emulator.tokenUrl}`
+      );
+      Logger.gray("Press Ctrl+C to stop\n");
+      Output.write({
+        success: true,
+        url: emulator.url,
+        tokenUrl: emulator.tokenUrl,
+      });
+
+      process.once("SIGINT", () => {
+        emulator.close().finally(() => process.exit(0));
+      });
+    } catch (error) {
+      Output.failure(error);
+      Logger.red(
+        "❌ Emulator failed:",
+        error instanceof Error ? error.message : error
+      );
+      logErrorHint(error);
+      process.exit(1);
+    }
+  });
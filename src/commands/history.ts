@@ -0,0 +1,182 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { HistoryManager } from "../services/history";
+import {
+  CliOptions,
+  ErrorCode,
+  HistoryCommandOptions,
+  HistoryEntry,
+} from "../types";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import { renderTable } from "../utils/table";
+import { parseDuration } from "../utils/utils";
+
+const HISTORY_FORMATS = ["table", "csv", "json"];
+
+// Helper function to read --since/--until: a date, or a duration before now
+function parseTime(value: string): Date {
+  if (/^\d+(?:\.\d+)?\s*(ms|s|m|h|d)?$/.test(value.trim())) {
+    return new Date(Date.now() - parseDuration(value));
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid time "${value}"; use a date such as 2024-05-01 or a duration such as 7d`
+    );
+  }
+  return new Date(time);
+}
+
+function parseLimit(value: string): number {
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Limit must be a positive integer"
+    );
+  }
+  return limit;
+}
+
+// Helper function to describe the request parameters in one cell
+function formatParams(params: Record<string, unknown>): string {
+  return Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `${key}=${typeof value === "object" ? JSON.stringify(value) : value}`
+    )
+    .join(" ");
+}
+
+function formatResult(entry: HistoryEntry): string {
+  if (!entry.success) {
+    return chalk.red(`✖ ${entry.error?.code ?? "failed"}`);
+  }
+  return chalk.green(`✔ ${entry.state ?? "ok"}`);
+}
+
+// Helper function to display entries as a table
+function displayHistory(entries: HistoryEntry[]): void {
+  const rows = entries.map((entry) => [
+    new Date(entry.timestamp).toLocaleString(),
+    entry.action,
+    entry.itemId,
+    entry.manifestVersion ?? "-",
+    formatResult(entry),
+    entry.user,
+    entry.profile ?? "(env)",
+    formatParams(entry.params),
+  ]);
+
+  Logger.log(
+    renderTable(
+      [
+        "Time",
+        "Action",
+        "Item ID",
+        "Version",
+        "Result",
+        "User",
+        "Profile",
+        "Parameters",
+      ],
+      rows
+    )
+  );
+}
+
+export const historyCommand = new Command("history")
+  .description(
+    "List the uploads, publishes and deploy changes made from this machine"
+  )
+  .option("--item-id <id>", "Only show entries for this item")
+  .option(
+    "--action <action>",
+    "Only show this action: upload, publish, deploy, cancel or rollout"
+  )
+  .option("--user <name>", "Only show entries made by this OS user")
+  .option(
+    "--package-version <version>",
+    "Only show entries for this manifest version"
+  )
+  .option(
+    "--since <time>",
+    "Only show entries after a date, or within a duration such as 7d"
+  )
+  .option("--until <time>", "Only show entries before a date or duration")
+  .option("--failed", "Only show operations that failed")
+  .option("-n, --limit <count>", "Show only the most recent entries")
+  .option("-f, --format <format>", "Output format: table, csv, json", "table")
+  .option("-o, --output <file>", "Write the entries to a file instead")
+  .action(async (options: HistoryCommandOptions, command: Command) => {
+    const globalOptions: CliOptions = command.parent?.opts() || {};
+
+    try {
+      Output.begin("history");
+      Logger.setVerbose(globalOptions.verbose || false);
+
+      const format = options.format || "table";
+      if (!HISTORY_FORMATS.includes(format)) {
+        throw new CwsError(
+          ErrorCode.INVALID_ARGUMENT,
+          `Format must be one of: ${HISTORY_FORMATS.join(", ")}`
+        );
+      }
+
+      const entries = HistoryManager.filter(HistoryManager.load(), {
+        itemId: options.itemId,
+        action: options.action
+          ? HistoryManager.parseAction(options.action)
+          : undefined,
+        // Only an explicit --profile filters, not CWS_PROFILE
+        profile: globalOptions.profile,
+        user: options.user,
+        manifestVersion: options.packageVersion,
+        since: options.since ? parseTime(options.since) : undefined,
+        until: options.until ? parseTime(options.until) : undefined,
+        failedOnly: options.failed,
+        limit: options.limit ? parseLimit(options.limit) : undefined,
+      });
+
+      const content =
+        format === "csv"
+          ? HistoryManager.toCsv(entries)
+          : JSON.stringify(entries, null, 2) + "\n";
+
+      if (options.output) {
+        mkdirSync(dirname(options.output), { recursive: true });
+        writeFileSync(options.output, content, "utf8");
+        Logger.green(
+          `✅ Exported ${entries.length} entr${entries.length === 1 ? "y" : "ies"} to ${options.output}`
+        );
+      } else if (format !== "table") {
+        // With --json, the entries are part of the JSON document instead
+        if (!Output.isJson()) {
+          process.stdout.write(content);
+        }
+      } else if (entries.length === 0) {
+        Logger.yellow(
+          `No history entries found in ${HistoryManager.getHistoryFile()}`
+        );
+      } else {
+        displayHistory(entries);
+      }
+
+      Output.success({ entries, output: options.output });
+    } catch (error) {
+      Output.failure(error);
+      Logger.red(
+        "❌ History failed:",
+        error instanceof Error ? error.message : error
+      );
+      logErrorHint(error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,94 @@
+import { Command } from "commander";
+import { existsSync, readFileSync } from "fs";
+import { basename, join, resolve } from "path";
+import { CliOptions, PackCommandOptions, PackResult } from "../types";
+import { packDirectory, IGNORE_FILE } from "../services/package-builder";
+import { MANIFEST_FILE } from "../services/package-inspector";
+import { withSpinner } from "../utils/spinner";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { formatFileSize } from "../utils/utils";
+
+// Helper function to derive the default archive name from the manifest version
+function getDefaultOutputPath(sourceDir: string): string {
+  const name = basename(resolve(sourceDir));
+  const manifestPath = join(sourceDir, MANIFEST_FILE);
+
+  if (existsSync(manifestPath)) {
+    try {
+      const manifest = JSON.parse(readFileSync(manifestPath, "utf8"));
+      if (typeof manifest.version === "string") {
+        return `${name}-${manifest.version}.zip`;
+      }
+    } catch {
+      // Fall back to the plain name; packing reports the broken manifest
+    }
+  }
+
+  return `${name}.zip`;
+}
+
+/**
+ * Prints the packed file listing and sizes
+ */
+export function displayPackResult(
+  result: PackResult,
+  showFiles = true
+): void {
+  if (showFiles) {
+    Logger.blue("\n📁 Packed files:");
+    result.files.forEach((file) =>
+      Logger.gray(`  ${file.name} (${formatFileSize(file.size)})`)
+    );
+  }
+
+  Logger.gray(
+    `\n${result.files.length} files, ${formatFileSize(result.totalSize)} ` +
+      `(archive: ${formatFileSize(result.archiveSize)})`
+  );
+}
+
+export const packCommand = new Command("pack")
+  .description("Build an extension zip from a source directory")
+  .argument("<dir>", "Extension source directory containing manifest.json")
+  .option(
+    "-o, --output <file>",
+    "Output zip path (default: <dir-name>-<version>.zip)"
+  )
+  .action(
+    async (sourceDir: string, options: PackCommandOptions, command: Command) => {
+      const globalOptions: CliOptions = command.parent?.opts() || {};
+
+      try {
+        Output.begin("pack");
+        Logger.setVerbose(globalOptions.verbose || false);
+        Logger.blue("🗜️  Chrome Web Store Pack");
+        Logger.gray(`Source: ${sourceDir}`);
+
+        if (existsSync(join(sourceDir, IGNORE_FILE))) {
+          Logger.verbose(`Using ignore patterns from ${IGNORE_FILE}`);
+        }
+
+        const outputPath = options.output || getDefaultOutputPath(sourceDir);
+
+        const result = await withSpinner(
+          "Packing extension...",
+          "Extension packed successfully",
+          "Pack failed",
+          async () => packDirectory(sourceDir, outputPath)
+        );
+
+        displayPackResult(result);
+
+        Logger.green(`✅ Package written to ${result.outputPath}`);
+        Output.success({ ...result });
+      } catch (error) {
+        Output.failure(error);
+        Logger.red(
+          "❌ Pack failed:",
+          error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+      }
+    }
+  );
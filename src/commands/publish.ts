@@ -1,10 +1,46 @@
 import { Command } from "commander";
-import { ConfigManager } from "../utils/config";
-import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
-import { PublishOptions, PublishType, PublishCommandOptions } from "../types";
+import {
+  ClientProvider,
+  createClientProvider,
+} from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import {
+  CommandResult,
+  ItemState,
+  PublishOptions,
+  PublishType,
+  PublishCommandOptions,
+  ReviewExitCode,
+  ReviewOutcome,
+} from "../types";
 import { withSpinner } from "../utils/spinner";
 import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { logErrorHint } from "../utils/errors";
 import { validateDeployPercentage } from "../utils/utils";
+import {
+  addPreflightOptions,
+  checkBeforePublish,
+  validateSkipChecks,
+} from "../utils/preflight";
+import {
+  assertReviewSucceeded,
+  DEFAULT_REVIEW_POLL_INTERVAL,
+  DEFAULT_REVIEW_TIMEOUT,
+  displayReviewOutcome,
+  getReviewExitCode,
+  summarizeReviewOutcome,
+  TERMINAL_REVIEW_STATES,
+  waitForReview,
+} from "../utils/review";
+import {
+  addBatchOptions,
+  applyPublishDefaults,
+  finishBatch,
+  isBatchMode,
+  requireItemId,
+  runBatch,
+} from "../utils/batch";
 
 // Helper function to get publish type
 function getPublishType(publishTypeStr?: string): PublishType {
@@ -13,9 +49,123 @@ function getPublishType(publishTypeStr?: string): PublishType {
     : PublishType.DEFAULT_PUBLISH;
 }
 
+// Helper function to publish a single item, returning the resulting state
+async function publishItem(
+  getClient: ClientProvider,
+  itemId: string,
+  opts: PublishOptions
+): Promise<CommandResult> {
+  Logger.verbose(`Item ID: ${itemId}`);
+
+  // Load configuration
+  const client = await getClient();
+
+  const publishType = getPublishType(opts.publishType);
+  const deployPercentage = validateDeployPercentage(
+    opts.deployPercentage || "100"
+  );
+
+  // The submitted package is the item's last upload, when it was recorded
+  const lastUpload = HistoryManager.findLastUpload(itemId);
+
+  const checks = await checkBeforePublish(
+    client,
+    itemId,
+    lastUpload?.manifestVersion,
+    publishType,
+    deployPercentage,
+    opts
+  );
+
+  const response = await withSpinner(
+    "Publishing item...",
+    "Item published successfully",
+    "Publish failed",
+    () =>
+      HistoryManager.track(
+        opts,
+        client,
+        {
+          action: "publish",
+          itemId,
+          params: {
+            skipReview: opts.skipReview,
+            publishType: opts.publishType,
+            deployPercentage,
+          },
+          packageSha256: lastUpload?.packageSha256,
+          manifestVersion: lastUpload?.manifestVersion,
+        },
+        () =>
+          client.publishItem(itemId, {
+            skipReview: opts.skipReview,
+            publishType,
+            deployInfos:
+              deployPercentage < 100 ? [{ deployPercentage }] : undefined,
+          }),
+        (publishResponse) => publishResponse.state
+      )
+  );
+
+  Logger.verbose("Publish response:", response);
+
+  Logger.green("✅ Publish completed!");
+  Logger.gray(`Status: ${response.state}`);
+
+  if (response.itemId) {
+    Logger.gray(`Item ID: ${response.itemId}`);
+  }
+
+  if (!opts.wait) {
+    return {
+      summary: `published: ${response.state}`,
+      data: {
+        itemId,
+        checks,
+        publish: response,
+        dryRun: opts.dry || undefined,
+      },
+    };
+  }
+
+  // A staged publish ends its review in STAGED rather than PUBLISHED
+  const target =
+    publishType === PublishType.STAGED_PUBLISH
+      ? ItemState.STAGED
+      : ItemState.PUBLISHED;
+  const outcome: ReviewOutcome =
+    response.state &&
+    [target, ...TERMINAL_REVIEW_STATES].includes(response.state)
+      ? {
+          target,
+          state: response.state,
+          timedOut: false,
+          exitCode: getReviewExitCode(target, response.state),
+        }
+      : await waitForReview(
+          client,
+          itemId,
+          target,
+          opts.timeout,
+          opts.pollInterval
+        );
+  displayReviewOutcome(outcome);
+
+  return {
+    summary: `review: ${outcome.timedOut ? "timed out" : outcome.state}`,
+    data: {
+      itemId,
+      checks,
+      publish: response,
+      review: summarizeReviewOutcome(outcome),
+      dryRun: opts.dry || undefined,
+    },
+  };
+}
+
 export const publishCommand = new Command("publish")
   .description("Publish an item in the Chrome Web Store")
-  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .argument("[item-id]", "Chrome Web Store item (extension) ID")
   .option("-s, --skip-review", "Skip review process if possible")
   .option(
     "-p, --publish-type <type>",
@@ -27,63 +177,80 @@ export const publishCommand = new Command("publish")
     "Initial deploy percentage (0-100)",
     "100"
   )
+  .option(
+    "-w, --wait",
+    "Wait for the review to end, exiting with a code per outcome"
+  )
+  .option(
+    "-t, --timeout <duration>",
+    "Maximum time to wait with --wait, e.g. 30m or 24h",
+    DEFAULT_REVIEW_TIMEOUT
+  )
+  .option(
+    "--poll-interval <seconds>",
+    "Seconds between status checks with --wait",
+    DEFAULT_REVIEW_POLL_INTERVAL
+  )
   .action(
     async (
-      itemId: string,
+      itemId: string | undefined,
       options: PublishCommandOptions,
       command: Command
     ) => {
       const globalOptions = command.parent?.opts() || {};
-      const opts: PublishOptions = { ...globalOptions, itemId, ...options };
+      const opts: PublishOptions = {
+        ...globalOptions,
+        itemId: itemId || "",
+        ...options,
+      };
 
       try {
+        Output.begin("publish");
         Logger.setVerbose(opts.verbose || false);
         Logger.blue("🚀 Chrome Web Store Publish");
-        Logger.verbose(`Item ID: ${itemId}`);
+        validateSkipChecks(opts.skipCheck);
+        const getClient = createClientProvider(opts);
 
-        if (opts.dry) {
-          Logger.yellow(
-            "🏃 Dry run mode - no actual publish will be performed"
-          );
+        if (isBatchMode(options)) {
+          const results = await runBatch(opts, options, async (target) => {
+            const result = await publishItem(
+              getClient,
+              target.itemId,
+              applyPublishDefaults(opts, target, command)
+            );
+            // Per-item outcomes cannot map to one exit code; count them as failures
+            const review = result.data?.review as ReviewOutcome | undefined;
+            if (review) {
+              assertReviewSucceeded(review);
+            }
+            return result;
+          });
+          finishBatch(results);
           return;
         }
 
-        // Load configuration
-        const config = await ConfigManager.loadConfig(opts.config);
-        const client = new ChromeWebStoreClient(config);
-
-        const publishType = getPublishType(opts.publishType);
-        const deployPercentage = validateDeployPercentage(
-          opts.deployPercentage || "100"
-        );
-
-        const response = await withSpinner(
-          "Publishing item...",
-          "Item published successfully",
-          "Publish failed",
-          () =>
-            client.publishItem(itemId, {
-              skipReview: opts.skipReview,
-              publishType,
-              deployInfos:
-                deployPercentage < 100 ? [{ deployPercentage }] : undefined,
-            })
+        const result = await publishItem(
+          getClient,
+          requireItemId(itemId),
+          opts
         );
+        Output.success(result.data);
 
-        Logger.verbose("Publish response:", response);
-
-        Logger.green("✅ Publish completed!");
-        Logger.gray(`Status: ${response.state}`);
-
-        if (response.itemId) {
-          Logger.gray(`Item ID: ${response.itemId}`);
+        const review = result.data?.review as ReviewOutcome | undefined;
+        if (review && review.exitCode !== ReviewExitCode.TARGET_REACHED) {
+          process.exit(review.exitCode);
         }
       } catch (error) {
+        Output.failure(error, { itemId });
         Logger.red(
           "❌ Publish failed:",
           error instanceof Error ? error.message : error
         );
+        logErrorHint(error);
         process.exit(1);
       }
     }
   );
+
+addBatchOptions(publishCommand);
+addPreflightOptions(publishCommand);
@@ -0,0 +1,154 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createProgram } from "../program";
+import { EmulatorServer } from "../services/emulator";
+import { ReleasePipelineManager } from "../services/release-pipeline";
+import { ConfigManager } from "../utils/config";
+import { Logger } from "../utils/logger";
+import { setSpinnerSilent } from "../utils/spinner";
+import { releaseCommand } from "./release";
+
+const ITEM_ID = "abcdefghijklmnopqrstuvwxyzabcdef";
+
+const PIPELINE = `
+itemId: ${ITEM_ID}
+source: ./extension
+steps:
+  - run: pack
+  - run: upload
+  - run: wait-for-processing
+  - run: publish
+`;
+
+describe("release", () => {
+  const env = process.env;
+  let dir: string;
+  let emulator: EmulatorServer;
+
+  beforeAll(() => {
+    Logger.setSilent(true);
+    setSpinnerSilent(true);
+  });
+
+  afterAll(() => {
+    Logger.setSilent(false);
+    setSpinnerSilent(false);
+  });
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "cws-release-"));
+    jest
+      .spyOn(ConfigManager, "getConfigDir")
+      .mockReturnValue(join(dir, ".cws-manager-cli"));
+    jest.spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    writeFileSync(
+      join(dir, "config.json"),
+      JSON.stringify({
+        clientId: "client-id",
+        clientSecret: "client-secret",
+        refreshToken: "refresh-token",
+        publisherId: "publisher",
+      })
+    );
+    mkdirSync(join(dir, "extension"));
+    writeFileSync(
+      join(dir, "extension", "manifest.json"),
+      JSON.stringify({ manifest_version: 3, name: "Test", version: "1.0.0" })
+    );
+    writeFileSync(join(dir, "release.yaml"), PIPELINE);
+
+    emulator = await EmulatorServer.start();
+    process.env = {
+      ...env,
+      CWS_API_URL: emulator.url,
+      CWS_TOKEN_URL: emulator.tokenUrl,
+      NO_PROXY: "*",
+      no_proxy: "*",
+    };
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    jest.restoreAllMocks();
+    await emulator.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function release(...options: string[]): Promise<unknown> {
+    // The command is shared between programs, and keeps the options of
+    // the last parse
+    for (const option of releaseCommand.options) {
+      releaseCommand.setOptionValue(
+        option.attributeName(),
+        option.defaultValue
+      );
+    }
+    return createProgram()
+      .exitOverride()
+      .parseAsync(
+        [
+          "-c",
+          join(dir, "config.json"),
+          "release",
+          join(dir, "release.yaml"),
+          ...options,
+        ],
+        { from: "user" }
+      );
+  }
+
+  function countRequests(action: string): number {
+    return emulator.store.requests.filter((request) =>
+      request.url.endsWith(`:${action}`)
+    ).length;
+  }
+
+  it("resumes a failed release from the step that failed", async () => {
+    // Without a terminal, a publish to every user needs --yes
+    await expect(release()).rejects.toThrow("process.exit(1)");
+
+    const failed = ReleasePipelineManager.load(ITEM_ID)!;
+    expect(failed.status).toBe("failed");
+    expect(failed.steps.map((step) => [step.name, step.status])).toEqual([
+      ["pack", "completed"],
+      ["upload", "completed"],
+      ["wait-for-processing", "completed"],
+      ["publish", "failed"],
+    ]);
+
+    await release("--resume", "--yes");
+
+    const resumed = ReleasePipelineManager.load(ITEM_ID)!;
+    expect(resumed.status).toBe("completed");
+    expect(resumed.steps.map((step) => step.status)).toEqual([
+      "completed",
+      "completed",
+      "completed",
+      "completed",
+    ]);
+    expect(countRequests("upload")).toBe(1);
+    expect(countRequests("publish")).toBe(1);
+    expect(
+      emulator.store.getItemStatus(ITEM_ID).submittedItemRevisionStatus
+    ).toMatchObject({ distributionChannels: [{ crxVersion: "1.0.0" }] });
+  });
+
+  it("does not start over an unfinished release without --restart", async () => {
+    await expect(release()).rejects.toThrow("process.exit(1)");
+    await expect(release("--yes")).rejects.toThrow("process.exit(1)");
+    expect(countRequests("upload")).toBe(1);
+
+    await release("--restart", "--yes");
+    expect(ReleasePipelineManager.load(ITEM_ID)!.status).toBe("completed");
+    expect(countRequests("upload")).toBe(2);
+  });
+
+  it("refuses to resume when there is nothing to resume", async () => {
+    await expect(release("--resume")).rejects.toThrow("process.exit(1)");
+    expect(countRequests("upload")).toBe(0);
+  });
+});
@@ -0,0 +1,748 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { copyFileSync, existsSync, mkdirSync, rmSync, statSync } from "fs";
+import { dirname, resolve } from "path";
+import { ArtifactCache } from "../services/artifact-cache";
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import { createClient } from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import {
+  packDirectory,
+  packDirectoryToTemp,
+} from "../services/package-builder";
+import {
+  hasInspectionErrors,
+  inspectPackage,
+} from "../services/package-inspector";
+import { ReleasePipelineManager } from "../services/release-pipeline";
+import { RolloutManager } from "../services/rollout";
+import {
+  CliOptions,
+  ErrorCode,
+  ItemState,
+  PublishType,
+  ReleaseCommandOptions,
+  ReleasePipeline,
+  ReleaseState,
+  ReleaseStep,
+  ReleaseStepAction,
+  ReleaseStepRecord,
+  UploadState,
+} from "../types";
+import { displayPackResult } from "./pack";
+import { runRollout, simulateRollout } from "./rollout";
+import {
+  displayInspectionReport,
+  handleUploadProcessing,
+  preparePackageVersion,
+  removeTempPackages,
+  uploadPackageWithProgress,
+} from "./upload";
+import { withSpinner } from "../utils/spinner";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import {
+  addPreflightOptions,
+  checkBeforePublish,
+  validateSkipChecks,
+} from "../utils/preflight";
+import {
+  assertReviewSucceeded,
+  DEFAULT_REVIEW_POLL_INTERVAL,
+  DEFAULT_REVIEW_TIMEOUT,
+  displayReviewOutcome,
+  getSubmissionState,
+  summarizeReviewOutcome,
+  waitForReview,
+} from "../utils/review";
+import { renderTable } from "../utils/table";
+import {
+  formatDuration,
+  parseDuration,
+  validateDeployPercentage,
+} from "../utils/utils";
+
+// Default time to wait for upload processing, as for `upload`
+const DEFAULT_PROCESSING_TIMEOUT_MS = 300_000;
+
+// Steps that take their timeout as the time to wait, rather than failing
+// when it passes
+const WAIT_STEPS: ReleaseStepAction[] = [
+  "wait-for-processing",
+  "wait-for-review",
+];
+
+interface StepContext {
+  client: ChromeWebStoreClient;
+  itemId: string;
+  pipeline: ReleasePipeline;
+  step: ReleaseStep;
+  state: ReleaseState;
+  // Source directory or package given on the command line or in the pipeline
+  source?: string;
+  timeoutMs?: number;
+  // Packages a dry run wrote to temporary directories, removed at the end
+  tempPackages: string[];
+  options: ReleaseCommandOptions;
+  globalOptions: CliOptions;
+}
+
+type StepRunner = (context: StepContext) => Promise<Record<string, unknown>>;
+
+// Helper function to find the package the upload steps work on
+function requirePackage({ state, source }: StepContext): string {
+  if (state.package) {
+    return state.package;
+  }
+  if (source && existsSync(source) && statSync(source).isFile()) {
+    return source;
+  }
+  throw new CwsError(
+    ErrorCode.INVALID_ARGUMENT,
+    "No package to release: add a pack step, or set source to a .zip file"
+  );
+}
+
+async function runPackStep(
+  context: StepContext
+): Promise<Record<string, unknown>> {
+  const { itemId, step, state, source, tempPackages, globalOptions } = context;
+  if (!source || !existsSync(source) || !statSync(source).isDirectory()) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "The pack step needs a source directory (pipeline source or --source)"
+    );
+  }
+
+  // A dry run leaves the package of a real release alone
+  const outputPath =
+    step.output ||
+    (globalOptions.dry
+      ? undefined
+      : ReleasePipelineManager.getPackageFile(itemId));
+  const result = await withSpinner(
+    "Packing extension...",
+    "Extension packed successfully",
+    "Pack failed",
+    async () => {
+      if (!outputPath) {
+        return packDirectoryToTemp(source);
+      }
+      mkdirSync(dirname(outputPath), { recursive: true });
+      return packDirectory(source, outputPath);
+    }
+  );
+  if (!outputPath) {
+    tempPackages.push(result.outputPath);
+  }
+  displayPackResult(result, !!globalOptions.verbose);
+
+  state.package = result.outputPath;
+  return { package: result.outputPath, archiveSize: result.archiveSize };
+}
+
+async function runValidateStep(
+  context: StepContext
+): Promise<Record<string, unknown>> {
+  const { client, itemId, step, state, tempPackages, globalOptions } = context;
+  const file = requirePackage(context);
+
+  const report = inspectPackage(file);
+  displayInspectionReport(report);
+  if (hasInspectionErrors(report)) {
+    throw new CwsError(
+      ErrorCode.PACKAGE_INVALID,
+      "Package inspection found errors"
+    );
+  }
+
+  // A bumped package is written to a temporary directory; keep it with the
+  // release so a resumed release uploads the same package
+  const preparedFile = await preparePackageVersion(
+    client,
+    itemId,
+    file,
+    report.manifest?.version,
+    { bump: step.bump, force: step.force }
+  );
+  state.package = file;
+  if (preparedFile !== file && globalOptions.dry) {
+    tempPackages.push(preparedFile);
+    state.package = preparedFile;
+  } else if (preparedFile !== file) {
+    state.package = ReleasePipelineManager.getPackageFile(itemId);
+    mkdirSync(dirname(state.package), { recursive: true });
+    copyFileSync(preparedFile, state.package);
+    rmSync(dirname(preparedFile), { recursive: true, force: true });
+  }
+
+  state.version = HistoryManager.describePackage(state.package).manifestVersion;
+  return {
+    package: state.package,
+    version: state.version,
+    warnings: report.issues.length,
+  };
+}
+
+async function runUploadStep(
+  context: StepContext
+): Promise<Record<string, unknown>> {
+  const { client, itemId, pipeline, step, state, globalOptions } = context;
+  const file = requirePackage(context);
+  const packageInfo = HistoryManager.describePackage(file);
+
+  const response = await HistoryManager.track(
+    globalOptions,
+    client,
+    {
+      action: "upload",
+      itemId,
+      params: { file, release: pipeline.name },
+      ...packageInfo,
+    },
+    () =>
+      uploadPackageWithProgress(
+        client,
+        itemId,
+        file,
+        "Uploading package...",
+        step.resumable
+      ),
+    (uploadResponse) => uploadResponse.uploadState
+  );
+  Logger.verbose("Upload response:", JSON.stringify(response, null, 2));
+
+  if (response.uploadState === UploadState.FAILED) {
+    throw new CwsError(
+      ErrorCode.UPLOAD_FAILED,
+      "The store rejected the upload"
+    );
+  }
+
+  state.version = packageInfo.manifestVersion || response.crxVersion;
+  const artifact =
+    state.version && !globalOptions.dry
+      ? ArtifactCache.store(itemId, file, state.version, file)
+      : undefined;
+
+  return {
+    uploadState: response.uploadState,
+    version: state.version,
+    artifact: artifact?.path,
+  };
+}
+
+async function runWaitForProcessingStep({
+  client,
+  itemId,
+  timeoutMs,
+}: StepContext): Promise<Record<string, unknown>> {
+  const uploadState = await handleUploadProcessing(
+    client,
+    itemId,
+    { uploadState: UploadState.IN_PROGRESS },
+    String(Math.ceil((timeoutMs ?? DEFAULT_PROCESSING_TIMEOUT_MS) / 1000))
+  );
+  return { uploadState };
+}
+
+async function runPublishStep({
+  client,
+  itemId,
+  pipeline,
+  step,
+  state,
+  options,
+  globalOptions,
+}: StepContext): Promise<Record<string, unknown>> {
+  const publishType =
+    step.publishType === "staged"
+      ? PublishType.STAGED_PUBLISH
+      : PublishType.DEFAULT_PUBLISH;
+  const deployPercentage = validateDeployPercentage(
+    String(step.deployPercentage ?? 100)
+  );
+
+  const checks = await checkBeforePublish(
+    client,
+    itemId,
+    state.version,
+    publishType,
+    deployPercentage,
+    {
+      yes: options.yes,
+      skipCheck: [...(step.skipChecks || []), ...(options.skipCheck || [])],
+      dry: globalOptions.dry,
+    }
+  );
+
+  const response = await withSpinner(
+    "Publishing item...",
+    "Item published successfully",
+    "Publish failed",
+    () =>
+      HistoryManager.track(
+        globalOptions,
+        client,
+        {
+          action: "publish",
+          itemId,
+          params: {
+            skipReview: step.skipReview,
+            publishType: step.publishType,
+            deployPercentage,
+            release: pipeline.name,
+          },
+          manifestVersion: state.version,
+        },
+        () =>
+          client.publishItem(itemId, {
+            skipReview: step.skipReview,
+            publishType,
+            deployInfos:
+              deployPercentage < 100 ? [{ deployPercentage }] : undefined,
+          }),
+        (publishResponse) => publishResponse.state
+      )
+  );
+  Logger.gray(`Status: ${response.state}`);
+
+  state.publishType = publishType;
+  return { state: response.state, deployPercentage, checks };
+}
+
+async function runWaitForReviewStep({
+  client,
+  itemId,
+  step,
+  state,
+  timeoutMs,
+}: StepContext): Promise<Record<string, unknown>> {
+  // A staged publish ends its review in STAGED rather than PUBLISHED
+  const target =
+    step.target ||
+    (state.publishType === PublishType.STAGED_PUBLISH
+      ? ItemState.STAGED
+      : ItemState.PUBLISHED);
+
+  const outcome = await waitForReview(
+    client,
+    itemId,
+    target,
+    timeoutMs === undefined ? DEFAULT_REVIEW_TIMEOUT : `${timeoutMs}ms`,
+    String(step.pollInterval ?? DEFAULT_REVIEW_POLL_INTERVAL)
+  );
+  displayReviewOutcome(outcome);
+  assertReviewSucceeded(outcome);
+  return summarizeReviewOutcome(outcome);
+}
+
+async function runDeployStep({
+  client,
+  itemId,
+  pipeline,
+  step,
+  globalOptions,
+}: StepContext): Promise<Record<string, unknown>> {
+  const deployPercentage = validateDeployPercentage(
+    String(step.deployPercentage ?? 100)
+  );
+
+  await withSpinner(
+    `Setting deploy percentage to ${deployPercentage}%...`,
+    `Deploy percentage set to ${deployPercentage}%`,
+    "Deploy percentage update failed",
+    () =>
+      HistoryManager.track(
+        globalOptions,
+        client,
+        {
+          action: "deploy",
+          itemId,
+          params: { deployPercentage, release: pipeline.name },
+        },
+        () => client.setPublishedDeployPercentage(itemId, { deployPercentage })
+      )
+  );
+  return { deployPercentage };
+}
+
+async function runRolloutStep({
+  client,
+  itemId,
+  step,
+  globalOptions,
+}: StepContext): Promise<Record<string, unknown>> {
+  const schedule = step.schedule
+    ? RolloutManager.parseSchedule(step.schedule.join(","))
+    : RolloutManager.DEFAULT_SCHEDULE;
+  const intervalMs = parseDuration(String(step.interval ?? "24h"));
+
+  if (globalOptions.dry) {
+    await simulateRollout(client, itemId, schedule, intervalMs);
+    return { schedule };
+  }
+
+  // A rollout started by an earlier attempt carries on where it stopped
+  const existing = RolloutManager.load(itemId);
+  if (existing && !RolloutManager.isFinished(existing)) {
+    if (existing.status === "paused") {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        `The rollout for item ${itemId} is paused; run \`cws-manager rollout resume ${itemId}\` first`
+      );
+    }
+    Logger.yellow(
+      `↻ Resuming rollout at step ${existing.currentStep + 1} of ${existing.schedule.length}`
+    );
+  } else {
+    RolloutManager.create(itemId, schedule, intervalMs);
+  }
+
+  const rollout = await runRollout(client, itemId, globalOptions);
+  if (rollout.status !== "completed") {
+    throw new CwsError(
+      ErrorCode.ROLLOUT_HALTED,
+      `The rollout ended ${rollout.status} at ${rollout.steps.at(-1)?.percentage ?? 0}%`
+    );
+  }
+  return { schedule: rollout.schedule };
+}
+
+const STEP_RUNNERS: Record<ReleaseStepAction, StepRunner> = {
+  pack: runPackStep,
+  validate: runValidateStep,
+  upload: runUploadStep,
+  "wait-for-processing": runWaitForProcessingStep,
+  publish: runPublishStep,
+  "wait-for-review": runWaitForReviewStep,
+  deploy: runDeployStep,
+  rollout: runRolloutStep,
+};
+
+// Helper function to return why a step's condition does not hold, or
+// undefined when the step should run
+async function getSkipReason(
+  context: StepContext
+): Promise<string | undefined> {
+  const condition = context.step.if;
+  if (!condition) {
+    return undefined;
+  }
+
+  for (const [name, expected] of Object.entries(condition.env || {})) {
+    const value = process.env[name];
+    const matches =
+      typeof expected === "boolean" ? !!value === expected : value === expected;
+    if (!matches) {
+      return `${name} is ${value === undefined ? "not set" : `"${value}"`}`;
+    }
+  }
+
+  if (
+    condition.dry !== undefined &&
+    !!context.globalOptions.dry !== condition.dry
+  ) {
+    return condition.dry ? "not a dry run" : "dry run";
+  }
+
+  if (condition.state !== undefined) {
+    const states = ([] as ItemState[]).concat(condition.state);
+    const status = await withSpinner(
+      "Checking item state...",
+      "Item status fetched",
+      "Failed to fetch item status",
+      () => context.client.fetchItemStatus(context.itemId)
+    );
+    const state = getSubmissionState(status);
+    if (!state || !states.includes(state)) {
+      return `item is ${state ?? "in no state"}, not ${states.join(" or ")}`;
+    }
+  }
+
+  return undefined;
+}
+
+// Helper function to fail a step that runs longer than its timeout. The
+// operation gets a signal that aborts then, so that its requests in flight
+// are cancelled and it sends no more.
+async function withStepTimeout<T>(
+  name: string,
+  timeoutMs: number | undefined,
+  operation: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return operation();
+  }
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      operation(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new CwsError(
+            ErrorCode.TIMEOUT,
+            `Step "${name}" did not finish within ${formatDuration(timeoutMs)}`
+          );
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs the steps of a pipeline in order, skipping those an earlier attempt
+ * completed or skipped. The state is saved after every step; a failed step
+ * marks the release failed so it can be resumed from that step.
+ */
+async function runPipeline(
+  contextBase: Omit<StepContext, "step" | "timeoutMs">,
+  save: (state: ReleaseState) => void
+): Promise<ReleaseState> {
+  const { pipeline, state } = contextBase;
+
+  for (const step of pipeline.steps) {
+    const name = step.name!;
+    const previous = state.steps.find((record) => record.name === name);
+    if (previous && previous.status !== "failed") {
+      Logger.gray(`↷ ${name}: ${previous.status} earlier`);
+      continue;
+    }
+    state.steps = state.steps.filter((record) => record.name !== name);
+
+    Logger.blue(`\n▶ ${name}`);
+    const context: StepContext = {
+      ...contextBase,
+      step,
+      timeoutMs:
+        step.timeout === undefined
+          ? undefined
+          : parseDuration(String(step.timeout)),
+    };
+    const record: ReleaseStepRecord = {
+      name,
+      status: "completed",
+      startedAt: new Date().toISOString(),
+      finishedAt: "",
+    };
+
+    try {
+      const skipReason = await getSkipReason(context);
+      if (skipReason) {
+        Logger.gray(`Skipped: ${skipReason}`);
+        record.status = "skipped";
+        record.result = { reason: skipReason };
+      } else {
+        const run = (signal?: AbortSignal) =>
+          STEP_RUNNERS[step.run](
+            signal
+              ? { ...context, client: context.client.withSignal(signal) }
+              : context
+          );
+        record.result = WAIT_STEPS.includes(step.run)
+          ? await run()
+          : await withStepTimeout(name, context.timeoutMs, run);
+      }
+    } catch (error) {
+      record.status = "failed";
+      record.error = error instanceof Error ? error.message : String(error);
+      state.status = "failed";
+      state.error = `${name}: ${record.error}`;
+      throw error;
+    } finally {
+      record.finishedAt = new Date().toISOString();
+      state.steps.push(record);
+      save(state);
+    }
+  }
+
+  state.status = "completed";
+  save(state);
+  return state;
+}
+
+// Helper function to display the steps of a release and how each ended
+function displayReleaseSummary(state: ReleaseState): void {
+  const colors = {
+    completed: chalk.green,
+    skipped: chalk.gray,
+    failed: chalk.red,
+  };
+  Logger.blue("\n🏁 Release:");
+  Logger.log(
+    renderTable(
+      ["Step", "Status", "Duration"],
+      state.steps.map((record) => [
+        record.name,
+        colors[record.status](record.status),
+        formatDuration(
+          Date.parse(record.finishedAt) - Date.parse(record.startedAt)
+        ),
+      ])
+    )
+  );
+}
+
+// Helper function to continue an unfinished release or start a new one
+function prepareState(
+  itemId: string,
+  pipelineFile: string,
+  sha256: string,
+  options: ReleaseCommandOptions,
+  dry: boolean
+): ReleaseState {
+  // Dry runs never read or write release state
+  const existing = dry ? null : ReleasePipelineManager.load(itemId);
+  const unfinished = existing && existing.status !== "completed";
+
+  if (options.resume) {
+    if (!unfinished) {
+      throw new CwsError(
+        ErrorCode.NOT_FOUND,
+        `No unfinished release to resume for item ${itemId}`
+      );
+    }
+    Logger.yellow(
+      `↻ Resuming the release started ${new Date(existing.startedAt).toLocaleString()}`
+    );
+    // Fixing the pipeline is a common way out of a failed step; steps that
+    // already ran are matched by name and not run again
+    if (existing.pipelineSha256 !== sha256) {
+      Logger.yellow(
+        "⚠️  The pipeline file changed since the release started; completed steps are not run again"
+      );
+    }
+    return {
+      ...existing,
+      pipelineSha256: sha256,
+      status: "running",
+      error: undefined,
+    };
+  }
+
+  if (unfinished && !options.restart) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `The last release of item ${itemId} stopped (${existing.error ?? existing.status}); ` +
+        "pass --resume to continue it or --restart to start over"
+    );
+  }
+
+  return ReleasePipelineManager.create(itemId, pipelineFile, sha256);
+}
+
+export const releaseCommand = new Command("release")
+  .description(
+    "Run a release pipeline (pack, validate, upload, publish, review, rollout) from a YAML or JSON file"
+  )
+  .argument("<pipeline>", "Pipeline file (.yaml, .yml or .json)")
+  .argument("[item-id]", "Item to release (default: the pipeline's itemId)")
+  .option(
+    "--source <path>",
+    "Source directory or package (default: the pipeline's source)"
+  )
+  .option("--resume", "Continue the last release from the step that failed")
+  .option("--restart", "Start over, discarding an unfinished release")
+  .action(
+    async (
+      pipelineFile: string,
+      itemIdArg: string | undefined,
+      options: ReleaseCommandOptions,
+      command: Command
+    ) => {
+      const globalOptions: CliOptions = command.parent?.opts() || {};
+      let itemId = itemIdArg;
+      let state: ReleaseState | undefined;
+      const tempPackages: string[] = [];
+
+      try {
+        Output.begin("release");
+        Logger.setVerbose(globalOptions.verbose || false);
+        validateSkipChecks(options.skipCheck);
+
+        const { pipeline, sha256 } =
+          ReleasePipelineManager.loadPipeline(pipelineFile);
+        itemId = itemIdArg || pipeline.itemId;
+        if (!itemId) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "Missing item ID. Pass <item-id> or set itemId in the pipeline file."
+          );
+        }
+
+        Logger.blue(
+          `🚢 Chrome Web Store Release${pipeline.name ? `: ${pipeline.name}` : ""}`
+        );
+        Logger.gray(`Item ID: ${itemId}`);
+        Logger.gray(
+          `Steps: ${pipeline.steps.map((step) => step.name).join(" → ")}`
+        );
+
+        state = prepareState(
+          itemId,
+          pipelineFile,
+          sha256,
+          options,
+          !!globalOptions.dry
+        );
+        const save = (releaseState: ReleaseState) => {
+          if (!globalOptions.dry) {
+            ReleasePipelineManager.save(releaseState);
+          }
+        };
+        save(state);
+
+        const client = await createClient(globalOptions);
+        try {
+          await runPipeline(
+            {
+              client,
+              itemId,
+              pipeline,
+              state,
+              source: options.source
+                ? resolve(options.source)
+                : pipeline.source,
+              tempPackages,
+              options,
+              globalOptions,
+            },
+            save
+          );
+        } finally {
+          displayReleaseSummary(state);
+          removeTempPackages(tempPackages);
+        }
+
+        Logger.green("\n✅ Release completed!");
+        Output.success({
+          itemId,
+          pipeline: pipeline.name,
+          release: state,
+          dryRun: globalOptions.dry || undefined,
+        });
+      } catch (error) {
+        Output.failure(error, { itemId });
+        Logger.red(
+          "❌ Release failed:",
+          error instanceof Error ? error.message : error
+        );
+        logErrorHint(error);
+        if (state?.status === "failed" && !globalOptions.dry) {
+          Logger.gray(
+            "Fix the problem, then run the same command with --resume to continue"
+          );
+        }
+        process.exit(1);
+      }
+    }
+  );
+
+addPreflightOptions(releaseCommand);
@@ -0,0 +1,187 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createProgram } from "../program";
+import { ArtifactCache } from "../services/artifact-cache";
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import * as clientFactory from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import { FetchItemStatusResponse, ItemState, UploadState } from "../types";
+import { ConfigManager } from "../utils/config";
+import { Logger } from "../utils/logger";
+import { setSpinnerSilent } from "../utils/spinner";
+import { createZip } from "../utils/zip";
+import { rollbackCommand } from "./rollback";
+
+const ITEM_ID = "abcdefghijklmnopqrstuvwxyzabcdef";
+
+// A client for an item published at 1.2.0, recording the API methods called
+function createClient({ failUploads = false } = {}) {
+  const actions: string[] = [];
+  const channel = { crxVersion: "1.2.0", deployPercentage: 100 };
+  const status: FetchItemStatusResponse = {
+    publishedItemRevisionStatus: {
+      state: ItemState.PUBLISHED,
+      distributionChannels: [channel],
+    },
+  };
+  const client = {
+    getPublisherId: () => "publisher",
+    fetchItemStatus: async () => {
+      actions.push("fetchStatus");
+      return status;
+    },
+    uploadPackage: async () => {
+      actions.push("upload");
+      status.lastAsyncUploadState = failUploads
+        ? UploadState.FAILED
+        : UploadState.SUCCEEDED;
+      return { uploadState: status.lastAsyncUploadState };
+    },
+    setPublishedDeployPercentage: async (
+      _itemId: string,
+      { deployPercentage }: { deployPercentage: number }
+    ) => {
+      actions.push("setPublishedDeployPercentage");
+      channel.deployPercentage = deployPercentage;
+    },
+    publishItem: async () => {
+      actions.push("publish");
+      return { state: "PENDING_REVIEW" };
+    },
+  } as unknown as ChromeWebStoreClient;
+  return { client, actions, channel };
+}
+
+describe("rollback", () => {
+  let dir: string;
+  let fake: ReturnType<typeof createClient>;
+
+  beforeAll(() => {
+    Logger.setSilent(true);
+    setSpinnerSilent(true);
+  });
+
+  afterAll(() => {
+    Logger.setSilent(false);
+    setSpinnerSilent(false);
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-rollback-"));
+    jest.spyOn(ConfigManager, "getConfigDir").mockReturnValue(dir);
+    jest.spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    writeFileSync(
+      join(dir, "config.json"),
+      JSON.stringify({
+        clientId: "client-id",
+        clientSecret: "client-secret",
+        refreshToken: "refresh-token",
+        publisherId: "publisher",
+      })
+    );
+    ["1.0.0", "1.1.0", "1.2.0"].forEach(cachePackage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function useClient(options?: { failUploads?: boolean }): void {
+    fake = createClient(options);
+    jest.spyOn(clientFactory, "createClient").mockResolvedValue(fake.client);
+  }
+
+  function cachePackage(version: string): void {
+    const file = join(dir, `extension-${version}.zip`);
+    writeFileSync(
+      file,
+      createZip([
+        {
+          name: "manifest.json",
+          data: Buffer.from(
+            JSON.stringify({ manifest_version: 3, name: "Test", version })
+          ),
+        },
+      ])
+    );
+    ArtifactCache.store(ITEM_ID, file, version, file);
+  }
+
+  function rollback(...options: string[]): Promise<unknown> {
+    // The command is shared between programs, and keeps the options of
+    // the last parse
+    for (const option of rollbackCommand.options) {
+      rollbackCommand.setOptionValue(
+        option.attributeName(),
+        option.defaultValue
+      );
+    }
+    return createProgram()
+      .exitOverride()
+      .parseAsync(
+        ["-c", join(dir, "config.json"), "rollback", ITEM_ID, ...options],
+        { from: "user" }
+      );
+  }
+
+  it("publishes the newest cached version below the published one", async () => {
+    useClient();
+
+    await rollback("--yes");
+
+    expect(fake.actions).toEqual([
+      "fetchStatus",
+      "upload",
+      "fetchStatus",
+      "publish",
+    ]);
+    const publish = HistoryManager.load().find(
+      (entry) => entry.action === "publish"
+    );
+    expect(publish).toMatchObject({
+      params: { rollbackTo: "1.1.0" },
+      manifestVersion: "1.2.1",
+    });
+  });
+
+  it("goes back to the version given with --to", async () => {
+    useClient();
+
+    await rollback("--to", "1.0.0", "--bump", "minor", "--yes");
+
+    expect(
+      HistoryManager.load().find((entry) => entry.action === "publish")
+    ).toMatchObject({
+      params: { rollbackTo: "1.0.0" },
+      manifestVersion: "1.3.0",
+    });
+  });
+
+  it("stops the bad version before uploading, even when the upload fails", async () => {
+    useClient({ failUploads: true });
+
+    await expect(rollback("--zero-deploy", "--yes")).rejects.toThrow(
+      "process.exit(1)"
+    );
+
+    const { actions } = fake;
+    expect(actions.indexOf("setPublishedDeployPercentage")).toBeLessThan(
+      actions.indexOf("upload")
+    );
+    expect(actions).not.toContain("publish");
+    expect(fake.channel.deployPercentage).toBe(0);
+  });
+
+  it("fails without touching the item when the version is not cached", async () => {
+    useClient();
+
+    await expect(
+      rollback("--to", "0.9.0", "--zero-deploy", "--yes")
+    ).rejects.toThrow("process.exit(1)");
+    expect(fake.actions).toEqual(["fetchStatus"]);
+  });
+});
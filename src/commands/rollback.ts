@@ -0,0 +1,342 @@
+import { Command } from "commander";
+import { dirname } from "path";
+import { rmSync } from "fs";
+import { ArtifactCache } from "../services/artifact-cache";
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import { createClient } from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import { writePackageWithVersion } from "../services/package-builder";
+import {
+  CachedArtifact,
+  CliOptions,
+  ErrorCode,
+  FetchItemStatusResponse,
+  PublishType,
+  RollbackCommandOptions,
+  UploadState,
+} from "../types";
+import { handleUploadProcessing, uploadPackageWithProgress } from "./upload";
+import { withSpinner } from "../utils/spinner";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import {
+  addPreflightOptions,
+  checkBeforePublish,
+  validateSkipChecks,
+} from "../utils/preflight";
+import { renderTable } from "../utils/table";
+import { formatFileSize, validateDeployPercentage } from "../utils/utils";
+import {
+  bumpVersion,
+  getHighestStoreVersion,
+  validateVersionBump,
+} from "../utils/version";
+
+// Helper function to display the cached packages of an item
+function displayArtifacts(itemId: string, artifacts: CachedArtifact[]): void {
+  if (artifacts.length === 0) {
+    Logger.yellow(`No cached packages for item ${itemId}`);
+    return;
+  }
+
+  Logger.log(
+    renderTable(
+      ["Version", "Uploaded", "Size", "SHA-256", "Source"],
+      [...artifacts]
+        .reverse()
+        .map((artifact) => [
+          artifact.version,
+          new Date(artifact.uploadedAt).toLocaleString(),
+          formatFileSize(artifact.size),
+          artifact.sha256.slice(0, 12),
+          artifact.source,
+        ])
+    )
+  );
+}
+
+// Helper function to pick the cached package to go back to: the requested
+// version, or the newest one below the published version
+function selectArtifact(
+  itemId: string,
+  publishedVersion: string | undefined,
+  to: string | undefined
+): CachedArtifact {
+  if (to) {
+    return ArtifactCache.require(itemId, to);
+  }
+
+  if (!publishedVersion) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Item ${itemId} has no published version; pass --to <version>`
+    );
+  }
+
+  const artifact = ArtifactCache.findPrevious(itemId, publishedVersion);
+  if (!artifact) {
+    throw new CwsError(
+      ErrorCode.NOT_FOUND,
+      `No cached package older than the published version ${publishedVersion} for item ${itemId}`
+    );
+  }
+  return artifact;
+}
+
+// Helper function to read the version currently served to users
+function getPublishedVersion(
+  status: FetchItemStatusResponse
+): string | undefined {
+  return status.publishedItemRevisionStatus?.distributionChannels?.[0]
+    ?.crxVersion;
+}
+
+/**
+ * Uploads a cached package again under a version above the store's, then
+ * publishes it once the pre-publish checks pass. With `zeroDeploy`, the bad
+ * version's deploy percentage is set to 0 before anything else, so no more
+ * users receive it even when the upload or the checks fail.
+ */
+async function runRollback(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  artifact: CachedArtifact,
+  newVersion: string,
+  options: RollbackCommandOptions,
+  globalOptions: CliOptions
+): Promise<Record<string, unknown>> {
+  const deployPercentage = validateDeployPercentage(
+    options.deployPercentage || "100"
+  );
+  const rollbackParams = { rollbackTo: artifact.version };
+
+  if (options.zeroDeploy) {
+    await withSpinner(
+      "Stopping the current version's rollout...",
+      "Deploy percentage set to 0%",
+      "Deploy percentage update failed",
+      () =>
+        HistoryManager.track(
+          globalOptions,
+          client,
+          {
+            action: "deploy",
+            itemId,
+            params: { deployPercentage: 0, ...rollbackParams },
+          },
+          () =>
+            client.setPublishedDeployPercentage(itemId, {
+              deployPercentage: 0,
+            })
+        )
+    );
+  }
+
+  const uploadFile = writePackageWithVersion(artifact.path, newVersion);
+  try {
+    const packageInfo = HistoryManager.describePackage(uploadFile);
+    const uploadState = await HistoryManager.track(
+      globalOptions,
+      client,
+      {
+        action: "upload",
+        itemId,
+        params: { file: artifact.path, ...rollbackParams },
+        ...packageInfo,
+      },
+      async () => {
+        const uploadResponse = await uploadPackageWithProgress(
+          client,
+          itemId,
+          uploadFile,
+          `Uploading ${artifact.version} as ${newVersion}...`
+        );
+        Logger.verbose(
+          "Upload response:",
+          JSON.stringify(uploadResponse, null, 2)
+        );
+        return handleUploadProcessing(
+          client,
+          itemId,
+          uploadResponse,
+          options.maxWaitTime || "300"
+        );
+      },
+      (state) => state
+    );
+    if (uploadState !== UploadState.SUCCEEDED) {
+      throw new CwsError(
+        ErrorCode.UPLOAD_FAILED,
+        `Upload processing failed: ${uploadState ?? "unknown state"}`
+      );
+    }
+    if (!globalOptions.dry) {
+      ArtifactCache.store(itemId, uploadFile, newVersion, artifact.path);
+    }
+
+    // The restored package is older than the published one by design,
+    // whatever its bumped version says
+    const checks = await checkBeforePublish(
+      client,
+      itemId,
+      newVersion,
+      PublishType.DEFAULT_PUBLISH,
+      deployPercentage,
+      {
+        ...options,
+        skipCheck: [...(options.skipCheck || []), "version-newer"],
+        dry: globalOptions.dry,
+      }
+    );
+
+    const publishResponse = await withSpinner(
+      "Publishing item...",
+      "Item published successfully",
+      "Publish failed",
+      () =>
+        HistoryManager.track(
+          globalOptions,
+          client,
+          {
+            action: "publish",
+            itemId,
+            params: {
+              skipReview: options.skipReview,
+              deployPercentage,
+              ...rollbackParams,
+            },
+            ...packageInfo,
+          },
+          () =>
+            client.publishItem(itemId, {
+              skipReview: options.skipReview,
+              publishType: PublishType.DEFAULT_PUBLISH,
+              deployInfos:
+                deployPercentage < 100 ? [{ deployPercentage }] : undefined,
+            }),
+          (response) => response.state
+        )
+    );
+    Logger.verbose("Publish response:", publishResponse);
+
+    return { uploadState, checks, publish: publishResponse };
+  } finally {
+    rmSync(dirname(uploadFile), { recursive: true, force: true });
+  }
+}
+
+export const rollbackCommand = new Command("rollback")
+  .description(
+    "Publish a previously uploaded package again, from the local artifact cache"
+  )
+  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .option(
+    "--to <version>",
+    "Cached version to go back to (default: the newest one below the published version)"
+  )
+  .option("-l, --list", "List the cached packages of the item and exit")
+  .option(
+    "-z, --zero-deploy",
+    "Set the current version's deploy percentage to 0 before rolling back"
+  )
+  .option(
+    "-b, --bump <type>",
+    "How to raise the version above the store version: patch, minor, major",
+    "patch"
+  )
+  .option("-s, --skip-review", "Skip review process if possible")
+  .option(
+    "-d, --deploy-percentage <percentage>",
+    "Deploy percentage of the rolled back version (0-100)",
+    "100"
+  )
+  .option(
+    "-w, --max-wait-time <seconds>",
+    "Maximum time to wait for upload processing (in seconds)",
+    "300"
+  )
+  .action(
+    async (
+      itemId: string,
+      options: RollbackCommandOptions,
+      command: Command
+    ) => {
+      const globalOptions: CliOptions = command.parent?.opts() || {};
+
+      try {
+        Output.begin("rollback");
+        Logger.setVerbose(globalOptions.verbose || false);
+
+        if (options.list) {
+          const artifacts = ArtifactCache.list(itemId);
+          displayArtifacts(itemId, artifacts);
+          Output.success({ itemId, artifacts });
+          return;
+        }
+
+        Logger.blue("⏪ Chrome Web Store Rollback");
+        Logger.gray(`Item ID: ${itemId}`);
+        const bump = validateVersionBump(options.bump || "patch");
+        validateDeployPercentage(options.deployPercentage || "100");
+        validateSkipChecks(options.skipCheck);
+
+        const client = await createClient(globalOptions);
+        const status = await withSpinner(
+          "Checking store version...",
+          "Store version fetched",
+          "Failed to fetch store version",
+          () => client.fetchItemStatus(itemId)
+        );
+
+        const publishedVersion = getPublishedVersion(status);
+        const artifact = selectArtifact(itemId, publishedVersion, options.to);
+        // The store refuses versions that are not above every known revision
+        const newVersion = bumpVersion(
+          getHighestStoreVersion(status) || artifact.version,
+          bump
+        );
+
+        Logger.log(
+          `Rolling back ${publishedVersion ?? "unpublished item"} → ${artifact.version}, uploaded as ${newVersion}`
+        );
+        Logger.gray(`Package: ${artifact.path}`);
+
+        const plan = {
+          itemId,
+          from: publishedVersion,
+          to: artifact.version,
+          version: newVersion,
+          artifact: artifact.path,
+        };
+
+        const result = await runRollback(
+          client,
+          itemId,
+          artifact,
+          newVersion,
+          options,
+          globalOptions
+        );
+
+        Logger.green(
+          `✅ Rolled back to ${artifact.version} (published as ${newVersion})`
+        );
+        Output.success({
+          ...plan,
+          ...result,
+          dryRun: globalOptions.dry || undefined,
+        });
+      } catch (error) {
+        Output.failure(error, { itemId });
+        Logger.red(
+          "❌ Rollback failed:",
+          error instanceof Error ? error.message : error
+        );
+        logErrorHint(error);
+        process.exit(1);
+      }
+    }
+  );
+
+addPreflightOptions(rollbackCommand);
@@ -0,0 +1,155 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createProgram } from "../program";
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import * as clientFactory from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import { RolloutManager } from "../services/rollout";
+import { ErrorCode, FetchItemStatusResponse, ItemState } from "../types";
+import { ConfigManager } from "../utils/config";
+import { Logger } from "../utils/logger";
+import { setSpinnerSilent } from "../utils/spinner";
+import { rolloutCommand, runRollout } from "./rollout";
+
+const ITEM_ID = "abcdefghijklmnopqrstuvwxyzabcdef";
+
+const HEALTHY: FetchItemStatusResponse = {
+  publishedItemRevisionStatus: { state: ItemState.PUBLISHED },
+};
+
+function createClient(status: FetchItemStatusResponse = HEALTHY) {
+  const deployed: number[] = [];
+  const client = {
+    fetchItemStatus: async () => status,
+    setPublishedDeployPercentage: async (
+      _itemId: string,
+      { deployPercentage }: { deployPercentage: number }
+    ) => {
+      deployed.push(deployPercentage);
+    },
+  } as unknown as ChromeWebStoreClient;
+  return { client, deployed };
+}
+
+describe("rollout", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    Logger.setSilent(true);
+    setSpinnerSilent(true);
+  });
+
+  afterAll(() => {
+    Logger.setSilent(false);
+    setSpinnerSilent(false);
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-rollout-"));
+    jest.spyOn(ConfigManager, "getConfigDir").mockReturnValue(dir);
+    jest
+      .spyOn(HistoryManager, "track")
+      .mockImplementation((_opts, _client, _record, operation) => operation());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("runRollout", () => {
+    it("resumes at the step it stopped at", async () => {
+      const state = RolloutManager.create(ITEM_ID, [10, 50, 100], 0);
+      RolloutManager.save({
+        ...state,
+        currentStep: 1,
+        steps: [{ percentage: 10, appliedAt: state.startedAt }],
+      });
+      const { client, deployed } = createClient();
+
+      const finished = await runRollout(client, ITEM_ID, {});
+
+      expect(deployed).toEqual([50, 100]);
+      expect(finished.status).toBe("completed");
+      expect(finished.steps.map((step) => step.percentage)).toEqual([
+        10, 50, 100,
+      ]);
+      expect(RolloutManager.require(ITEM_ID)).toEqual(finished);
+    });
+
+    it("halts before a step when the item is unhealthy", async () => {
+      RolloutManager.create(ITEM_ID, [10, 100], 0);
+      const { client, deployed } = createClient({ ...HEALTHY, warned: true });
+
+      await expect(runRollout(client, ITEM_ID, {})).rejects.toMatchObject({
+        code: ErrorCode.ROLLOUT_HALTED,
+      });
+      expect(deployed).toEqual([]);
+      expect(RolloutManager.require(ITEM_ID)).toMatchObject({
+        status: "failed",
+        currentStep: 0,
+        error: "Item has policy violation warnings",
+      });
+    });
+
+    it("does nothing for a paused rollout", async () => {
+      RolloutManager.create(ITEM_ID, [10, 100], 0);
+      RolloutManager.setStatus(ITEM_ID, "paused");
+      const { client, deployed } = createClient();
+
+      await expect(runRollout(client, ITEM_ID, {})).resolves.toMatchObject({
+        status: "paused",
+      });
+      expect(deployed).toEqual([]);
+    });
+  });
+
+  describe("command", () => {
+    let deployed: number[];
+
+    beforeEach(() => {
+      jest.spyOn(process, "exit").mockImplementation((code) => {
+        throw new Error(`process.exit(${code})`);
+      });
+      const fake = createClient();
+      deployed = fake.deployed;
+      jest.spyOn(clientFactory, "createClient").mockResolvedValue(fake.client);
+    });
+
+    function rollout(...options: string[]): Promise<unknown> {
+      // The command is shared between programs, and keeps the options of
+      // the last parse
+      for (const option of rolloutCommand.options) {
+        rolloutCommand.setOptionValue(
+          option.attributeName(),
+          option.defaultValue
+        );
+      }
+      return createProgram()
+        .exitOverride()
+        .parseAsync(["rollout", ITEM_ID, ...options], { from: "user" });
+    }
+
+    it.each(["failed", "aborted"] as const)(
+      "does not replace a rollout with status %s without --restart",
+      async (status) => {
+        const state = RolloutManager.create(ITEM_ID, [5, 50, 100], 0);
+        RolloutManager.save({ ...state, status, currentStep: 2 });
+
+        await expect(rollout("--schedule", "5,100")).rejects.toThrow(
+          "process.exit(1)"
+        );
+        expect(deployed).toEqual([]);
+        expect(RolloutManager.require(ITEM_ID).status).toBe(status);
+
+        await rollout("--schedule", "100", "--restart");
+        expect(deployed).toEqual([100]);
+        expect(RolloutManager.require(ITEM_ID)).toMatchObject({
+          status: "completed",
+          schedule: [100],
+        });
+      }
+    );
+  });
+});
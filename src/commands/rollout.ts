@@ -0,0 +1,415 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import { createClient } from "../services/client-factory";
+import { HistoryManager } from "../services/history";
+import { RolloutManager } from "../services/rollout";
+import {
+  CliOptions,
+  ErrorCode,
+  RolloutCommandOptions,
+  RolloutState,
+  RolloutStatus,
+} from "../types";
+import { withSpinner } from "../utils/spinner";
+import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import { formatDuration, parseDuration, wait } from "../utils/utils";
+
+// How often a waiting rollout re-reads its state file to notice pause/abort
+const STATE_POLL_INTERVAL_MS = 10_000;
+
+function getStatusColor(status: RolloutStatus): string {
+  switch (status) {
+    case "running":
+      return chalk.blue(status);
+    case "paused":
+      return chalk.yellow(status);
+    case "completed":
+      return chalk.green(status);
+    case "failed":
+      return chalk.red(status);
+    default:
+      return chalk.gray(status);
+  }
+}
+
+// Helper function to display a rollout and its progress through the schedule
+function displayRolloutState(state: RolloutState): void {
+  const schedule = state.schedule
+    .map((percentage, index) => {
+      if (index < state.currentStep) {
+        return chalk.green(`${percentage}%`);
+      }
+      if (index === state.currentStep && !RolloutManager.isFinished(state)) {
+        return chalk.bold(`[${percentage}%]`);
+      }
+      return chalk.gray(`${percentage}%`);
+    })
+    .join(" → ");
+
+  Logger.blue("\n📈 Rollout:");
+  Logger.log(`  Item ID: ${state.itemId}`);
+  Logger.log(`  Status: ${getStatusColor(state.status)}`);
+  Logger.log(`  Schedule: ${schedule}`);
+  Logger.log(`  Interval: ${formatDuration(state.intervalMs)}`);
+  if (state.nextStepAt && !RolloutManager.isFinished(state)) {
+    Logger.log(`  Next step: ${new Date(state.nextStepAt).toLocaleString()}`);
+  }
+  if (state.error) {
+    Logger.red(`  Error: ${state.error}`);
+  }
+}
+
+// Helper function to wait for the next step, waking up regularly so a pause
+// or abort from another process takes effect
+async function waitForNextStep(itemId: string): Promise<RolloutState> {
+  for (;;) {
+    const state = RolloutManager.require(itemId);
+    const remaining = state.nextStepAt
+      ? Date.parse(state.nextStepAt) - Date.now()
+      : 0;
+
+    if (state.status !== "running" || remaining <= 0) {
+      return state;
+    }
+    await wait(Math.min(remaining, STATE_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Applies the remaining steps of a stored rollout. Each step first checks
+ * that the item is still healthy; a failed check halts the rollout.
+ */
+export async function runRollout(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  globalOptions: CliOptions
+): Promise<RolloutState> {
+  let state = RolloutManager.require(itemId);
+
+  while (
+    state.status === "running" &&
+    state.currentStep < state.schedule.length
+  ) {
+    const percentage = state.schedule[state.currentStep];
+
+    if (state.nextStepAt && Date.parse(state.nextStepAt) > Date.now()) {
+      Logger.gray(
+        `⏳ Next step (${percentage}%) at ${new Date(state.nextStepAt).toLocaleString()} (in ${formatDuration(Date.parse(state.nextStepAt) - Date.now())})`
+      );
+      state = await waitForNextStep(itemId);
+      continue;
+    }
+
+    const status = await withSpinner(
+      "Checking item health...",
+      "Item status fetched",
+      "Health check failed",
+      () => client.fetchItemStatus(itemId)
+    );
+
+    // Pick up a pause or abort issued while the check was running
+    state = RolloutManager.require(itemId);
+    if (state.status !== "running") {
+      break;
+    }
+
+    const problem = RolloutManager.checkHealth(status);
+    if (problem) {
+      state.status = "failed";
+      state.error = problem;
+      RolloutManager.save(state);
+      throw new CwsError(
+        ErrorCode.ROLLOUT_HALTED,
+        `Rollout halted before ${percentage}%: ${problem}`
+      );
+    }
+
+    await withSpinner(
+      `Deploying to ${percentage}% of users...`,
+      `Deployed to ${percentage}% of users`,
+      "Deploy percentage update failed",
+      () =>
+        HistoryManager.track(
+          globalOptions,
+          client,
+          {
+            action: "rollout",
+            itemId,
+            params: {
+              deployPercentage: percentage,
+              step: state.currentStep + 1,
+              schedule: state.schedule,
+            },
+          },
+          () =>
+            client.setPublishedDeployPercentage(itemId, {
+              deployPercentage: percentage,
+            })
+        )
+    );
+
+    state = RolloutManager.require(itemId);
+    state.steps.push({ percentage, appliedAt: new Date().toISOString() });
+    state.currentStep += 1;
+
+    if (state.currentStep < state.schedule.length) {
+      state.nextStepAt = new Date(Date.now() + state.intervalMs).toISOString();
+    } else {
+      state.nextStepAt = undefined;
+      state.status = "completed";
+    }
+    RolloutManager.save(state);
+  }
+
+  return state;
+}
+
+/**
+ * Applies every step of a schedule at once against the dry-run store,
+ * without waiting between steps or saving rollout state
+ */
+export async function simulateRollout(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  schedule: number[],
+  intervalMs: number
+): Promise<void> {
+  for (const [index, percentage] of schedule.entries()) {
+    if (index > 0) {
+      Logger.gray(`⏳ A real rollout waits ${formatDuration(intervalMs)} here`);
+    }
+
+    const status = await withSpinner(
+      "Checking item health...",
+      "Item status fetched",
+      "Health check failed",
+      () => client.fetchItemStatus(itemId)
+    );
+    const problem = RolloutManager.checkHealth(status);
+    if (problem) {
+      throw new CwsError(
+        ErrorCode.ROLLOUT_HALTED,
+        `Rollout halted before ${percentage}%: ${problem}`
+      );
+    }
+
+    await withSpinner(
+      `Deploying to ${percentage}% of users...`,
+      `Deployed to ${percentage}% of users`,
+      "Deploy percentage update failed",
+      () =>
+        client.setPublishedDeployPercentage(itemId, {
+          deployPercentage: percentage,
+        })
+    );
+  }
+  Logger.green("\n✅ Rollout simulated");
+}
+
+// Helper function to report how a rollout run ended
+function reportRolloutEnd(state: RolloutState): void {
+  displayRolloutState(state);
+
+  if (state.status === "completed") {
+    Logger.green("\n✅ Rollout completed!");
+  } else if (state.status === "paused") {
+    Logger.yellow(
+      `\n⏸️  Rollout paused. Run \`cws-manager rollout resume ${state.itemId}\` to continue.`
+    );
+  } else if (state.status === "aborted") {
+    Logger.yellow("\n🛑 Rollout aborted");
+  }
+  Output.success({ itemId: state.itemId, rollout: state });
+}
+
+// Helper function to run a rollout action with the shared output and error handling
+async function runRolloutAction(
+  name: string,
+  itemId: string,
+  globalOptions: CliOptions,
+  action: () => Promise<void>
+): Promise<void> {
+  try {
+    Output.begin(name);
+    Logger.setVerbose(globalOptions.verbose || false);
+    await action();
+  } catch (error) {
+    Output.failure(error, { itemId });
+    Logger.red(
+      "❌ Rollout failed:",
+      error instanceof Error ? error.message : error
+    );
+    logErrorHint(error);
+    process.exit(1);
+  }
+}
+
+const statusSubcommand = new Command("status")
+  .description("Show the progress of a rollout")
+  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .action(async (itemId: string, _options: unknown, command: Command) => {
+    await runRolloutAction(
+      "rollout status",
+      itemId,
+      command.optsWithGlobals(),
+      async () => {
+        const state = RolloutManager.require(itemId);
+        displayRolloutState(state);
+        Output.success({ itemId, rollout: state });
+      }
+    );
+  });
+
+const pauseSubcommand = new Command("pause")
+  .description("Pause a rollout before its next step")
+  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .action(async (itemId: string, _options: unknown, command: Command) => {
+    await runRolloutAction(
+      "rollout pause",
+      itemId,
+      command.optsWithGlobals(),
+      async () => {
+        const state = RolloutManager.setStatus(itemId, "paused");
+        Logger.yellow(
+          "⏸️  Rollout paused. A running rollout stops before its next step."
+        );
+        Output.success({ itemId, rollout: state });
+      }
+    );
+  });
+
+const resumeSubcommand = new Command("resume")
+  .description("Resume a paused or halted rollout in this process")
+  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .action(async (itemId: string, _options: unknown, command: Command) => {
+    const globalOptions: CliOptions = command.optsWithGlobals();
+    await runRolloutAction(
+      "rollout resume",
+      itemId,
+      globalOptions,
+      async () => {
+        const client = await createClient(globalOptions);
+        RolloutManager.setStatus(itemId, "running");
+        Logger.blue("▶️  Resuming rollout");
+        reportRolloutEnd(await runRollout(client, itemId, globalOptions));
+      }
+    );
+  });
+
+const abortSubcommand = new Command("abort")
+  .description("Stop a rollout, leaving the current deploy percentage in place")
+  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .action(async (itemId: string, _options: unknown, command: Command) => {
+    await runRolloutAction(
+      "rollout abort",
+      itemId,
+      command.optsWithGlobals(),
+      async () => {
+        const state = RolloutManager.setStatus(itemId, "aborted");
+        Logger.yellow("🛑 Rollout aborted");
+        Output.success({ itemId, rollout: state });
+      }
+    );
+  });
+
+export const rolloutCommand = new Command("rollout")
+  .description(
+    "Raise the deploy percentage of a published item step by step, checking its health before each step"
+  )
+  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .option(
+    "-s, --schedule <percentages>",
+    "comma-separated deploy percentages",
+    RolloutManager.DEFAULT_SCHEDULE.join(",")
+  )
+  .option(
+    "-i, --interval <duration>",
+    "time between steps, e.g. 30m, 24h or 2d",
+    "24h"
+  )
+  .option(
+    "--restart",
+    "start a new schedule, replacing a halted or aborted rollout"
+  )
+  .action(
+    async (
+      itemId: string,
+      options: RolloutCommandOptions,
+      command: Command
+    ) => {
+      const globalOptions: CliOptions = command.parent?.opts() || {};
+
+      await runRolloutAction("rollout", itemId, globalOptions, async () => {
+        Logger.blue("📈 Chrome Web Store Rollout");
+        Logger.gray(`Item ID: ${itemId}`);
+
+        const schedule = RolloutManager.parseSchedule(options.schedule!);
+        const intervalMs = parseDuration(options.interval!);
+
+        if (globalOptions.dry) {
+          Logger.log(
+            `Plan: ${schedule.map((percentage) => `${percentage}%`).join(" → ")}, every ${formatDuration(intervalMs)}`
+          );
+          const client = await createClient(globalOptions);
+          await simulateRollout(client, itemId, schedule, intervalMs);
+          Output.success({ itemId, schedule, intervalMs, dryRun: true });
+          return;
+        }
+
+        const existing = RolloutManager.load(itemId);
+        if (existing && !RolloutManager.isFinished(existing)) {
+          if (existing.status === "paused") {
+            throw new CwsError(
+              ErrorCode.INVALID_ARGUMENT,
+              `The rollout for item ${itemId} is paused; run \`cws-manager rollout resume ${itemId}\``
+            );
+          }
+
+          const scheduleGiven =
+            command.getOptionValueSource("schedule") === "cli" ||
+            command.getOptionValueSource("interval") === "cli";
+          if (
+            scheduleGiven &&
+            (existing.schedule.join(",") !== schedule.join(",") ||
+              existing.intervalMs !== intervalMs)
+          ) {
+            throw new CwsError(
+              ErrorCode.INVALID_ARGUMENT,
+              `A rollout with a different schedule is in progress for item ${itemId}; abort it first`
+            );
+          }
+
+          Logger.yellow(
+            `↻ Resuming rollout at step ${existing.currentStep + 1} of ${existing.schedule.length}`
+          );
+        } else {
+          // A new schedule starts low again, which would lower the deploy
+          // percentage a halted rollout left in place
+          if (
+            (existing?.status === "failed" || existing?.status === "aborted") &&
+            !options.restart
+          ) {
+            const ended =
+              existing.status === "failed"
+                ? `halted (${existing.error ?? "failed"}); run \`cws-manager rollout resume ${itemId}\` to continue it, or`
+                : "was aborted;";
+            throw new CwsError(
+              ErrorCode.INVALID_ARGUMENT,
+              `The last rollout of item ${itemId} ${ended} pass --restart to start over from the first step`
+            );
+          }
+          RolloutManager.create(itemId, schedule, intervalMs);
+        }
+
+        const client = await createClient(globalOptions);
+        reportRolloutEnd(await runRollout(client, itemId, globalOptions));
+      });
+    }
+  )
+  .addCommand(statusSubcommand)
+  .addCommand(pauseSubcommand)
+  .addCommand(resumeSubcommand)
+  .addCommand(abortSubcommand);
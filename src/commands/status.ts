@@ -1,22 +1,68 @@
 import { Command } from "commander";
 import chalk from "chalk";
-import { ConfigManager } from "../utils/config";
 import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import {
+  createClientProvider,
+  createTransport,
+} from "../services/client-factory";
 import {
   CommandOptions,
-  ItemState,
-  UploadState,
+  ErrorCode,
   StatusCommandOptions,
   FetchItemStatusResponse,
   DistributionChannel,
+  FetchFunction,
+  ItemStatusRow,
+  StatusChange,
+  StatusChangeEvent,
+  StatusFilter,
+  StatusSort,
+  WebhookTarget,
 } from "../types";
 import { withSpinnerCustom } from "../utils/spinner";
 import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint, toErrorInfo } from "../utils/errors";
+import { ProjectManager } from "../utils/project";
+import {
+  detectStatusChanges,
+  formatCompactStatusChange,
+} from "../utils/status-changes";
+import { Dashboard } from "../utils/dashboard";
+import { renderTable } from "../utils/table";
+import {
+  filterStatusRows,
+  getStateColor,
+  getUploadStateColor,
+  parseStatusFilter,
+  parseStatusSort,
+  renderStatusTable,
+  sortStatusRows,
+} from "../utils/status-table";
+import { formatDuration } from "../utils/utils";
+import {
+  DEFAULT_WEBHOOK_TEMPLATE,
+  normalizeWebhookTargets,
+  notifyWebhooks,
+  parseWebhookTarget,
+} from "../services/webhooks";
+import {
+  displayReviewOutcome,
+  parseItemState,
+  summarizeReviewOutcome,
+  waitForReview,
+} from "../utils/review";
+import {
+  addBatchOptions,
+  isBatchMode,
+  mapWithConcurrency,
+  parseConcurrency,
+  readItemIdsFile,
+  requireItemId,
+} from "../utils/batch";
 
 // Helper function to display status response
-function displayStatusResponse(
-  response: FetchItemStatusResponse
-): void {
+function displayStatusResponse(response: FetchItemStatusResponse): void {
   // Display status information
   Logger.blue("📋 Status Information:");
 
@@ -31,7 +77,7 @@ function displayStatusResponse(
   // Published status
   if (response.publishedItemRevisionStatus) {
     Logger.green("\n📦 Published Version:");
-    console.log(
+    Logger.log(
       `  State: ${getStateColor(response.publishedItemRevisionStatus.state)}`
     );
 
@@ -45,7 +91,7 @@ function displayStatusResponse(
   // Submitted status
   if (response.submittedItemRevisionStatus) {
     Logger.yellow("\n🔄 Submitted Version:");
-    console.log(
+    Logger.log(
       `  State: ${getStateColor(response.submittedItemRevisionStatus.state)}`
     );
 
@@ -59,7 +105,7 @@ function displayStatusResponse(
   // Upload status
   if (response.lastAsyncUploadState) {
     Logger.blue("\n📤 Last Upload:");
-    console.log(
+    Logger.log(
       `  State: ${getUploadStateColor(response.lastAsyncUploadState)}`
     );
   }
@@ -114,115 +160,656 @@ function createFetchStatusFunction(
   };
 }
 
-// Helper function to setup watch mode
+function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+// Helper function to gather webhooks from the project file and --webhook options
+function getWebhookTargets(
+  opts: CommandOptions & StatusCommandOptions
+): WebhookTarget[] {
+  const project = ProjectManager.loadProjectIfExists(opts.project);
+  return [
+    ...normalizeWebhookTargets(project?.webhooks ?? []),
+    ...(opts.webhook ?? []).map(parseWebhookTarget),
+  ];
+}
+
+// What happened during a watch session, for the dashboard and the summary
+interface WatchSession {
+  rows: ItemStatusRow[];
+  initial: ItemStatusRow[];
+  startedAt: Date;
+  polls: number;
+  failedPolls: number;
+  changes: { at: Date; itemId: string; change: StatusChange }[];
+  lastPollAt: Date;
+}
+
+interface WatchOptions {
+  interval?: string;
+  dashboard?: boolean;
+  multiItem: boolean;
+  concurrency: number;
+  filters: StatusFilter[];
+  sort?: StatusSort;
+  webhooks: WebhookTarget[];
+  webhookTemplate?: string;
+  // Sends the webhook requests, through the proxy if one is set
+  transport: FetchFunction;
+}
+
+const DASHBOARD_RECENT_CHANGES = 10;
+
+function formatClock(date: Date): string {
+  return date.toLocaleTimeString();
+}
+
+function getRowLabel(row: ItemStatusRow): string {
+  return row.name ?? row.status?.name ?? row.itemId;
+}
+
+// Helper function to fetch the status of several items concurrently. A
+// failed fetch is recorded in its row instead of failing the others.
+function fetchStatusRows(
+  client: ChromeWebStoreClient,
+  targets: ItemStatusRow[],
+  concurrency: number
+): Promise<ItemStatusRow[]> {
+  return mapWithConcurrency(targets, concurrency, async ({ itemId, name }) => {
+    try {
+      return { itemId, name, status: await client.fetchItemStatus(itemId) };
+    } catch (error) {
+      return { itemId, name, error: toErrorInfo(error) };
+    }
+  });
+}
+
+// Helper function to apply --filter and --sort to table rows
+function selectStatusRows(
+  rows: ItemStatusRow[],
+  filters: StatusFilter[],
+  sort?: StatusSort
+): ItemStatusRow[] {
+  const filtered = filterStatusRows(rows, filters);
+  return sort ? sortStatusRows(filtered, sort) : filtered;
+}
+
+// Helper function to describe table rows in JSON output
+function toJsonItems(rows: ItemStatusRow[]): Record<string, unknown>[] {
+  return rows.map((row) => ({
+    name: row.name,
+    itemId: row.itemId,
+    success: !row.error,
+    status: row.status,
+    error: row.error,
+  }));
+}
+
+// Helper function to describe the fields of one item as a table
+function renderStatusFields(status: FetchItemStatusResponse): string {
+  const channel = status.publishedItemRevisionStatus?.distributionChannels?.[0];
+
+  return renderTable(
+    ["Field", "Value"],
+    [
+      ["Submitted", getStateColor(status.submittedItemRevisionStatus?.state)],
+      ["Published", getStateColor(status.publishedItemRevisionStatus?.state)],
+      ["Version", channel?.crxVersion ?? "-"],
+      [
+        "Deploy %",
+        channel?.deployPercentage !== undefined
+          ? `${channel.deployPercentage}%`
+          : "-",
+      ],
+      ["Upload", getUploadStateColor(status.lastAsyncUploadState)],
+      ["Warned", status.warned ? chalk.yellow("yes") : "no"],
+      ["Taken down", status.takenDown ? chalk.red("yes") : "no"],
+    ]
+  );
+}
+
+// Helper function to describe one change; with several items, the line
+// starts with the item it belongs to
+function formatChangeLine(
+  session: WatchSession,
+  opts: WatchOptions,
+  itemId: string,
+  change: StatusChange
+): string {
+  const row = session.rows.find((candidate) => candidate.itemId === itemId);
+  const label = opts.multiItem && row ? `${chalk.bold(getRowLabel(row))} ` : "";
+  return `${label}${formatCompactStatusChange(change)}`;
+}
+
+// Helper function to describe the watched items as dashboard lines
+function renderWatchDashboard(
+  session: WatchSession,
+  opts: WatchOptions,
+  intervalMs: number
+): string[] {
+  const nextPollAt = new Date(session.lastPollAt.getTime() + intervalMs);
+  const [first] = session.rows;
+
+  const lines = [
+    opts.multiItem
+      ? chalk.bold(`📊 ${session.rows.length} items`)
+      : chalk.bold(`📊 ${getRowLabel(first)}`) +
+        chalk.gray(`  ${first.itemId}`),
+    chalk.gray(
+      `Last check ${formatClock(session.lastPollAt)} · next ${formatClock(nextPollAt)} · ${session.polls} poll(s) · Ctrl+C to stop`
+    ),
+    "",
+  ];
+
+  if (opts.multiItem) {
+    const rows = selectStatusRows(session.rows, opts.filters, opts.sort);
+    lines.push(...renderStatusTable(rows).split("\n"));
+  } else {
+    if (first.error) {
+      lines.push(chalk.red(`Last check failed: ${first.error.message}`), "");
+    }
+    if (first.status) {
+      lines.push(...renderStatusFields(first.status).split("\n"));
+    }
+  }
+
+  lines.push("", chalk.blue("Recent changes:"));
+  if (session.changes.length === 0) {
+    lines.push(chalk.gray("  none yet"));
+  }
+  session.changes
+    .slice(-DASHBOARD_RECENT_CHANGES)
+    .forEach(({ at, itemId, change }) =>
+      lines.push(
+        `  ${chalk.gray(`[${formatClock(at)}]`)} ${formatChangeLine(session, opts, itemId, change)}`
+      )
+    );
+
+  return lines;
+}
+
+// Helper function to print what a watch session saw once it is stopped
+function reportWatchSession(session: WatchSession, opts: WatchOptions): void {
+  const duration = Date.now() - session.startedAt.getTime();
+
+  Logger.blue(`\n⏹️  Stopped watching after ${formatDuration(duration)}`);
+  Logger.log(
+    `  Polls: ${session.polls}${session.failedPolls > 0 ? chalk.red(` (${session.failedPolls} failed)`) : ""}`
+  );
+  Logger.log(`  Changes: ${session.changes.length}`);
+
+  // Net changes between the first and the last snapshot of each item
+  session.rows.forEach((row) => {
+    const initial = session.initial.find(
+      (candidate) => candidate.itemId === row.itemId
+    )?.status;
+    if (initial && row.status) {
+      detectStatusChanges(initial, row.status).forEach((change) =>
+        Logger.log(`    ${formatChangeLine(session, opts, row.itemId, change)}`)
+      );
+    }
+  });
+
+  const summary = {
+    durationMs: duration,
+    polls: session.polls,
+    failedPolls: session.failedPolls,
+    changes: session.changes.map(({ at, itemId, change }) => ({
+      itemId,
+      ...change,
+      at: at.toISOString(),
+    })),
+  };
+  Output.write(
+    opts.multiItem
+      ? { success: true, items: toJsonItems(session.rows), session: summary }
+      : {
+          success: true,
+          itemId: session.rows[0].itemId,
+          status: session.rows[0].status,
+          session: summary,
+        }
+  );
+}
+
+// Helper function to setup watch mode. Each poll is compared with the
+// previous one; only the changes are printed, and they are reported to the
+// webhooks. With a dashboard, the screen is redrawn after every poll instead.
 function setupWatchMode(
-  fetchStatus: () => Promise<FetchItemStatusResponse>,
-  opts: { interval?: string }
+  client: ChromeWebStoreClient,
+  rows: ItemStatusRow[],
+  opts: WatchOptions
 ): void {
   const interval = parseInt(opts.interval || "30", 10);
 
   if (isNaN(interval) || interval < 5) {
-    throw new Error("Interval must be at least 5 seconds");
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Interval must be at least 5 seconds"
+    );
   }
 
   Logger.blue(
     `\n👁️  Watching for changes (polling every ${interval} seconds)...`
   );
+  if (opts.webhooks.length > 0) {
+    Logger.gray(
+      `Notifying ${opts.webhooks.length} webhook(s) of status changes`
+    );
+  }
   Logger.verbose("Press Ctrl+C to stop watching\n");
 
-  setInterval(async () => {
-    try {
-      Logger.verbose(`[${new Date().toLocaleTimeString()}] Checking status...`);
-      await fetchStatus();
-      console.log("");
-    } catch (error) {
-      Logger.red(
-        "Status check failed:",
-        error instanceof Error ? error.message : error
+  const intervalMs = interval * 1000;
+  const session: WatchSession = {
+    rows: rows.map((row) => ({ ...row })),
+    initial: rows,
+    startedAt: new Date(),
+    polls: 0,
+    failedPolls: 0,
+    changes: [],
+    lastPollAt: new Date(),
+  };
+  const dashboard = opts.dashboard ? new Dashboard() : undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = async () => {
+    const polledAt = new Date();
+    const stamp = chalk.gray(`[${formatClock(polledAt)}]`);
+    session.polls += 1;
+    session.lastPollAt = polledAt;
+
+    const results = await fetchStatusRows(
+      client,
+      session.rows,
+      opts.concurrency
+    );
+    const events: StatusChangeEvent[] = [];
+
+    results.forEach((result, index) => {
+      const row = session.rows[index];
+      const label = opts.multiItem ? `${chalk.bold(getRowLabel(row))} ` : "";
+
+      if (!result.status) {
+        row.error = result.error;
+        Logger.red(`${stamp} ${label}Status check failed:`, row.error?.message);
+        if (row.error?.hint) {
+          Logger.yellow(`💡 ${row.error.hint}`);
+        }
+        return;
+      }
+
+      // An item without a previous snapshot has nothing to compare with
+      const changes = row.status
+        ? detectStatusChanges(row.status, result.status)
+        : [];
+      row.status = result.status;
+      row.error = undefined;
+
+      if (changes.length === 0) {
+        Logger.verbose(`${stamp} ${label}No changes`);
+        return;
+      }
+      changes.forEach((change) => {
+        session.changes.push({ at: polledAt, itemId: row.itemId, change });
+        Logger.log(`${stamp} ${label}${formatCompactStatusChange(change)}`);
+      });
+      events.push({
+        itemId: row.itemId,
+        name: result.status.name,
+        changes,
+        status: result.status,
+        timestamp: polledAt.toISOString(),
+      });
+    });
+
+    const failed = session.rows.some((row) => row.error);
+    if (failed) {
+      session.failedPolls += 1;
+    }
+
+    if (opts.multiItem) {
+      Output.write({
+        success: !failed,
+        items: toJsonItems(session.rows).map((item, index) => ({
+          ...item,
+          changes: events.find(
+            (event) => event.itemId === session.rows[index].itemId
+          )?.changes,
+        })),
+      });
+    } else {
+      const [row] = session.rows;
+      Output.write(
+        row.error
+          ? { success: false, itemId: row.itemId, error: row.error }
+          : {
+              success: true,
+              itemId: row.itemId,
+              status: row.status,
+              changes: events[0]?.changes ?? [],
+            }
       );
     }
-  }, interval * 1000);
+
+    await Promise.all(
+      events.map((event) =>
+        notifyWebhooks(
+          opts.webhooks,
+          event,
+          opts.webhookTemplate,
+          opts.transport
+        )
+      )
+    );
+
+    dashboard?.render(renderWatchDashboard(session, opts, intervalMs));
+    timer = setTimeout(poll, intervalMs);
+  };
+
+  process.once("SIGINT", () => {
+    clearTimeout(timer);
+    dashboard?.stop();
+    reportWatchSession(session, opts);
+    process.exit(0);
+  });
+
+  if (dashboard) {
+    dashboard.start();
+    dashboard.render(renderWatchDashboard(session, opts, intervalMs));
+  }
+  timer = setTimeout(poll, intervalMs);
 }
 
-function getStateColor(state?: ItemState): string {
-  if (!state) return "Unknown";
+// Helper function to list the items to show: project items selected with
+// --all/--item, or item IDs from the arguments and --items-file
+function getStatusTargets(
+  itemIds: string[],
+  opts: CommandOptions & StatusCommandOptions
+): { targets: ItemStatusRow[]; concurrency: number } {
+  if (isBatchMode(opts)) {
+    if (itemIds.length > 0 || opts.itemsFile) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        "Item IDs cannot be combined with --all or --item"
+      );
+    }
 
-  switch (state) {
-    case ItemState.PUBLISHED:
-      return chalk.green(state);
-    case ItemState.PUBLISHED_TO_TESTERS:
-      return chalk.blue(state);
-    case ItemState.PENDING_REVIEW:
-      return chalk.yellow(state);
-    case ItemState.STAGED:
-      return chalk.cyan(state);
-    case ItemState.REJECTED:
-      return chalk.red(state);
-    case ItemState.CANCELLED:
-      return chalk.gray(state);
-    default:
-      return chalk.gray(state);
+    const project = ProjectManager.loadProject(opts.project);
+    return {
+      targets: ProjectManager.selectItems(
+        project,
+        opts.all ? undefined : opts.item
+      ).map(({ name, itemId }) => ({ name, itemId })),
+      concurrency: parseConcurrency(opts.concurrency, project.concurrency),
+    };
   }
+
+  const fromFile = opts.itemsFile ? readItemIdsFile(opts.itemsFile) : [];
+  const uniqueIds = [...new Set([...itemIds, ...fromFile])];
+  if (uniqueIds.length === 0) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `No item IDs found in ${opts.itemsFile}`
+    );
+  }
+
+  return {
+    targets: uniqueIds.map((itemId) => ({ itemId })),
+    concurrency: parseConcurrency(
+      opts.concurrency,
+      ProjectManager.loadProjectIfExists(opts.project)?.concurrency
+    ),
+  };
 }
 
-function getUploadStateColor(state?: UploadState): string {
-  if (!state) return "Unknown";
+// Helper function to show several items as one table, optionally watching
+// them afterwards
+async function showStatusTable(
+  getClient: () => Promise<ChromeWebStoreClient>,
+  itemIds: string[],
+  opts: CommandOptions & StatusCommandOptions
+): Promise<void> {
+  const filters = (opts.filter ?? []).map(parseStatusFilter);
+  const sort = opts.sort ? parseStatusSort(opts.sort) : undefined;
+  const { targets, concurrency } = getStatusTargets(itemIds, opts);
+
+  const client = await getClient();
+  const rows = await withSpinnerCustom(
+    `Fetching status of ${targets.length} item(s)...`,
+    async (spinner) => {
+      const fetched = await fetchStatusRows(client, targets, concurrency);
+      const failed = fetched.filter((row) => row.error).length;
+      if (failed > 0) {
+        spinner.warn(
+          `Fetched status of ${fetched.length - failed} of ${fetched.length} item(s)`
+        );
+      } else {
+        spinner.succeed(`Fetched status of ${fetched.length} item(s)`);
+      }
+      return fetched;
+    }
+  );
+
+  const shown = selectStatusRows(rows, filters, sort);
+  Logger.log("");
+  Logger.log(renderStatusTable(shown));
+  if (filters.length > 0) {
+    Logger.gray(
+      `\n${shown.length} of ${rows.length} item(s) match the filters`
+    );
+  }
+
+  const failed = rows.filter((row) => row.error).length;
+  Output.write({
+    success: failed === 0,
+    items: toJsonItems(shown),
+    error:
+      failed > 0
+        ? {
+            code: ErrorCode.BATCH_FAILED,
+            message: `Failed to fetch the status of ${failed} of ${rows.length} item(s)`,
+          }
+        : undefined,
+  });
 
-  switch (state) {
-    case UploadState.SUCCEEDED:
-      return chalk.green(state);
-    case UploadState.IN_PROGRESS:
-      return chalk.yellow(state);
-    case UploadState.FAILED:
-      return chalk.red(state);
-    default:
-      return chalk.gray(state);
+  if (opts.watch) {
+    setupWatchMode(client, rows, {
+      interval: opts.interval,
+      dashboard: opts.dashboard,
+      multiItem: true,
+      concurrency,
+      filters,
+      sort,
+      webhooks: getWebhookTargets(opts),
+      webhookTemplate: opts.webhookTemplate,
+      transport: createTransport(opts),
+    });
+    return;
+  }
+
+  if (failed > 0) {
+    Logger.red(
+      `\nFailed to fetch the status of ${failed} of ${rows.length} item(s)`
+    );
+    process.exit(1);
   }
 }
 
 export const statusCommand = new Command("status")
-  .description("Get the status of an item in the Chrome Web Store")
-  .argument("<item-id>", "Chrome Web Store item (extension) ID")
+  .description(
+    "Get the status of one item, or a table of several items, in the Chrome Web Store"
+  )
+  .argument("[item-ids...]", "Chrome Web Store item (extension) IDs")
+  .option("--items-file <path>", "Read item IDs from a file, one per line")
+  .option(
+    "--sort <column>",
+    "With several items, sort the table by name, id, version, deploy, state, upload, warned or takenDown; append :desc to reverse"
+  )
+  .option(
+    "--filter <column=value>",
+    "With several items, only show rows where a column matches, e.g. state=REJECTED or warned!=yes (repeatable)",
+    collectValues
+  )
   .option("-w, --watch", "Watch for status changes (polls every 30 seconds)")
+  .option(
+    "--dashboard",
+    "With --watch, show a full-screen view that is redrawn after every poll"
+  )
   .option(
     "-i, --interval <seconds>",
-    "Poll interval in seconds when watching",
+    "Poll interval in seconds when watching or waiting",
     "30"
   )
+  .option(
+    "--wait-for <state>",
+    "Wait until the submission reaches this state or the review ends, exiting with a code per outcome"
+  )
+  .option(
+    "-t, --timeout <duration>",
+    "Maximum time to wait with --wait-for, e.g. 30m or 24h",
+    "24h"
+  )
+  .option(
+    "--webhook <[format=]url>",
+    "With --watch, POST status changes to this URL; format is json (default), slack or teams (repeatable)",
+    collectValues
+  )
+  .option(
+    "--webhook-template <template>",
+    "Webhook message with {itemId}, {name}, {changes} and {timestamp} placeholders",
+    DEFAULT_WEBHOOK_TEMPLATE
+  )
   .action(
-    async (itemId: string, options: StatusCommandOptions, command: Command) => {
+    async (
+      itemIds: string[],
+      options: StatusCommandOptions,
+      command: Command
+    ) => {
       const globalOptions = command.parent?.opts() || {};
-      const opts: CommandOptions & { watch?: boolean; interval?: string } = {
+      const itemId = itemIds[0];
+      const opts: CommandOptions & StatusCommandOptions = {
         ...globalOptions,
-        itemId,
+        itemId: itemId || "",
         ...options,
       };
 
       try {
+        Output.begin("status");
         Logger.setVerbose(opts.verbose || false);
         Logger.blue("📊 Chrome Web Store Status");
-        Logger.gray(`Item ID: ${itemId}\n`);
+        const getClient = createClientProvider(opts);
+
+        if (opts.watch && opts.waitFor) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "--watch cannot be combined with --wait-for"
+          );
+        }
+
+        if (opts.dashboard) {
+          if (!opts.watch) {
+            throw new CwsError(
+              ErrorCode.INVALID_ARGUMENT,
+              "--dashboard requires --watch"
+            );
+          }
+          if (!Dashboard.isSupported()) {
+            throw new CwsError(
+              ErrorCode.INVALID_ARGUMENT,
+              "--dashboard needs an interactive terminal and cannot be combined with --json"
+            );
+          }
+        }
+
+        if (opts.webhook && !opts.watch) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "--webhook requires --watch"
+          );
+        }
+
+        // Several items are shown as one table
+        if (isBatchMode(options) || opts.itemsFile || itemIds.length > 1) {
+          if (opts.waitFor) {
+            throw new CwsError(
+              ErrorCode.INVALID_ARGUMENT,
+              "--wait-for cannot be combined with several items"
+            );
+          }
+          await showStatusTable(getClient, itemIds, opts);
+          return;
+        }
+
+        if (opts.sort || opts.filter) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "--sort and --filter apply to several items"
+          );
+        }
+
+        const singleItemId = requireItemId(itemId);
+        Logger.gray(`Item ID: ${singleItemId}\n`);
 
         // Load configuration
-        const config = await ConfigManager.loadConfig(opts.config);
-        const client = new ChromeWebStoreClient(config);
+        const client = await getClient();
+
+        // Wait mode: block until the review ends, exiting with its outcome
+        if (opts.waitFor) {
+          const outcome = await waitForReview(
+            client,
+            singleItemId,
+            parseItemState(opts.waitFor),
+            opts.timeout,
+            opts.interval
+          );
+          if (outcome.status) {
+            displayStatusResponse(outcome.status);
+          }
+          Logger.log("");
+          displayReviewOutcome(outcome);
+          Output.success({
+            itemId: singleItemId,
+            status: outcome.status,
+            review: summarizeReviewOutcome(outcome),
+          });
+          process.exit(outcome.exitCode);
+        }
 
         // Create fetch status function
-        const fetchStatus = createFetchStatusFunction(client, itemId, opts);
+        const fetchStatus = createFetchStatusFunction(
+          client,
+          singleItemId,
+          opts
+        );
 
         // Initial fetch
-        await fetchStatus();
+        const response = await fetchStatus();
+        Output.success({ itemId: singleItemId, status: response });
 
         // Watch mode
         if (opts.watch) {
-          setupWatchMode(fetchStatus, opts);
+          setupWatchMode(client, [{ itemId: singleItemId, status: response }], {
+            interval: opts.interval,
+            dashboard: opts.dashboard,
+            multiItem: false,
+            concurrency: 1,
+            filters: [],
+            webhooks: getWebhookTargets(opts),
+            webhookTemplate: opts.webhookTemplate,
+            transport: createTransport(opts),
+          });
         }
       } catch (error) {
+        Output.failure(error, { itemId });
         Logger.red(
           "❌ Status check failed:",
           error instanceof Error ? error.message : error
         );
+        logErrorHint(error);
         process.exit(1);
       }
     }
   );
+
+addBatchOptions(statusCommand);
@@ -1,50 +1,233 @@
 import { Command } from "commander";
-import { existsSync, statSync } from "fs";
-import { extname } from "path";
-import { ConfigManager } from "../utils/config";
+import { existsSync, statSync, rmSync } from "fs";
+import { dirname, extname } from "path";
 import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
 import {
+  ClientProvider,
+  createClientProvider,
+} from "../services/client-factory";
+import {
+  CommandResult,
+  ErrorCode,
+  HistoryEntry,
+  PublishItemResponse,
   UploadOptions,
   PublishType,
   UploadState,
   UploadCommandOptions,
+  UploadItemPackageResponse,
+  UploadProgress,
+  PackageInspectionReport,
+  PreflightCheckResult,
 } from "../types";
+import {
+  inspectPackage,
+  hasInspectionErrors,
+} from "../services/package-inspector";
+import {
+  packDirectoryToTemp,
+  writePackageWithVersion,
+} from "../services/package-builder";
+import { HistoryManager } from "../services/history";
+import { ArtifactCache } from "../services/artifact-cache";
+import { displayPackResult } from "./pack";
 import { formatFileSize, validateDeployPercentage } from "../utils/utils";
+import {
+  bumpVersion,
+  compareVersions,
+  getHighestStoreVersion,
+  maxVersion,
+  validateVersionBump,
+} from "../utils/version";
 import { withSpinner, withSpinnerCustom } from "../utils/spinner";
+import {
+  addPreflightOptions,
+  checkBeforePublish,
+  validateSkipChecks,
+} from "../utils/preflight";
 import { Logger } from "../utils/logger";
+import { Output } from "../utils/output";
+import { CwsError, logErrorHint } from "../utils/errors";
+import {
+  addBatchOptions,
+  applyPublishDefaults,
+  finishBatch,
+  isBatchMode,
+  requireItemId,
+  runBatch,
+} from "../utils/batch";
 
 // Helper function to validate file
 function validateUploadFile(file: string): void {
   if (!existsSync(file)) {
-    throw new Error(`File not found: ${file}`);
+    throw new CwsError(ErrorCode.FILE_NOT_FOUND, `File not found: ${file}`);
+  }
+
+  // Source directories are packed before upload
+  if (statSync(file).isDirectory()) {
+    return;
   }
 
   const fileExt = extname(file).toLowerCase();
   if (![".zip", ".crx"].includes(fileExt)) {
-    throw new Error(
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
       `Unsupported file type: ${fileExt}. Only .zip and .crx files are supported.`
     );
   }
 }
 
-// Helper function to handle upload processing
-async function handleUploadProcessing(
+// Helper function to remove packages written to temporary directories
+export function removeTempPackages(paths: string[]): void {
+  paths.forEach((path) =>
+    rmSync(dirname(path), { recursive: true, force: true })
+  );
+}
+
+/**
+ * Prints the package inspection report
+ */
+export function displayInspectionReport(report: PackageInspectionReport): void {
+  Logger.blue("\n🔍 Package Inspection:");
+
+  if (report.manifest) {
+    Logger.gray(`  Name: ${report.manifest.name ?? "Unknown"}`);
+    Logger.gray(`  Version: ${report.manifest.version ?? "Unknown"}`);
+    Logger.gray(`  Manifest version: ${report.manifest.manifest_version ?? "Unknown"}`);
+  }
+  Logger.gray(`  Files: ${report.fileCount}`);
+
+  const errors = report.issues.filter((issue) => issue.severity === "error");
+  const warnings = report.issues.filter(
+    (issue) => issue.severity === "warning"
+  );
+
+  errors.forEach((issue) => Logger.red(`  ✖ ${issue.message}`));
+  warnings.forEach((issue) => Logger.yellow(`  ⚠ ${issue.message}`));
+
+  if (report.issues.length === 0) {
+    Logger.green("  ✔ No problems found");
+  } else {
+    Logger.gray(`  ${errors.length} error(s), ${warnings.length} warning(s)`);
+  }
+  Logger.log("");
+}
+
+/**
+ * Makes sure the uploaded version is newer than the store's. Returns the path
+ * of the file to upload, which is a rewritten copy in a temporary directory
+ * when bumping.
+ */
+export async function preparePackageVersion(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  file: string,
+  localVersion: string | undefined,
+  opts: Pick<UploadOptions, "bump" | "force">
+): Promise<string> {
+  const bump = opts.bump ? validateVersionBump(opts.bump) : undefined;
+
+  if (opts.force && !bump) {
+    return file;
+  }
+
+  const status = await withSpinner(
+    "Checking store version...",
+    "Store version fetched",
+    "Failed to fetch store version",
+    () => client.fetchItemStatus(itemId)
+  );
+  const storeVersion = getHighestStoreVersion(status);
+  Logger.verbose(`Store version: ${storeVersion ?? "none"}`);
+
+  if (bump) {
+    const baseVersion = maxVersion([localVersion, storeVersion]) || "0.0.0";
+    const newVersion = bumpVersion(baseVersion, bump);
+    const bumpedFile = writePackageWithVersion(file, newVersion);
+    Logger.gray(`Version bumped (${bump}): ${baseVersion} → ${newVersion}`);
+    Logger.verbose(`Rewritten package: ${bumpedFile}`);
+    return bumpedFile;
+  }
+
+  if (
+    localVersion &&
+    storeVersion &&
+    compareVersions(localVersion, storeVersion) <= 0
+  ) {
+    throw new CwsError(
+      ErrorCode.VERSION_NOT_NEWER,
+      `Package version ${localVersion} is not newer than the store version ${storeVersion}. ` +
+        "Increase the manifest version, use --bump, or pass --force to upload anyway."
+    );
+  }
+
+  return file;
+}
+
+// Helper function to describe upload progress, e.g. "45% (12.3 MB of 27.1 MB, 1.2 MB/s)"
+function formatUploadProgress(progress: UploadProgress): string {
+  const percent =
+    progress.totalBytes > 0
+      ? Math.floor((progress.bytesSent / progress.totalBytes) * 100)
+      : 100;
+  return (
+    `${percent}% (${formatFileSize(progress.bytesSent)} of ${formatFileSize(progress.totalBytes)}, ` +
+    `${formatFileSize(Math.round(progress.bytesPerSecond))}/s)`
+  );
+}
+
+/**
+ * Uploads a package with a spinner that shows how much has been sent and
+ * the throughput
+ */
+export async function uploadPackageWithProgress(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  file: string,
+  message: string,
+  resumable?: boolean
+): Promise<UploadItemPackageResponse> {
+  return withSpinnerCustom(message, async (spinner) => {
+    try {
+      const response = await client.uploadPackage(itemId, file, {
+        resumable,
+        onProgress: (progress) => {
+          spinner.text = `${message} ${formatUploadProgress(progress)}`;
+        },
+      });
+      spinner.succeed("Package uploaded successfully");
+      return response;
+    } catch (error) {
+      spinner.fail("Upload failed");
+      throw error;
+    }
+  });
+}
+
+/**
+ * Waits for the store to finish processing an upload that is still in
+ * progress. Throws unless processing succeeded.
+ */
+export async function handleUploadProcessing(
   client: ChromeWebStoreClient,
   itemId: string,
   uploadResponse: { uploadState?: UploadState },
   maxWaitTime: string
-): Promise<void> {
+): Promise<UploadState | undefined> {
   if (uploadResponse.uploadState !== UploadState.IN_PROGRESS) {
-    return;
+    return uploadResponse.uploadState;
   }
 
   const maxWaitTimeMs = parseInt(maxWaitTime || "300", 10) * 1000;
 
   if (isNaN(maxWaitTimeMs) || maxWaitTimeMs < 5000) {
-    throw new Error("Max wait time must be at least 5 seconds");
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Max wait time must be at least 5 seconds"
+    );
   }
 
-  await withSpinnerCustom(
+  const state = await withSpinnerCustom(
     `Processing upload... (max wait: ${Math.round(maxWaitTimeMs / 1000)}s)`,
     async (spinner) => {
       try {
@@ -57,7 +240,6 @@ async function handleUploadProcessing(
           spinner.succeed("Upload processing completed");
         } else {
           spinner.fail(`Upload processing failed: ${state}`);
-          process.exit(1);
         }
 
         return state;
@@ -67,16 +249,28 @@ async function handleUploadProcessing(
       }
     }
   );
+
+  if (state !== UploadState.SUCCEEDED) {
+    throw new CwsError(
+      ErrorCode.UPLOAD_FAILED,
+      `Upload processing failed: ${state}`
+    );
+  }
+
+  return state;
 }
 
 // Helper function to handle auto-publish
 async function handleAutoPublish(
   client: ChromeWebStoreClient,
   itemId: string,
-  opts: UploadOptions
-): Promise<void> {
+  opts: UploadOptions,
+  packageInfo: Pick<HistoryEntry, "packageSha256" | "manifestVersion">
+): Promise<
+  { checks: PreflightCheckResult[]; response: PublishItemResponse } | undefined
+> {
   if (!opts.autoPublish) {
-    return;
+    return undefined;
   }
 
   Logger.blue("\n🚀 Auto-publishing...");
@@ -88,28 +282,198 @@ async function handleAutoPublish(
 
   const deployPercentage = validateDeployPercentage(opts.deployPercentage || "100");
 
+  const checks = await checkBeforePublish(
+    client,
+    itemId,
+    packageInfo.manifestVersion,
+    publishType,
+    deployPercentage,
+    opts
+  );
+
   const publishResponse = await withSpinner(
     "Publishing item...",
     "Item published successfully",
     "Publish failed",
     () =>
-      client.publishItem(itemId, {
-        skipReview: opts.skipReview,
-        publishType,
-        deployInfos:
-          deployPercentage < 100 ? [{ deployPercentage }] : undefined,
-      })
+      HistoryManager.track(
+        opts,
+        client,
+        {
+          action: "publish",
+          itemId,
+          params: {
+            skipReview: opts.skipReview,
+            publishType: opts.publishType,
+            deployPercentage,
+            autoPublish: true,
+          },
+          ...packageInfo,
+        },
+        () =>
+          client.publishItem(itemId, {
+            skipReview: opts.skipReview,
+            publishType,
+            deployInfos:
+              deployPercentage < 100 ? [{ deployPercentage }] : undefined,
+          }),
+        (response) => response.state
+      )
   );
 
   Logger.verbose("Publish response:", JSON.stringify(publishResponse, null, 2));
   Logger.green("✅ Auto-publish completed!");
   Logger.gray(`Status: ${publishResponse.state}`);
+
+  return { checks, response: publishResponse };
+}
+
+// Helper function to upload (and optionally publish) a single item.
+// Returns a short description of the outcome for batch summaries.
+async function uploadItem(
+  getClient: ClientProvider,
+  itemId: string,
+  file: string,
+  opts: UploadOptions
+): Promise<CommandResult> {
+  const tempPackages: string[] = [];
+
+  try {
+    validateUploadFile(file);
+
+    Logger.gray(`Item ID: ${itemId}`);
+
+    // Pack source directories into a temporary zip
+    let packageFile = file;
+    if (statSync(file).isDirectory()) {
+      Logger.gray(`Source: ${file}`);
+      const packResult = await withSpinner(
+        "Packing extension...",
+        "Extension packed successfully",
+        "Pack failed",
+        async () => packDirectoryToTemp(file)
+      );
+      tempPackages.push(packResult.outputPath);
+      displayPackResult(packResult, !!opts.verbose);
+      packageFile = packResult.outputPath;
+    } else {
+      Logger.gray(`File: ${file} (${formatFileSize(statSync(file).size)})`);
+    }
+
+    // Inspect the package locally before sending it to the store
+    const report = inspectPackage(packageFile);
+    displayInspectionReport(report);
+
+    if (hasInspectionErrors(report)) {
+      throw new CwsError(
+        ErrorCode.PACKAGE_INVALID,
+        "Package inspection found errors"
+      );
+    }
+
+    const client = await getClient();
+
+    // Guard against uploading a version the store would reject
+    const uploadFile = await preparePackageVersion(
+      client,
+      itemId,
+      packageFile,
+      report.manifest?.version,
+      opts
+    );
+    if (uploadFile !== packageFile) {
+      tempPackages.push(uploadFile);
+    }
+
+    // Upload the package and wait for processing, recording the outcome
+    const packageInfo = HistoryManager.describePackage(uploadFile);
+    const { uploadResponse, uploadState } = await HistoryManager.track(
+      opts,
+      client,
+      {
+        action: "upload",
+        itemId,
+        params: { file, bump: opts.bump, force: opts.force },
+        ...packageInfo,
+      },
+      async () => {
+        const uploadResponse = await uploadPackageWithProgress(
+          client,
+          itemId,
+          uploadFile,
+          "Uploading package...",
+          opts.resumable
+        );
+
+        Logger.verbose(
+          "Upload response:",
+          JSON.stringify(uploadResponse, null, 2)
+        );
+
+        // Handle upload processing
+        const uploadState = await handleUploadProcessing(
+          client,
+          itemId,
+          uploadResponse,
+          opts.maxWaitTime || "300"
+        );
+        return { uploadResponse, uploadState };
+      },
+      ({ uploadState }) => uploadState
+    );
+
+    Logger.green("✅ Upload completed successfully!");
+
+    if (uploadResponse.crxVersion) {
+      Logger.gray(`Package version: ${uploadResponse.crxVersion}`);
+    }
+
+    // Keep the package so the release can be rolled back to later
+    const cacheVersion =
+      packageInfo.manifestVersion || uploadResponse.crxVersion;
+    const artifact =
+      cacheVersion && !opts.dry
+        ? ArtifactCache.store(itemId, uploadFile, cacheVersion, file)
+        : undefined;
+
+    // Handle auto-publish
+    const autoPublish = await handleAutoPublish(
+      client,
+      itemId,
+      opts,
+      packageInfo
+    );
+
+    const version = uploadResponse.crxVersion
+      ? ` ${uploadResponse.crxVersion}`
+      : "";
+    return {
+      summary: autoPublish
+        ? `uploaded${version}, published: ${autoPublish.response.state}`
+        : `uploaded${version}`,
+      data: {
+        itemId,
+        inspection: report,
+        upload: uploadResponse,
+        uploadState,
+        artifact: artifact?.path,
+        checks: autoPublish?.checks,
+        publish: autoPublish?.response,
+        dryRun: opts.dry || undefined,
+      },
+    };
+  } finally {
+    removeTempPackages(tempPackages);
+  }
 }
 
 export const uploadCommand = new Command("upload")
   .description("Upload a package to Chrome Web Store")
-  .argument("<item-id>", "Chrome Web Store item (extension) ID")
-  .argument("<file>", "Path to the .zip or .crx file to upload")
+  .argument("[item-id]", "Chrome Web Store item (extension) ID")
+  .argument(
+    "[file]",
+    "Path to the .zip or .crx file to upload, or a source directory to pack"
+  )
   .option("-s, --skip-review", "Skip review process if possible")
   .option(
     "-p, --publish-type <type>",
@@ -122,81 +486,93 @@ export const uploadCommand = new Command("upload")
     "100"
   )
   .option("-a, --auto-publish", "Automatically publish after successful upload")
+  .option(
+    "-f, --force",
+    "Upload even if the package version is not newer than the store version"
+  )
+  .option(
+    "-b, --bump <type>",
+    "Bump the manifest version above the store version before uploading: patch, minor, major"
+  )
   .option(
     "-w, --max-wait-time <seconds>",
     "Maximum time to wait for upload processing (in seconds)",
     "300"
   )
+  .option(
+    "--resumable",
+    "Use resumable uploads even for small packages (default for packages from 5 MB)"
+  )
   .action(
     async (
-      itemId: string,
-      file: string,
+      itemId: string | undefined,
+      file: string | undefined,
       options: UploadCommandOptions,
       command: Command
     ) => {
       const globalOptions = command.parent?.opts() || {};
       const opts: UploadOptions = {
         ...globalOptions,
-        itemId,
-        file,
+        itemId: itemId || "",
+        file: file || "",
         ...options,
       };
 
       try {
-        // Validate file
-        validateUploadFile(file);
-
-        const fileStats = statSync(file);
-
+        Output.begin("upload");
         Logger.setVerbose(opts.verbose || false);
+        validateSkipChecks(opts.skipCheck);
+        if (opts.bump) {
+          validateVersionBump(opts.bump);
+        }
+
         Logger.blue("📦 Chrome Web Store Upload");
-        Logger.gray(`Item ID: ${itemId}`);
-        Logger.gray(`File: ${file} (${formatFileSize(fileStats.size)})`);
+        const getClient = createClientProvider(opts);
 
-        if (opts.dry) {
-          Logger.yellow("🏃 Dry run mode - no actual upload will be performed");
+        if (isBatchMode(options)) {
+          const results = await runBatch(opts, options, (target) => {
+            if (!target.package) {
+              throw new CwsError(
+                ErrorCode.INVALID_ARGUMENT,
+                `No package configured for item "${target.name}"`
+              );
+            }
+            return uploadItem(
+              getClient,
+              target.itemId,
+              target.package,
+              applyPublishDefaults(opts, target, command)
+            );
+          });
+          finishBatch(results);
           return;
         }
 
-        // Load configuration
-        const config = await ConfigManager.loadConfig(opts.config);
-        const client = new ChromeWebStoreClient(config);
-
-        // Upload the package
-        const uploadResponse = await withSpinner(
-          "Uploading package...",
-          "Package uploaded successfully",
-          "Upload failed",
-          () => client.uploadPackage(itemId, file)
-        );
-
-        Logger.verbose(
-          "Upload response:",
-          JSON.stringify(uploadResponse, null, 2)
-        );
-
-        // Handle upload processing
-        await handleUploadProcessing(
-          client,
-          itemId,
-          uploadResponse,
-          opts.maxWaitTime || "300"
-        );
-
-        Logger.green("✅ Upload completed successfully!");
-
-        if (uploadResponse.crxVersion) {
-          Logger.gray(`Package version: ${uploadResponse.crxVersion}`);
+        if (!file) {
+          throw new CwsError(
+            ErrorCode.INVALID_ARGUMENT,
+            "Missing file. Pass <item-id> <file>."
+          );
         }
 
-        // Handle auto-publish
-        await handleAutoPublish(client, itemId, opts);
+        const result = await uploadItem(
+          getClient,
+          requireItemId(itemId),
+          file,
+          opts
+        );
+        Output.success(result.data);
       } catch (error) {
+        Output.failure(error, { itemId });
         Logger.red(
           "❌ Upload failed:",
           error instanceof Error ? error.message : error
         );
+        logErrorHint(error);
         process.exit(1);
       }
     }
   );
+
+addBatchOptions(uploadCommand);
+addPreflightOptions(uploadCommand);
@@ -1,3 +1,20 @@
 export { ChromeWebStoreClient } from "./services/chrome-webstore-client";
+export { ReleaseManager } from "./services/release-manager";
+export { createHttpTransport } from "./services/http-transport";
 export { ConfigManager } from "./utils/config";
+export { EmulatorServer } from "./services/emulator";
+export { FakeStore } from "./services/fake-store";
+export {
+  EncryptedFileSecretStore,
+  KeyringSecretStore,
+} from "./services/secret-store";
+export {
+  CwsError,
+  ApiError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from "./utils/errors";
 export * from "./types";
@@ -0,0 +1,79 @@
+import { Command } from "commander";
+import { createProgram } from "./program";
+
+interface ParsedCommand {
+  name: string;
+  globalOptions: Record<string, unknown>;
+  options: Record<string, unknown>;
+}
+
+// Parses a command line and returns the options the command's action would
+// get, without running it
+async function parse(args: string[]): Promise<ParsedCommand> {
+  const program = createProgram().exitOverride();
+  let parsed: ParsedCommand | undefined;
+
+  program.hook("preAction", (root: Command, action: Command) => {
+    parsed = {
+      name: action.name(),
+      globalOptions: root.opts(),
+      options: action.opts(),
+    };
+    throw new Error("parsed");
+  });
+
+  await expect(program.parseAsync(args, { from: "user" })).rejects.toThrow(
+    "parsed"
+  );
+  return parsed!;
+}
+
+describe("createProgram", () => {
+  it("leaves -p to publish's --publish-type", async () => {
+    const parsed = await parse([
+      "--dry",
+      "-c",
+      "cfg.json",
+      "publish",
+      "abcdefghijklmnopqrstuvwxyzabcdef",
+      "-p",
+      "staged",
+      "-d",
+      "50",
+      "--yes",
+    ]);
+
+    expect(parsed.name).toBe("publish");
+    expect(parsed.options).toMatchObject({
+      publishType: "staged",
+      deployPercentage: "50",
+      yes: true,
+    });
+    expect(parsed.globalOptions).toMatchObject({
+      dry: true,
+      config: "cfg.json",
+    });
+    expect(parsed.globalOptions.profile).toBeUndefined();
+  });
+
+  it("leaves -p to upload's --publish-type", async () => {
+    const parsed = await parse([
+      "upload",
+      "abcdefghijklmnopqrstuvwxyzabcdef",
+      "extension.zip",
+      "-p",
+      "staged",
+    ]);
+
+    expect(parsed.options.publishType).toBe("staged");
+    expect(parsed.globalOptions.profile).toBeUndefined();
+  });
+
+  it("accepts --profile before or after the command", async () => {
+    const before = await parse(["--profile", "prod", "status", "item"]);
+    const after = await parse(["status", "item", "--profile", "prod"]);
+
+    expect(before.globalOptions.profile).toBe("prod");
+    expect(after.globalOptions.profile).toBe("prod");
+  });
+});
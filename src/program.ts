@@ -0,0 +1,82 @@
+import { Command } from "commander";
+import packageJson from "../package.json";
+
+// Import command handlers
+import { uploadCommand } from "./commands/upload";
+import { publishCommand } from "./commands/publish";
+import { statusCommand } from "./commands/status";
+import { configureCommand } from "./commands/configure";
+import { cancelCommand } from "./commands/cancel";
+import { deployCommand } from "./commands/deploy";
+import { packCommand } from "./commands/pack";
+import { configCommand } from "./commands/config";
+import { rolloutCommand } from "./commands/rollout";
+import { historyCommand } from "./commands/history";
+import { rollbackCommand } from "./commands/rollback";
+import { releaseCommand } from "./commands/release";
+import { emulatorCommand } from "./commands/emulator";
+
+/**
+ * Builds the program with its global options and commands. The CLI entry
+ * point adds output and error handling before parsing the command line.
+ */
+export function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name("cws-manager")
+    .description(
+      "CLI tool for managing Chrome extensions in the Chrome Web Store"
+    )
+    .version(packageJson.version);
+
+  // Global options
+  program
+    .option("-c, --config <path>", "path to config file")
+    .option(
+      "--profile <name>",
+      "configuration profile to use (default: CWS_PROFILE or the file's default profile)"
+    )
+    .option("-v, --verbose", "enable verbose output")
+    .option("--dry", "dry run mode (don't actually make API calls)")
+    .option(
+      "--project <path>",
+      "path to the project file used by --all and --item",
+      "cws.config.json"
+    )
+    .option("--json", "write a single JSON document to stdout instead of text")
+    .option(
+      "--max-retries <count>",
+      "retries for transient API failures (default: 3)"
+    )
+    .option(
+      "--retry-timeout <seconds>",
+      "maximum time spent retrying a single request (default: 60)"
+    )
+    .option(
+      "--request-timeout <seconds>",
+      "time limit for each HTTP request (default: none)"
+    )
+    .option(
+      "--ca-file <path>",
+      "PEM file with extra root certificates to trust, e.g. of a proxy"
+    );
+
+  // Commands
+  program
+    .addCommand(configureCommand)
+    .addCommand(configCommand)
+    .addCommand(packCommand)
+    .addCommand(uploadCommand)
+    .addCommand(publishCommand)
+    .addCommand(statusCommand)
+    .addCommand(cancelCommand)
+    .addCommand(deployCommand)
+    .addCommand(rolloutCommand)
+    .addCommand(historyCommand)
+    .addCommand(rollbackCommand)
+    .addCommand(releaseCommand)
+    .addCommand(emulatorCommand);
+
+  return program;
+}
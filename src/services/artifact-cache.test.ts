@@ -0,0 +1,124 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ErrorCode } from "../types";
+import { ConfigManager } from "../utils/config";
+import { Logger } from "../utils/logger";
+import { ArtifactCache } from "./artifact-cache";
+
+const ITEM_ID = "abcdefghijklmnopqrstuvwxyzabcdef";
+
+describe("ArtifactCache", () => {
+  let dir: string;
+
+  beforeAll(() => Logger.setSilent(true));
+  afterAll(() => Logger.setSilent(false));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-artifacts-"));
+    jest.spyOn(ConfigManager, "getConfigDir").mockReturnValue(dir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Caches a package whose content names its version
+  function store(version: string) {
+    const file = join(dir, `upload-${version}.zip`);
+    writeFileSync(file, `package ${version}`);
+    return ArtifactCache.store(ITEM_ID, file, version, file);
+  }
+
+  function listVersions(): string[] {
+    return ArtifactCache.list(ITEM_ID).map((artifact) => artifact.version);
+  }
+
+  it("keeps a copy of the package with its metadata", () => {
+    const artifact = store("1.2.0")!;
+
+    expect(artifact).toMatchObject({
+      itemId: ITEM_ID,
+      version: "1.2.0",
+      size: "package 1.2.0".length,
+      path: join(ArtifactCache.getItemDir(ITEM_ID), "1.2.0.zip"),
+    });
+    expect(artifact.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(readFileSync(artifact.path, "utf8")).toBe("package 1.2.0");
+    expect(ArtifactCache.find(ITEM_ID, "1.2")).toEqual(artifact);
+  });
+
+  it("lists versions in version order, not name order", () => {
+    ["1.10.0", "1.9.0", "1.2.0"].forEach(store);
+
+    expect(listVersions()).toEqual(["1.2.0", "1.9.0", "1.10.0"]);
+  });
+
+  it("replaces an earlier copy of the same version", () => {
+    store("1.0.0");
+    const file = join(dir, "rebuilt.zip");
+    writeFileSync(file, "rebuilt");
+    ArtifactCache.store(ITEM_ID, file, "1.0.0", file);
+
+    expect(listVersions()).toEqual(["1.0.0"]);
+    expect(
+      readFileSync(ArtifactCache.require(ITEM_ID, "1.0.0").path, "utf8")
+    ).toBe("rebuilt");
+  });
+
+  it("keeps only the most recent versions", () => {
+    const versions = Array.from(
+      { length: ArtifactCache.MAX_VERSIONS_PER_ITEM + 2 },
+      (_, index) => `1.${index}.0`
+    );
+    versions.forEach(store);
+
+    expect(listVersions()).toEqual(versions.slice(2));
+    expect(
+      existsSync(join(ArtifactCache.getItemDir(ITEM_ID), "1.0.0.zip"))
+    ).toBe(false);
+    expect(
+      existsSync(join(ArtifactCache.getItemDir(ITEM_ID), "1.0.0.json"))
+    ).toBe(false);
+  });
+
+  it("does not remove versions that merely start with a pruned one", () => {
+    // 1.0 sorts first and is pruned; 1.0.5 shares its file name prefix
+    ["1.0", "1.0.5", ...Array.from({ length: 9 }, (_, i) => `2.${i}`)].forEach(
+      store
+    );
+
+    expect(listVersions()).toContain("1.0.5");
+    expect(listVersions()).not.toContain("1.0");
+  });
+
+  it("skips entries whose package file is gone", () => {
+    const artifact = store("1.0.0")!;
+    store("1.1.0");
+    rmSync(artifact.path);
+
+    expect(listVersions()).toEqual(["1.1.0"]);
+  });
+
+  it("finds the newest version below a bad one", () => {
+    ["1.0.0", "1.1.0", "1.2.0", "1.3.0"].forEach(store);
+
+    expect(ArtifactCache.findPrevious(ITEM_ID, "1.3.0")?.version).toBe("1.2.0");
+    expect(ArtifactCache.findPrevious(ITEM_ID, "1.1.5")?.version).toBe("1.1.0");
+    expect(ArtifactCache.findPrevious(ITEM_ID, "1.0.0")).toBeUndefined();
+  });
+
+  it("reports a version that is not cached", () => {
+    expect(ArtifactCache.list(ITEM_ID)).toEqual([]);
+    expect(() => ArtifactCache.require(ITEM_ID, "1.0.0")).toThrow(
+      expect.objectContaining({ code: ErrorCode.NOT_FOUND })
+    );
+  });
+});
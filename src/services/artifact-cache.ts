@@ -0,0 +1,159 @@
+import { createHash } from "crypto";
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { extname, join } from "path";
+import { CachedArtifact, ErrorCode } from "../types";
+import { ConfigManager } from "../utils/config";
+import { CwsError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+import { compareVersions } from "../utils/version";
+
+const METADATA_EXTENSION = ".json";
+
+/**
+ * Keeps the packages of successful uploads under
+ * ~/.cws-manager-cli/artifacts/<item-id>, one package and one metadata file
+ * per version, so an earlier release can be uploaded again. Only the most
+ * recent versions of each item are kept.
+ */
+export class ArtifactCache {
+  static readonly MAX_VERSIONS_PER_ITEM = 10;
+
+  static getCacheDir(): string {
+    return join(ConfigManager.getConfigDir(), "artifacts");
+  }
+
+  static getItemDir(itemId: string): string {
+    return join(ArtifactCache.getCacheDir(), itemId);
+  }
+
+  /**
+   * Copies an uploaded package into the cache, replacing an earlier copy of
+   * the same version. A cache that cannot be written never fails the upload,
+   * so errors are only logged.
+   */
+  static store(
+    itemId: string,
+    file: string,
+    version: string,
+    source: string
+  ): CachedArtifact | undefined {
+    const itemDir = ArtifactCache.getItemDir(itemId);
+    try {
+      mkdirSync(itemDir, { recursive: true });
+      ArtifactCache.remove(itemId, version);
+
+      const path = join(itemDir, `${version}${extname(file) || ".zip"}`);
+      copyFileSync(file, path);
+
+      const artifact: CachedArtifact = {
+        itemId,
+        version,
+        sha256: createHash("sha256").update(readFileSync(path)).digest("hex"),
+        size: statSync(path).size,
+        uploadedAt: new Date().toISOString(),
+        source,
+        path,
+      };
+      writeFileSync(
+        join(itemDir, `${version}${METADATA_EXTENSION}`),
+        JSON.stringify(artifact, null, 2),
+        "utf8"
+      );
+      Logger.verbose(`Cached package ${version} at ${path}`);
+
+      ArtifactCache.prune(itemId);
+      return artifact;
+    } catch (error) {
+      Logger.yellow(
+        `⚠️  Failed to cache the package in ${itemDir}: ${error instanceof Error ? error.message : error}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the cached packages of an item, oldest version first. Entries
+   * whose package file is missing are skipped.
+   */
+  static list(itemId: string): CachedArtifact[] {
+    const itemDir = ArtifactCache.getItemDir(itemId);
+    if (!existsSync(itemDir)) {
+      return [];
+    }
+
+    return readdirSync(itemDir)
+      .filter((name) => name.endsWith(METADATA_EXTENSION))
+      .flatMap((name) => {
+        try {
+          const artifact = JSON.parse(
+            readFileSync(join(itemDir, name), "utf8")
+          ) as CachedArtifact;
+          return existsSync(artifact.path) ? [artifact] : [];
+        } catch {
+          Logger.verbose(`Skipping unreadable artifact metadata: ${name}`);
+          return [];
+        }
+      })
+      .sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  static find(itemId: string, version: string): CachedArtifact | undefined {
+    return ArtifactCache.list(itemId).find(
+      (artifact) => compareVersions(artifact.version, version) === 0
+    );
+  }
+
+  static require(itemId: string, version: string): CachedArtifact {
+    const artifact = ArtifactCache.find(itemId, version);
+    if (!artifact) {
+      throw new CwsError(
+        ErrorCode.NOT_FOUND,
+        `No cached package of version ${version} for item ${itemId}`
+      );
+    }
+    return artifact;
+  }
+
+  /**
+   * Returns the newest cached version below the given version, which is the
+   * release to go back to when that version is bad
+   */
+  static findPrevious(
+    itemId: string,
+    version: string
+  ): CachedArtifact | undefined {
+    return ArtifactCache.list(itemId)
+      .filter((artifact) => compareVersions(artifact.version, version) < 0)
+      .pop();
+  }
+
+  private static remove(itemId: string, version: string): void {
+    const itemDir = ArtifactCache.getItemDir(itemId);
+    readdirSync(itemDir)
+      .filter(
+        (name) =>
+          name.startsWith(version) &&
+          /^\.[a-z]+$/.test(name.slice(version.length))
+      )
+      .forEach((name) => rmSync(join(itemDir, name), { force: true }));
+  }
+
+  // Removes all but the most recent versions of an item
+  private static prune(itemId: string): void {
+    ArtifactCache.list(itemId)
+      .slice(0, -ArtifactCache.MAX_VERSIONS_PER_ITEM)
+      .forEach((artifact) => {
+        Logger.verbose(`Removing cached package ${artifact.version}`);
+        ArtifactCache.remove(itemId, artifact.version);
+      });
+  }
+}
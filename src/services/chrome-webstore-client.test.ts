@@ -0,0 +1,259 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ErrorCode, UploadState } from "../types";
+import { ChromeWebStoreClient } from "./chrome-webstore-client";
+
+const CONFIG = {
+  clientId: "client-id",
+  clientSecret: "client-secret",
+  refreshToken: "refresh-token",
+  publisherId: "publisher",
+};
+const CHUNK_SIZE = 256 * 1024;
+const TOTAL_BYTES = 600 * 1024;
+const SESSION_URL = "https://upload.example.com/session/1";
+
+interface SessionRequest {
+  contentRange: string;
+  bytes: number;
+}
+
+// How a fake upload session treats a PUT: answers it, fails it, or keeps
+// only some of its bytes. Undefined keeps them all.
+type SessionHandler = (
+  request: SessionRequest
+) => Response | "network-error" | { keep: number } | undefined;
+
+async function readBody(body: unknown): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of (body || []) as AsyncIterable<Uint8Array>) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function acknowledge(received: number): Response {
+  return new Response(null, {
+    status: 308,
+    headers: received > 0 ? { Range: `bytes=0-${received - 1}` } : {},
+  });
+}
+
+/**
+ * Fakes the token endpoint and a resumable upload session. By default the
+ * session keeps what it receives and acknowledges it; a handler can answer
+ * a request differently.
+ */
+function createUploadServer(handler: SessionHandler = () => undefined) {
+  const requests: SessionRequest[] = [];
+  let received = 0;
+
+  const fetch = jest.fn(async (url: string, init: RequestInit) => {
+    if (url === ChromeWebStoreClient.TOKEN_URL) {
+      return Response.json({ access_token: "token", expires_in: 3600 });
+    }
+    if (init.method === "POST") {
+      return new Response(null, { headers: { Location: SESSION_URL } });
+    }
+
+    const headers = init.headers as Record<string, string>;
+    const body = await readBody(init.body);
+    const request = {
+      contentRange: headers["Content-Range"],
+      bytes: body.length,
+    };
+    requests.push(request);
+
+    const answer = handler(request);
+    if (answer === "network-error") {
+      throw new TypeError("fetch failed");
+    }
+    if (answer instanceof Response) {
+      return answer;
+    }
+
+    received += answer ? answer.keep : body.length;
+    return received === TOTAL_BYTES
+      ? Response.json({ uploadState: UploadState.SUCCEEDED })
+      : acknowledge(received);
+  });
+
+  return { fetch, requests };
+}
+
+describe("ChromeWebStoreClient resumable uploads", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-upload-"));
+    file = join(dir, "extension.zip");
+    writeFileSync(file, Buffer.alloc(TOTAL_BYTES, 1));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  function createClient(fetch: ReturnType<typeof createUploadServer>["fetch"]) {
+    return new ChromeWebStoreClient(CONFIG, {
+      fetch,
+      retry: { maxRetries: 2, initialDelay: 1, maxDelay: 2 },
+    });
+  }
+
+  function upload(client: ChromeWebStoreClient) {
+    return client.uploadPackage("item", file, {
+      resumable: true,
+      chunkSize: CHUNK_SIZE,
+    });
+  }
+
+  it("sends the package in chunks the server acknowledges", async () => {
+    const { fetch, requests } = createUploadServer();
+    const progress: number[] = [];
+
+    const response = await createClient(fetch).uploadPackage("item", file, {
+      resumable: true,
+      chunkSize: CHUNK_SIZE,
+      onProgress: ({ bytesSent }) => progress.push(bytesSent),
+    });
+
+    expect(response.uploadState).toBe(UploadState.SUCCEEDED);
+    expect(requests.map((request) => request.contentRange)).toEqual([
+      "bytes 0-262143/614400",
+      "bytes 262144-524287/614400",
+      "bytes 524288-614399/614400",
+    ]);
+    expect(progress.at(-1)).toBe(TOTAL_BYTES);
+  });
+
+  it("asks for the upload status after a failure and resumes from there", async () => {
+    let failed = false;
+    const { fetch, requests } = createUploadServer((request) => {
+      if (!failed && request.contentRange.startsWith("bytes 262144-")) {
+        failed = true;
+        return "network-error";
+      }
+      return undefined;
+    });
+
+    await expect(upload(createClient(fetch))).resolves.toMatchObject({
+      uploadState: UploadState.SUCCEEDED,
+    });
+    expect(requests.map((request) => request.contentRange)).toEqual([
+      "bytes 0-262143/614400",
+      "bytes 262144-524287/614400",
+      "bytes */614400",
+      "bytes 262144-524287/614400",
+      "bytes 524288-614399/614400",
+    ]);
+    expect(requests[2].bytes).toBe(0);
+  });
+
+  it("resends the part of a chunk the server did not keep", async () => {
+    // Only the first half of the first chunk arrives
+    const { fetch, requests } = createUploadServer((request) =>
+      requests.length === 1 ? { keep: request.bytes / 2 } : undefined
+    );
+
+    await expect(upload(createClient(fetch))).resolves.toMatchObject({
+      uploadState: UploadState.SUCCEEDED,
+    });
+    expect(requests[1].contentRange).toBe("bytes 131072-393215/614400");
+  });
+
+  it("gives up when the server never acknowledges more bytes", async () => {
+    const { fetch, requests } = createUploadServer(() => acknowledge(0));
+
+    await expect(upload(createClient(fetch))).rejects.toMatchObject({
+      code: ErrorCode.UPLOAD_FAILED,
+    });
+    // Three attempts to send the first chunk, with a status query between
+    expect(requests.map((request) => request.contentRange)).toEqual([
+      "bytes 0-262143/614400",
+      "bytes */614400",
+      "bytes 0-262143/614400",
+      "bytes */614400",
+      "bytes 0-262143/614400",
+    ]);
+  });
+
+  it("does not retry an upload that was aborted", async () => {
+    const controller = new AbortController();
+    const { fetch, requests } = createUploadServer(() => {
+      controller.abort();
+      return "network-error";
+    });
+    const client = new ChromeWebStoreClient(CONFIG, {
+      fetch,
+      retry: { maxRetries: 2, initialDelay: 1, maxDelay: 2 },
+    }).withSignal(controller.signal);
+
+    await expect(upload(client)).rejects.toThrow("fetch failed");
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("ChromeWebStoreClient request timeout", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-timeout-"));
+    file = join(dir, "extension.zip");
+    writeFileSync(file, Buffer.alloc(TOTAL_BYTES, 1));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  // Fakes an upload endpoint that takes each part of the body after a delay,
+  // and fails as fetch does when the request is aborted
+  function createClient(handleUpload: (init: RequestInit) => Promise<void>) {
+    const fetch = jest.fn(async (url: string, init: RequestInit) => {
+      if (url === ChromeWebStoreClient.TOKEN_URL) {
+        return Response.json({ access_token: "token", expires_in: 3600 });
+      }
+      await handleUpload(init);
+      return Response.json({ uploadState: UploadState.SUCCEEDED });
+    });
+    return new ChromeWebStoreClient(CONFIG, {
+      fetch,
+      timeout: 100,
+      retry: { maxRetries: 2, initialDelay: 1, maxDelay: 2 },
+    });
+  }
+
+  it("does not cut short an upload that keeps making progress", async () => {
+    let received = 0;
+    const client = createClient(async (init) => {
+      for await (const chunk of init.body as AsyncIterable<Uint8Array>) {
+        received += chunk.length;
+        await new Promise((resolve) => setTimeout(resolve, 25));
+        init.signal?.throwIfAborted();
+      }
+    });
+    const started = Date.now();
+
+    await expect(
+      client.uploadPackage("item", file, { resumable: false })
+    ).resolves.toMatchObject({ uploadState: UploadState.SUCCEEDED });
+    // The whole upload took longer than the timeout
+    expect(Date.now() - started).toBeGreaterThan(100);
+    expect(received).toBeGreaterThan(TOTAL_BYTES);
+  });
+
+  it("aborts an upload that stalls", async () => {
+    const client = createClient(
+      (init) =>
+        new Promise((_resolve, reject) =>
+          init.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason)
+          )
+        )
+    );
+
+    await expect(
+      client.uploadPackage("item", file, { resumable: false })
+    ).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+  });
+});
@@ -1,16 +1,37 @@
-import { readFileSync, existsSync } from "fs";
+import { createReadStream, existsSync, statSync } from "fs";
 import { basename } from "path";
 import packageJson from "../../package.json";
 import {
+  ChromeWebStoreClientOptions,
   ChromeWebStoreConfig,
+  FetchFunction,
+  RetryOptions,
   UploadItemPackageResponse,
+  UploadPackageOptions,
   PublishItemRequest,
   PublishItemResponse,
   FetchItemStatusResponse,
   SetPublishedDeployPercentageRequest,
   UploadState,
+  ItemState,
+  ErrorCode,
 } from "../types";
-import { wait } from "../utils/utils";
+import { formatDuration, wait } from "../utils/utils";
+import { getSubmissionState } from "../utils/review";
+import { CwsError, createApiError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+import {
+  createJwtAssertion,
+  isServiceAccountConfig,
+  loadServiceAccountKey,
+} from "./service-account";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableNetworkError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "../utils/retry";
 
 interface TokenResponse {
   access_token: string;
@@ -18,19 +39,108 @@ interface TokenResponse {
   token_type: string;
 }
 
+// A request body, or a function that streams it afresh for every attempt
+type RequestBody = string | Buffer | (() => AsyncIterable<Uint8Array>);
+
+// Helper function to stream part of a file, reporting each chunk read
+async function* readFileRange(
+  filePath: string,
+  start: number,
+  end: number,
+  onRead: (bytes: number) => void
+): AsyncIterable<Uint8Array> {
+  if (end <= start) {
+    return;
+  }
+  for await (const chunk of createReadStream(filePath, {
+    start,
+    end: end - 1,
+  })) {
+    onRead((chunk as Buffer).length);
+    yield chunk as Buffer;
+  }
+}
+
+// Helper function to call onActivity for every chunk of a streamed body that
+// is sent, and once more when all of it was sent
+async function* reportActivity(
+  body: AsyncIterable<Uint8Array>,
+  onActivity: () => void
+): AsyncIterable<Uint8Array> {
+  for await (const chunk of body) {
+    onActivity();
+    yield chunk;
+  }
+  onActivity();
+}
+
+// Helper function to read the offset to resume from out of the Range header
+// of an HTTP 308 response, e.g. "bytes=0-1048575"
+function getResumeOffset(range: string | null): number {
+  const match = /bytes=\d+-(\d+)/.exec(range || "");
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+// Helper function to tell a request that ran out of time from other failures.
+// The abort reason is a DOMException, which is not always an Error instance.
+function isTimeoutError(error: unknown): boolean {
+  return (error as { name?: unknown } | null)?.name === "TimeoutError";
+}
+
 export class ChromeWebStoreClient {
-  private static readonly BASE_URL = "https://chromewebstore.googleapis.com";
-  private static readonly TOKEN_URL = "https://oauth2.googleapis.com/token";
+  static readonly BASE_URL = "https://chromewebstore.googleapis.com";
+  static readonly TOKEN_URL = "https://oauth2.googleapis.com/token";
+  static readonly SCOPE = "https://www.googleapis.com/auth/chromewebstore";
   private static readonly POLL_INTERVAL_MS = 2000;
+  // Packages from this size on use the resumable upload protocol
+  static readonly RESUMABLE_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
+  // Resumable chunks must be a multiple of 256 KiB
+  static readonly RESUMABLE_CHUNK_SIZE = 4 * 1024 * 1024;
   private static readonly USER_AGENT = `cws-manager-cli/${packageJson.version}`;
 
   private config: ChromeWebStoreConfig;
-  private baseUrl = ChromeWebStoreClient.BASE_URL;
+  private baseUrl: string;
+  private tokenUrl?: string;
+  private retryOptions: RetryOptions;
+  private fetch: FetchFunction;
+  private timeout?: number;
+  private signal?: AbortSignal;
   private accessToken?: string;
   private tokenExpiry?: number;
 
-  constructor(config: ChromeWebStoreConfig) {
+  constructor(
+    config: ChromeWebStoreConfig,
+    options: ChromeWebStoreClientOptions = {}
+  ) {
     this.config = config;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.fetch = options.fetch || ((url, init) => fetch(url, init));
+    this.baseUrl = (options.baseUrl || ChromeWebStoreClient.BASE_URL).replace(
+      /\/+$/,
+      ""
+    );
+    this.tokenUrl = options.tokenUrl;
+    this.timeout = options.timeout;
+    this.signal = options.signal;
+  }
+
+  getPublisherId(): string {
+    return this.config.publisherId;
+  }
+
+  /**
+   * Returns a client for the same store and credentials whose requests are
+   * also aborted by the given signal, e.g. to stop an operation in time
+   */
+  withSignal(signal: AbortSignal): ChromeWebStoreClient {
+    const client: ChromeWebStoreClient = Object.assign(
+      Object.create(ChromeWebStoreClient.prototype),
+      this
+    );
+    client.signal = this.signal
+      ? AbortSignal.any([this.signal, signal])
+      : signal;
+    return client;
   }
 
   private getApiPath(itemId: string, action: string): string {
@@ -41,6 +151,40 @@ export class ChromeWebStoreClient {
     return `${this.baseUrl}/upload/v2/publishers/${this.config.publisherId}/items/${itemId}:upload`;
   }
 
+  /**
+   * Builds the token request: a refresh-token grant for OAuth credentials, or
+   * a locally signed JWT assertion for a service account
+   */
+  private getTokenRequest(): { tokenUrl: string; tokenData: URLSearchParams } {
+    if (isServiceAccountConfig(this.config)) {
+      const key = loadServiceAccountKey(this.config.serviceAccountKeyFile);
+      const tokenUrl =
+        this.tokenUrl || key.token_uri || ChromeWebStoreClient.TOKEN_URL;
+
+      return {
+        tokenUrl,
+        tokenData: new URLSearchParams({
+          grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+          assertion: createJwtAssertion(
+            key,
+            ChromeWebStoreClient.SCOPE,
+            tokenUrl
+          ),
+        }),
+      };
+    }
+
+    return {
+      tokenUrl: this.tokenUrl || ChromeWebStoreClient.TOKEN_URL,
+      tokenData: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: this.config.refreshToken,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }),
+    };
+  }
+
   private async getAccessToken(): Promise<string> {
     // Check if we have a valid token (refresh 30s early to avoid race conditions)
     if (this.accessToken && this.tokenExpiry && Date.now() < this.tokenExpiry - 30_000) {
@@ -48,16 +192,11 @@ export class ChromeWebStoreClient {
     }
 
     // Refresh the token
-    const tokenData = new URLSearchParams({
-      grant_type: "refresh_token",
-      refresh_token: this.config.refreshToken,
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
-    });
+    const { tokenUrl, tokenData } = this.getTokenRequest();
 
     const response = await this.httpRequest<TokenResponse>(
       "POST",
-      ChromeWebStoreClient.TOKEN_URL,
+      tokenUrl,
       {
         "Content-Type": "application/x-www-form-urlencoded",
       },
@@ -70,26 +209,170 @@ export class ChromeWebStoreClient {
     return this.accessToken;
   }
 
+  /**
+   * Returns the abort signal of one request: the client's signal, combined
+   * with the request timeout when there is one. The timeout starts over
+   * whenever `touch` is called, so a large body that is still being sent
+   * does not run out of time; only a stalled one does.
+   */
+  private createRequestSignal(): {
+    signal?: AbortSignal;
+    touch: () => void;
+  } {
+    const timeout = this.timeout;
+    if (!timeout) {
+      return { signal: this.signal, touch: () => undefined };
+    }
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const touch = (): void => {
+      clearTimeout(timer);
+      timer = setTimeout(
+        () =>
+          controller.abort(
+            new DOMException("The request timed out", "TimeoutError")
+          ),
+        timeout
+      );
+      // A pending timeout must not keep the process alive
+      timer.unref();
+    };
+    touch();
+
+    return {
+      signal: this.signal
+        ? AbortSignal.any([this.signal, controller.signal])
+        : controller.signal,
+      touch,
+    };
+  }
+
+  /**
+   * Turns a request that timed out into a TIMEOUT error. A request aborted
+   * through the client's signal is rethrown, as it must not be retried.
+   */
+  private getRequestFailure(
+    error: unknown,
+    method: string,
+    requestUrl: string
+  ): unknown {
+    if (this.signal?.aborted) {
+      throw error;
+    }
+    if (isTimeoutError(error)) {
+      return new CwsError(
+        ErrorCode.TIMEOUT,
+        `${method} ${new URL(requestUrl).pathname} did not respond within ${formatDuration(this.timeout!)}`
+      );
+    }
+    return error;
+  }
+
+  /**
+   * Sends a request, retrying transient failures with backoff, and returns
+   * the successful response.
+   *
+   * Idempotent requests are retried on network errors and 408/429/5xx
+   * responses. Other requests (upload, publish) are only retried when the
+   * server cannot have processed them: 429 responses and refused connections.
+   * A request that runs out of time counts as a network error.
+   */
+  private async sendRequest(
+    method: string,
+    requestUrl: string,
+    headers: Record<string, string> = {},
+    body?: RequestBody,
+    idempotent = true
+  ): Promise<Response> {
+    const startTime = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      const { signal, touch } = this.createRequestSignal();
+
+      try {
+        response = await this.fetch(requestUrl, {
+          method,
+          headers: {
+            ...headers,
+            "User-Agent": ChromeWebStoreClient.USER_AGENT,
+          },
+          body:
+            typeof body === "function"
+              ? reportActivity(body(), touch)
+              : body || undefined,
+          // Streamed bodies are sent while the response is awaited
+          duplex: typeof body === "function" ? "half" : undefined,
+          signal,
+        });
+      } catch (caught) {
+        const error = this.getRequestFailure(caught, method, requestUrl);
+        const delay = isRetryableNetworkError(error, idempotent)
+          ? getRetryDelay(this.retryOptions, attempt, startTime)
+          : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+
+        Logger.verbose(
+          `${method} ${requestUrl} failed (${error instanceof Error ? error.message : error}), ` +
+            `retrying in ${delay}ms (attempt ${attempt + 2}/${this.retryOptions.maxRetries + 1})`
+        );
+        await wait(delay);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+
+        const delay = isRetryableStatus(response.status, idempotent)
+          ? getRetryDelay(
+              this.retryOptions,
+              attempt,
+              startTime,
+              parseRetryAfter(response.headers.get("retry-after"))
+            )
+          : undefined;
+        if (delay !== undefined) {
+          Logger.verbose(
+            `${method} ${requestUrl} returned HTTP ${response.status}, ` +
+              `retrying in ${delay}ms (attempt ${attempt + 2}/${this.retryOptions.maxRetries + 1})`
+          );
+          await wait(delay);
+          continue;
+        }
+
+        throw createApiError(
+          response.status,
+          new URL(requestUrl).pathname,
+          errorText,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+
+      return response;
+    }
+  }
+
   private async httpRequest<T>(
     method: string,
     requestUrl: string,
     headers: Record<string, string> = {},
-    body?: string | Buffer
+    body?: RequestBody,
+    idempotent = true
   ): Promise<T> {
-    const response = await fetch(requestUrl, {
+    const response = await this.sendRequest(
       method,
-      headers: {
-        ...headers,
-        "User-Agent": ChromeWebStoreClient.USER_AGENT,
-      },
-      body: body || undefined,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
+      requestUrl,
+      headers,
+      body,
+      idempotent
+    );
+    return ChromeWebStoreClient.parseResponse<T>(response);
+  }
 
+  private static async parseResponse<T>(response: Response): Promise<T> {
     const responseText = await response.text();
     return responseText ? (JSON.parse(responseText) as T) : ({} as T);
   }
@@ -97,7 +380,8 @@ export class ChromeWebStoreClient {
   private async makeRequest<T>(
     method: "GET" | "POST",
     apiPath: string,
-    body?: unknown
+    body?: unknown,
+    idempotent = true
   ): Promise<T> {
     const accessToken = await this.getAccessToken();
     const requestUrl = `${this.baseUrl}${apiPath}`;
@@ -113,34 +397,76 @@ export class ChromeWebStoreClient {
       requestBody = JSON.stringify(body);
     }
 
-    return this.httpRequest<T>(method, requestUrl, headers, requestBody);
+    return this.httpRequest<T>(
+      method,
+      requestUrl,
+      headers,
+      requestBody,
+      idempotent
+    );
   }
 
+  /**
+   * Uploads a package, streaming it from disk. Packages from
+   * RESUMABLE_UPLOAD_THRESHOLD on (or with `resumable`) use the resumable
+   * upload protocol, so an interrupted transfer continues from the last byte
+   * the server acknowledged.
+   */
   async uploadPackage(
     itemId: string,
-    filePath: string
+    filePath: string,
+    options: UploadPackageOptions = {}
   ): Promise<UploadItemPackageResponse> {
     if (!existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+      throw new CwsError(ErrorCode.FILE_NOT_FOUND, `File not found: ${filePath}`);
     }
 
-    const fileBuffer = readFileSync(filePath);
+    const totalBytes = statSync(filePath).size;
+    const resumable =
+      options.resumable ??
+      totalBytes >= ChromeWebStoreClient.RESUMABLE_UPLOAD_THRESHOLD;
+
+    // Reports the upload position, with the average throughput so far
+    const startTime = Date.now();
+    const reportProgress = (bytesSent: number): void => {
+      const elapsedSeconds = (Date.now() - startTime) / 1000;
+      options.onProgress?.({
+        bytesSent,
+        totalBytes,
+        bytesPerSecond: elapsedSeconds > 0 ? bytesSent / elapsedSeconds : 0,
+      });
+    };
+
+    return resumable
+      ? this.uploadResumable(
+          itemId,
+          filePath,
+          totalBytes,
+          options.chunkSize || ChromeWebStoreClient.RESUMABLE_CHUNK_SIZE,
+          reportProgress
+        )
+      : this.uploadMultipart(itemId, filePath, totalBytes, reportProgress);
+  }
+
+  private async uploadMultipart(
+    itemId: string,
+    filePath: string,
+    totalBytes: number,
+    reportProgress: (bytesSent: number) => void
+  ): Promise<UploadItemPackageResponse> {
     const boundary =
       "----WebKitFormBoundary" + Math.random().toString(36).substring(2);
     const filename = basename(filePath);
 
     // Create multipart form data manually
-    let body = "";
-    body += `--${boundary}\r\n`;
-    body += `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n`;
-    body += `Content-Type: application/octet-stream\r\n`;
-    body += `\r\n`;
-
-    const bodyBuffer = Buffer.concat([
-      Buffer.from(body),
-      fileBuffer,
-      Buffer.from(`\r\n--${boundary}--\r\n`),
-    ]);
+    let head = "";
+    head += `--${boundary}\r\n`;
+    head += `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n`;
+    head += `Content-Type: application/octet-stream\r\n`;
+    head += `\r\n`;
+
+    const headBuffer = Buffer.from(head);
+    const tailBuffer = Buffer.from(`\r\n--${boundary}--\r\n`);
 
     const accessToken = await this.getAccessToken();
     const requestUrl = this.getUploadUrl(itemId);
@@ -148,23 +474,174 @@ export class ChromeWebStoreClient {
     const headers = {
       Authorization: `Bearer ${accessToken}`,
       "Content-Type": `multipart/form-data; boundary=${boundary}`,
-      "Content-Length": bodyBuffer.length.toString(),
+      "Content-Length": (
+        headBuffer.length +
+        totalBytes +
+        tailBuffer.length
+      ).toString(),
     };
 
     return this.httpRequest<UploadItemPackageResponse>(
       "POST",
       requestUrl,
       headers,
-      bodyBuffer
+      async function* () {
+        let bytesSent = 0;
+        yield headBuffer;
+        yield* readFileRange(filePath, 0, totalBytes, (bytes) =>
+          reportProgress((bytesSent += bytes))
+        );
+        yield tailBuffer;
+      },
+      false
     );
   }
 
+  /**
+   * Uploads a package with the resumable upload protocol: a session is
+   * started, then the package is sent in chunks. The server acknowledges each
+   * chunk with HTTP 308 and the range it has received. After a failure, the
+   * client asks the session how much arrived and carries on from there.
+   */
+  private async uploadResumable(
+    itemId: string,
+    filePath: string,
+    totalBytes: number,
+    chunkSize: number,
+    reportProgress: (bytesSent: number) => void
+  ): Promise<UploadItemPackageResponse> {
+    // Starting a session has no effect until data is sent, so it is retried
+    // like an idempotent request
+    const session = await this.sendRequest(
+      "POST",
+      `${this.getUploadUrl(itemId)}?uploadType=resumable`,
+      {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        "X-Upload-Content-Type": "application/zip",
+        "X-Upload-Content-Length": totalBytes.toString(),
+      }
+    );
+    const sessionUrl = session.headers.get("location");
+    if (!sessionUrl) {
+      throw new CwsError(
+        ErrorCode.UPLOAD_FAILED,
+        "The upload session was not created: the response had no Location header"
+      );
+    }
+    Logger.verbose(`Resumable upload session: ${sessionUrl}`);
+
+    let offset = 0;
+    // After a failure, the next request asks for the upload status instead of
+    // sending data
+    let queryStatus = false;
+    let startTime = Date.now();
+
+    for (let attempt = 0; ;) {
+      const end = Math.min(offset + chunkSize, totalBytes);
+      let chunkSent = offset;
+      let response: Response | undefined;
+      let failure: unknown;
+      // Long uploads can outlive the access token
+      const accessToken = await this.getAccessToken();
+      const { signal, touch } = this.createRequestSignal();
+
+      try {
+        response = await this.fetch(sessionUrl, {
+          method: "PUT",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "User-Agent": ChromeWebStoreClient.USER_AGENT,
+            "Content-Length": queryStatus ? "0" : (end - offset).toString(),
+            "Content-Range":
+              queryStatus || totalBytes === 0
+                ? `bytes */${totalBytes}`
+                : `bytes ${offset}-${end - 1}/${totalBytes}`,
+          },
+          body: queryStatus
+            ? undefined
+            : reportActivity(
+                readFileRange(filePath, offset, end, (bytes) =>
+                  reportProgress((chunkSent += bytes))
+                ),
+                touch
+              ),
+          duplex: queryStatus ? undefined : "half",
+          signal,
+        });
+      } catch (error) {
+        failure = this.getRequestFailure(error, "PUT", sessionUrl);
+      }
+
+      if (response?.ok) {
+        reportProgress(totalBytes);
+        return ChromeWebStoreClient.parseResponse<UploadItemPackageResponse>(
+          response
+        );
+      }
+
+      if (response?.status === 308) {
+        const acknowledged = getResumeOffset(response.headers.get("range"));
+        const progressed = acknowledged > offset;
+        // Progress resets the retry budget
+        if (progressed) {
+          attempt = 0;
+          startTime = Date.now();
+        }
+        offset = acknowledged;
+        reportProgress(offset);
+
+        // The answer to a status query only tells where to carry on from
+        if (progressed || queryStatus) {
+          queryStatus = false;
+          continue;
+        }
+        // A chunk that was not taken counts as a failed attempt, so a server
+        // that never moves the range cannot keep the upload going forever
+        failure = new CwsError(
+          ErrorCode.UPLOAD_FAILED,
+          `The upload session did not acknowledge the bytes from ${offset} of ${totalBytes}`
+        );
+      } else if (response) {
+        const error = createApiError(
+          response.status,
+          new URL(sessionUrl).pathname,
+          await response.text(),
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+        if (!isRetryableStatus(response.status, true)) {
+          throw error;
+        }
+        failure = error;
+      }
+
+      const delay = getRetryDelay(
+        this.retryOptions,
+        attempt,
+        startTime,
+        parseRetryAfter(response?.headers.get("retry-after") ?? null)
+      );
+      if (delay === undefined) {
+        throw failure;
+      }
+
+      attempt++;
+      Logger.verbose(
+        `Upload interrupted at byte ${offset} of ${totalBytes} ` +
+          `(${failure instanceof Error ? failure.message : failure}), ` +
+          `resuming in ${delay}ms (attempt ${attempt + 1}/${this.retryOptions.maxRetries + 1})`
+      );
+      await wait(delay);
+      queryStatus = true;
+    }
+  }
+
   async publishItem(
     itemId: string,
     request: PublishItemRequest
   ): Promise<PublishItemResponse> {
     const path = this.getApiPath(itemId, "publish");
-    return this.makeRequest<PublishItemResponse>("POST", path, request);
+    // Publishing twice could submit twice, so never retry it blindly
+    return this.makeRequest<PublishItemResponse>("POST", path, request, false);
   }
 
   async fetchItemStatus(itemId: string): Promise<FetchItemStatusResponse> {
@@ -185,6 +662,38 @@ export class ChromeWebStoreClient {
     await this.makeRequest<void>("POST", path, request);
   }
 
+  /**
+   * Polls the item until its submission reaches one of the given states
+   */
+  async waitForSubmissionState(
+    itemId: string,
+    states: ItemState[],
+    maxWaitTime: number,
+    pollInterval = ChromeWebStoreClient.POLL_INTERVAL_MS,
+    onPoll?: (status: FetchItemStatusResponse) => void
+  ): Promise<FetchItemStatusResponse> {
+    const startTime = Date.now();
+
+    for (;;) {
+      const status = await this.fetchItemStatus(itemId);
+      onPoll?.(status);
+
+      const state = getSubmissionState(status);
+      if (state && states.includes(state)) {
+        return status;
+      }
+
+      const remaining = maxWaitTime - (Date.now() - startTime);
+      if (remaining <= 0) {
+        throw new CwsError(
+          ErrorCode.TIMEOUT,
+          `Review timeout: ${states.join(", ")} not reached within the maximum wait time`
+        );
+      }
+      await wait(Math.min(pollInterval, remaining));
+    }
+  }
+
   async waitForUploadCompletion(
     itemId: string,
     maxWaitTime = 300000
@@ -204,6 +713,9 @@ export class ChromeWebStoreClient {
       }
     }
 
-    throw new Error("Upload timeout: Maximum wait time exceeded");
+    throw new CwsError(
+      ErrorCode.TIMEOUT,
+      "Upload timeout: Maximum wait time exceeded"
+    );
   }
 }
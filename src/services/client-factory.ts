@@ -0,0 +1,118 @@
+import { CliOptions, ErrorCode, FetchFunction, RetryOptions } from "../types";
+import { CwsError } from "../utils/errors";
+import { ConfigManager } from "../utils/config";
+import { Logger } from "../utils/logger";
+import { ArtifactCache } from "./artifact-cache";
+import { ChromeWebStoreClient } from "./chrome-webstore-client";
+import { FakeStore, logFakeStoreRequest } from "./fake-store";
+import { createHttpTransport } from "./http-transport";
+
+export type ClientProvider = () => Promise<ChromeWebStoreClient>;
+
+// Environment variables that point the client at another server, such as
+// the emulator
+const API_URL_ENV_VAR = "CWS_API_URL";
+const TOKEN_URL_ENV_VAR = "CWS_TOKEN_URL";
+
+// Helper function to read the retry policy from --max-retries and --retry-timeout
+function getRetryOptions(opts: CliOptions): Partial<RetryOptions> {
+  const retry: Partial<RetryOptions> = {};
+
+  if (opts.maxRetries !== undefined) {
+    const maxRetries = parseInt(opts.maxRetries, 10);
+    if (isNaN(maxRetries) || maxRetries < 0) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        "Max retries must be a non-negative integer"
+      );
+    }
+    retry.maxRetries = maxRetries;
+  }
+
+  if (opts.retryTimeout !== undefined) {
+    const retryTimeout = parseInt(opts.retryTimeout, 10);
+    if (isNaN(retryTimeout) || retryTimeout < 0) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        "Retry timeout must be a non-negative number of seconds"
+      );
+    }
+    retry.retryTimeout = retryTimeout * 1000;
+  }
+
+  return retry;
+}
+
+// Helper function to read the time limit of each request from --request-timeout
+function getRequestTimeout(opts: CliOptions): number | undefined {
+  if (opts.requestTimeout === undefined) {
+    return undefined;
+  }
+
+  const timeout = Number(opts.requestTimeout);
+  if (isNaN(timeout) || timeout <= 0) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Request timeout must be a positive number of seconds"
+    );
+  }
+  return timeout * 1000;
+}
+
+/**
+ * Creates the HTTP transport of the CLI: requests go through HTTPS_PROXY or
+ * HTTP_PROXY unless NO_PROXY lists the host, and --ca-file adds a trusted
+ * root certificate
+ */
+export function createTransport(opts: CliOptions): FetchFunction {
+  return createHttpTransport({ caFile: opts.caFile });
+}
+
+/**
+ * Creates a client from the configuration selected by the global CLI options.
+ * With --dry, the client talks to an in-process fake store instead, where
+ * items start out published at the newest version in the artifact cache.
+ */
+export async function createClient(
+  opts: CliOptions
+): Promise<ChromeWebStoreClient> {
+  const retry = getRetryOptions(opts);
+  const timeout = getRequestTimeout(opts);
+  const config = await ConfigManager.loadConfig(opts.config, opts.profile);
+
+  if (opts.dry) {
+    Logger.yellow(
+      "🏃 Dry run mode - requests go to a simulated store and are only logged"
+    );
+    const store = new FakeStore({
+      getPublishedVersion: (itemId) =>
+        ArtifactCache.list(itemId).pop()?.version,
+      onRequest: logFakeStoreRequest,
+    });
+    return new ChromeWebStoreClient(config, {
+      retry,
+      timeout,
+      fetch: store.fetch,
+    });
+  }
+
+  return new ChromeWebStoreClient(config, {
+    retry,
+    timeout,
+    fetch: createTransport(opts),
+    baseUrl: process.env[API_URL_ENV_VAR] || undefined,
+    tokenUrl: process.env[TOKEN_URL_ENV_VAR] || undefined,
+  });
+}
+
+/**
+ * Returns a function that creates the client on first use and reuses it
+ * afterwards, so items processed together share one access token
+ */
+export function createClientProvider(opts: CliOptions): ClientProvider {
+  let client: Promise<ChromeWebStoreClient> | undefined;
+  return () => {
+    client = client || createClient(opts);
+    return client;
+  };
+}
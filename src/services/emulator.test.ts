@@ -0,0 +1,46 @@
+import { EmulatorServer } from "./emulator";
+
+describe("EmulatorServer", () => {
+  let emulator: EmulatorServer;
+
+  beforeEach(async () => {
+    emulator = await EmulatorServer.start();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await emulator.close();
+  });
+
+  it("answers a failure before the response started with HTTP 500", async () => {
+    jest.spyOn(emulator.store, "fetch").mockRejectedValue(new Error("boom"));
+
+    const response = await fetch(`${emulator.url}/v2/items/x:fetchStatus`);
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: { code: 500, message: "boom", status: "INTERNAL" },
+    });
+  });
+
+  it("cuts the connection on a failure after the response started", async () => {
+    const body = new Response("{}", {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+    jest.spyOn(body, "arrayBuffer").mockRejectedValue(new Error("boom"));
+    jest.spyOn(emulator.store, "fetch").mockResolvedValue(body);
+
+    // Without the cut, the response would never end
+    await expect(
+      fetch(`${emulator.url}/v2/items/x:fetchStatus`, {
+        signal: AbortSignal.timeout(5000),
+      }).then((response) => response.text())
+    ).rejects.toMatchObject({ name: "TypeError" });
+
+    // The server keeps serving other requests
+    jest.restoreAllMocks();
+    const response = await fetch(`${emulator.url}/emulator/requests`);
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,177 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { EmulatorOptions, FakeItemConfig } from "../types";
+import { FakeStore } from "./fake-store";
+
+const CONTROL_PREFIX = "/emulator";
+const CONTROL_ITEM_PATH = /^\/emulator\/items\/([^/]+)$/;
+
+// Request bodies the fake store reads as text rather than binary data
+const TEXT_CONTENT_TYPES = [
+  "application/json",
+  "application/x-www-form-urlencoded",
+];
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+}
+
+function sendJson(response: ServerResponse, body: unknown, status = 200): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Serves a FakeStore over HTTP, as a stand-in for
+ * chromewebstore.googleapis.com and the OAuth token endpoint. Point a
+ * ChromeWebStoreClient at it with the `baseUrl` and `tokenUrl` options.
+ *
+ * Besides the API, the server answers control requests for tests:
+ * `GET /emulator/requests`, `POST /emulator/reset`, and
+ * `GET`/`PUT /emulator/items/<item-id>` to read or set up an item.
+ */
+export class EmulatorServer {
+  readonly store: FakeStore;
+  private server: Server;
+  private address?: AddressInfo;
+
+  private constructor(options: EmulatorOptions) {
+    this.store = new FakeStore(options);
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        // Once the status line is sent, the response can only be cut short
+        if (response.headersSent) {
+          response.destroy(
+            error instanceof Error ? error : new Error(String(error))
+          );
+          return;
+        }
+        sendJson(
+          response,
+          {
+            error: {
+              code: 500,
+              message: error instanceof Error ? error.message : String(error),
+              status: "INTERNAL",
+            },
+          },
+          500
+        );
+      });
+    });
+  }
+
+  /**
+   * Starts an emulator and resolves once it is listening
+   */
+  static async start(options: EmulatorOptions = {}): Promise<EmulatorServer> {
+    const emulator = new EmulatorServer(options);
+    await new Promise<void>((resolve, reject) => {
+      emulator.server.once("error", reject);
+      emulator.server.listen(
+        options.port ?? 0,
+        options.host ?? "127.0.0.1",
+        () => resolve()
+      );
+    });
+    emulator.address = emulator.server.address() as AddressInfo;
+    return emulator;
+  }
+
+  // Base URL of the API, for ChromeWebStoreClientOptions.baseUrl
+  get url(): string {
+    const host = this.address!.address.includes(":")
+      ? `[${this.address!.address}]`
+      : this.address!.address;
+    return `http://${host}:${this.address!.port}`;
+  }
+
+  // Token endpoint, for ChromeWebStoreClientOptions.tokenUrl
+  get tokenUrl(): string {
+    return `${this.url}/token`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async handle(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const method = request.method || "GET";
+    const path = new URL(request.url || "/", this.url).pathname;
+    const body = await readBody(request);
+
+    if (path.startsWith(CONTROL_PREFIX + "/")) {
+      this.handleControl(method, path, body, response);
+      return;
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).map(([name, value]) => [
+        name,
+        Array.isArray(value) ? value.join(", ") : value || "",
+      ])
+    );
+    const contentType = headers["content-type"] || "";
+    const isText = TEXT_CONTENT_TYPES.some((type) =>
+      contentType.startsWith(type)
+    );
+
+    const result = await this.store.fetch(`${this.url}${request.url}`, {
+      method,
+      headers,
+      body:
+        body.length === 0 ? undefined : isText ? body.toString("utf8") : body,
+    });
+
+    response.writeHead(result.status, Object.fromEntries(result.headers));
+    response.end(Buffer.from(await result.arrayBuffer()));
+  }
+
+  private handleControl(
+    method: string,
+    path: string,
+    body: Buffer,
+    response: ServerResponse
+  ): void {
+    const itemMatch = CONTROL_ITEM_PATH.exec(path);
+
+    if (method === "GET" && path === `${CONTROL_PREFIX}/requests`) {
+      sendJson(response, this.store.requests);
+    } else if (method === "POST" && path === `${CONTROL_PREFIX}/reset`) {
+      this.store.reset();
+      sendJson(response, {});
+    } else if (itemMatch && method === "GET") {
+      sendJson(response, this.store.getItemStatus(itemMatch[1]));
+    } else if (itemMatch && method === "PUT") {
+      let config: FakeItemConfig;
+      try {
+        config = JSON.parse(body.toString("utf8") || "{}") as FakeItemConfig;
+      } catch {
+        sendJson(
+          response,
+          { error: { code: 400, message: "Invalid JSON body" } },
+          400
+        );
+        return;
+      }
+      this.store.configureItem(itemMatch[1], config);
+      sendJson(response, this.store.getItemStatus(itemMatch[1]));
+    } else {
+      sendJson(
+        response,
+        { error: { code: 404, message: `Unknown control path ${path}` } },
+        404
+      );
+    }
+  }
+}
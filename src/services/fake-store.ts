@@ -0,0 +1,657 @@
+import {
+  FakeItemConfig,
+  FakeStoreBehavior,
+  FakeStoreOptions,
+  FakeStoreRequest,
+  FetchItemStatusResponse,
+  ItemState,
+  PublishItemRequest,
+  PublishType,
+  SetPublishedDeployPercentageRequest,
+  UploadState,
+} from "../types";
+import { Logger } from "../utils/logger";
+import { getSubmissionState } from "../utils/review";
+import { ZipArchive } from "../utils/zip";
+import {
+  bumpVersion,
+  compareVersions,
+  getHighestStoreVersion,
+} from "../utils/version";
+import { readManifest } from "./package-inspector";
+
+const REDACTED = "[REDACTED]";
+
+// Token request fields that carry credentials
+const SECRET_FORM_FIELDS = ["client_secret", "refresh_token", "assertion"];
+
+const ITEM_PATH = /\/v2\/publishers\/([^/]+)\/items\/([^/:]+):(\w+)$/;
+
+// A resumable upload in progress
+interface UploadSession {
+  item: FakeItem;
+  totalBytes: number;
+  received: Buffer;
+}
+
+// A state change that completes once its delay has passed
+interface PendingChange {
+  startedAt: number;
+  delayMs?: number;
+}
+
+interface FakeItem {
+  status: FetchItemStatusResponse;
+  behavior: FakeStoreBehavior;
+  // Version of an uploaded package that has not been submitted yet
+  draftVersion?: string;
+  processing?: PendingChange & { version: string };
+  review?: PendingChange & { staged: boolean };
+  // HTTP 429 responses still to send
+  rateLimitedRequests: number;
+}
+
+// An error response in the shape Google APIs use
+class FakeStoreError extends Error {
+  constructor(
+    readonly status: number,
+    readonly reason: string,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function getHeader(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  );
+  return key === undefined ? undefined : headers[key];
+}
+
+function redactHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      name.toLowerCase() === "authorization"
+        ? value.replace(/ .*$/, ` ${REDACTED}`)
+        : value,
+    ])
+  );
+}
+
+// Helper function to describe a request body without its secrets or binary data
+function describeBody(
+  body: RequestInit["body"],
+  contentType = ""
+): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body !== "string") {
+    const size = Buffer.isBuffer(body) ? body.length : undefined;
+    return `<${contentType.split(";")[0] || "binary"} body${size === undefined ? "" : `, ${size} bytes`}>`;
+  }
+  if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    const form = new URLSearchParams(body);
+    SECRET_FORM_FIELDS.filter((field) => form.has(field)).forEach((field) =>
+      form.set(field, REDACTED)
+    );
+    return decodeURIComponent(form.toString());
+  }
+  return body;
+}
+
+// Helper function to read a streamed request body into a Buffer
+async function readRequestBody(
+  body: RequestInit["body"]
+): Promise<RequestInit["body"]> {
+  if (
+    body === undefined ||
+    body === null ||
+    typeof body === "string" ||
+    Buffer.isBuffer(body)
+  ) {
+    return body;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of body as AsyncIterable<Uint8Array>) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Helper function to take the package out of a multipart upload body
+function readMultipartFile(body: RequestInit["body"]): Buffer {
+  if (!Buffer.isBuffer(body)) {
+    throw new FakeStoreError(400, "INVALID_ARGUMENT", "Missing package data");
+  }
+  const start = body.indexOf("\r\n\r\n") + 4;
+  const end = body.lastIndexOf("\r\n--");
+  return body.subarray(start, end > start ? end : undefined);
+}
+
+// Helper function to read the manifest version of an uploaded package
+function readPackageVersion(zip: Buffer): string {
+  try {
+    const version = readManifest(new ZipArchive(zip)).version;
+    if (!version) {
+      throw new Error("missing version");
+    }
+    return version;
+  } catch (error) {
+    throw new FakeStoreError(
+      400,
+      "INVALID_ARGUMENT",
+      `Invalid package: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Prints a request received by the fake store: method, URL, headers and body
+ */
+export function logFakeStoreRequest(request: FakeStoreRequest): void {
+  Logger.gray(`→ ${request.method} ${request.url}`);
+  Object.entries(request.headers).forEach(([name, value]) =>
+    Logger.gray(`    ${name}: ${value}`)
+  );
+  if (request.body !== undefined) {
+    Logger.gray(`    ${request.body}`);
+  }
+}
+
+/**
+ * An in-process stand-in for the Chrome Web Store API and its OAuth token
+ * endpoint, used by dry runs and the emulator.
+ *
+ * Items start out published with a 100% deploy percentage, with a newer
+ * package uploaded but not yet submitted, so both uploads and publishes can
+ * be tried. Uploads finish processing, and submissions finish review, once
+ * their delay has passed, or on the next status check without one. How each
+ * item behaves can be scripted with a FakeStoreBehavior.
+ */
+export class FakeStore {
+  readonly requests: FakeStoreRequest[] = [];
+  private items = new Map<string, FakeItem>();
+  private tokens = new Set<string>();
+  private uploadSessions = new Map<string, UploadSession>();
+
+  constructor(private options: FakeStoreOptions = {}) {}
+
+  /**
+   * Handles a request the client would have sent to Google, in place of fetch
+   */
+  fetch = async (url: string, init: RequestInit): Promise<Response> => {
+    const method = init.method || "GET";
+    const headers = (init.headers || {}) as Record<string, string>;
+    const body = await readRequestBody(init.body);
+    const request: FakeStoreRequest = {
+      method,
+      url,
+      headers: redactHeaders(headers),
+      body: describeBody(body, getHeader(headers, "Content-Type")),
+    };
+    this.requests.push(request);
+    this.options.onRequest?.(request);
+
+    try {
+      const result = this.route(method, new URL(url), headers, body);
+      return result instanceof Response ? result : jsonResponse(result);
+    } catch (error) {
+      if (!(error instanceof FakeStoreError)) {
+        throw error;
+      }
+      return jsonResponse(
+        {
+          error: {
+            code: error.status,
+            message: error.message,
+            status: error.reason,
+          },
+        },
+        error.status,
+        error.headers
+      );
+    }
+  };
+
+  /**
+   * Replaces an item with a fresh one set up from the config
+   */
+  configureItem(itemId: string, config: FakeItemConfig): void {
+    this.items.set(itemId, this.createItem(itemId, config));
+  }
+
+  /**
+   * Returns an item's status as the API would, without applying any pending
+   * state change
+   */
+  getItemStatus(itemId: string): FetchItemStatusResponse {
+    return JSON.parse(
+      JSON.stringify(this.getItem(itemId).status)
+    ) as FetchItemStatusResponse;
+  }
+
+  /**
+   * Forgets every item, upload session and recorded request. Issued tokens
+   * stay valid, so clients keep working across a reset.
+   */
+  reset(): void {
+    this.items.clear();
+    this.uploadSessions.clear();
+    this.requests.length = 0;
+  }
+
+  private route(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    body: RequestInit["body"]
+  ): unknown {
+    if (url.pathname.endsWith("/token")) {
+      const token = `fake-access-token-${this.tokens.size + 1}`;
+      this.tokens.add(token);
+      return { access_token: token, expires_in: 3600, token_type: "Bearer" };
+    }
+
+    const match = ITEM_PATH.exec(url.pathname);
+    if (!match) {
+      throw new FakeStoreError(
+        404,
+        "NOT_FOUND",
+        `Unknown path ${url.pathname}`
+      );
+    }
+
+    const token = getHeader(headers, "Authorization")?.replace(/^Bearer /, "");
+    if (!token || !this.tokens.has(token)) {
+      throw new FakeStoreError(
+        401,
+        "UNAUTHENTICATED",
+        "Request is missing a valid access token"
+      );
+    }
+
+    const item = this.getItem(match[2]);
+    this.checkRateLimit(item);
+    this.applyPendingChanges(item, false);
+
+    const action = `${method} ${match[3]}`;
+    switch (action) {
+      case "POST upload":
+        return url.searchParams.get("uploadType") === "resumable"
+          ? this.startUploadSession(item, url, headers)
+          : this.upload(item, readMultipartFile(body));
+      case "PUT upload":
+        return this.continueUploadSession(item, url, headers, body);
+      case "POST publish":
+        return this.publish(item, this.parseJson(body));
+      case "GET fetchStatus":
+        this.applyPendingChanges(item, true);
+        return item.status;
+      case "POST cancelSubmission":
+        return this.cancelSubmission(item);
+      case "POST setPublishedDeployPercentage":
+        return this.setPublishedDeployPercentage(item, this.parseJson(body));
+      default:
+        throw new FakeStoreError(
+          404,
+          "NOT_FOUND",
+          `Unknown method ${action} for ${url.pathname}`
+        );
+    }
+  }
+
+  private parseJson<T>(body: RequestInit["body"]): T {
+    const text = Buffer.isBuffer(body) ? body.toString("utf8") : body;
+    try {
+      return JSON.parse(typeof text === "string" && text ? text : "{}") as T;
+    } catch {
+      throw new FakeStoreError(400, "INVALID_ARGUMENT", "Invalid JSON body");
+    }
+  }
+
+  private createItem(itemId: string, config: FakeItemConfig = {}): FakeItem {
+    const version =
+      config.version || this.options.getPublishedVersion?.(itemId) || "0.0.0";
+    const behavior = { ...this.options.behavior, ...config.behavior };
+
+    return {
+      status: {
+        itemId,
+        name: config.name,
+        publishedItemRevisionStatus: {
+          state: ItemState.PUBLISHED,
+          distributionChannels: [
+            { crxVersion: version, deployPercentage: 100 },
+          ],
+        },
+        lastAsyncUploadState: UploadState.SUCCEEDED,
+        takenDown: behavior.takenDown || undefined,
+        warned: behavior.warned || undefined,
+      },
+      behavior,
+      draftVersion: bumpVersion(version, "patch"),
+      rateLimitedRequests: behavior.rateLimitedRequests || 0,
+    };
+  }
+
+  private getItem(itemId: string): FakeItem {
+    let item = this.items.get(itemId);
+    if (!item) {
+      item = this.createItem(itemId, this.options.items?.[itemId]);
+      this.items.set(itemId, item);
+    }
+    return item;
+  }
+
+  private checkRateLimit(item: FakeItem): void {
+    if (item.rateLimitedRequests <= 0) {
+      return;
+    }
+    item.rateLimitedRequests -= 1;
+    throw new FakeStoreError(
+      429,
+      "RESOURCE_EXHAUSTED",
+      "Quota exceeded",
+      item.behavior.retryAfterSeconds === undefined
+        ? {}
+        : { "Retry-After": String(item.behavior.retryAfterSeconds) }
+    );
+  }
+
+  private isDue(change: PendingChange, statusCheck: boolean): boolean {
+    return change.delayMs === undefined
+      ? statusCheck
+      : Date.now() >= change.startedAt + change.delayMs;
+  }
+
+  // Finishes upload processing and reviews whose time has come
+  private applyPendingChanges(item: FakeItem, statusCheck: boolean): void {
+    if (item.processing && this.isDue(item.processing, statusCheck)) {
+      if (item.behavior.failUploads) {
+        item.status.lastAsyncUploadState = UploadState.FAILED;
+      } else {
+        item.draftVersion = item.processing.version;
+        item.status.lastAsyncUploadState = UploadState.SUCCEEDED;
+      }
+      item.processing = undefined;
+    }
+
+    if (item.review && this.isDue(item.review, statusCheck)) {
+      this.completeReview(item);
+    }
+  }
+
+  private assertNotTakenDown(item: FakeItem): void {
+    if (item.status.takenDown) {
+      throw new FakeStoreError(
+        400,
+        "FAILED_PRECONDITION",
+        "The item has been taken down"
+      );
+    }
+  }
+
+  private upload(item: FakeItem, zip: Buffer): unknown {
+    this.assertNotTakenDown(item);
+    if (item.review) {
+      throw new FakeStoreError(
+        400,
+        "FAILED_PRECONDITION",
+        "The item is pending review and cannot be updated"
+      );
+    }
+
+    const version = readPackageVersion(zip);
+    const storeVersion = getHighestStoreVersion(item.status);
+    if (storeVersion && compareVersions(version, storeVersion) <= 0) {
+      throw new FakeStoreError(
+        400,
+        "INVALID_ARGUMENT",
+        `Package version ${version} must be greater than ${storeVersion}`
+      );
+    }
+
+    item.processing = {
+      version,
+      startedAt: Date.now(),
+      delayMs: item.behavior.processingDelayMs,
+    };
+    item.status.lastAsyncUploadState = UploadState.IN_PROGRESS;
+    return {
+      itemId: item.status.itemId,
+      uploadState: UploadState.IN_PROGRESS,
+      crxVersion: version,
+    };
+  }
+
+  // Starts a resumable upload; the Location header is the URL to send the
+  // package to
+  private startUploadSession(
+    item: FakeItem,
+    url: URL,
+    headers: Record<string, string>
+  ): Response {
+    const totalBytes = Number(getHeader(headers, "X-Upload-Content-Length"));
+    if (!Number.isInteger(totalBytes) || totalBytes < 0) {
+      throw new FakeStoreError(
+        400,
+        "INVALID_ARGUMENT",
+        "X-Upload-Content-Length must be the package size"
+      );
+    }
+
+    const uploadId = String(this.uploadSessions.size + 1);
+    this.uploadSessions.set(uploadId, {
+      item,
+      totalBytes,
+      received: Buffer.alloc(0),
+    });
+
+    const sessionUrl = new URL(url);
+    sessionUrl.searchParams.set("upload_id", uploadId);
+    return new Response(null, {
+      status: 200,
+      headers: { Location: sessionUrl.toString() },
+    });
+  }
+
+  // Takes a chunk of a resumable upload ("Content-Range: bytes 0-99/500"), or
+  // reports how much has arrived ("Content-Range: bytes */500"). Until the
+  // package is complete, the answer is HTTP 308 with the received range.
+  private continueUploadSession(
+    item: FakeItem,
+    url: URL,
+    headers: Record<string, string>,
+    body: RequestInit["body"]
+  ): unknown {
+    const session = this.uploadSessions.get(
+      url.searchParams.get("upload_id") || ""
+    );
+    if (!session || session.item !== item) {
+      throw new FakeStoreError(404, "NOT_FOUND", "Unknown upload session");
+    }
+
+    const range = /^bytes (?:(\d+)-\d+|\*)\/\d+$/.exec(
+      getHeader(headers, "Content-Range") || ""
+    );
+    if (!range) {
+      throw new FakeStoreError(
+        400,
+        "INVALID_ARGUMENT",
+        "Content-Range must be bytes <first>-<last>/<total> or bytes */<total>"
+      );
+    }
+
+    if (range[1] !== undefined) {
+      const start = Number(range[1]);
+      if (start > session.received.length) {
+        throw new FakeStoreError(
+          400,
+          "INVALID_ARGUMENT",
+          `Chunk starts at byte ${start}, but only ${session.received.length} bytes were received`
+        );
+      }
+      const chunk = Buffer.isBuffer(body)
+        ? body
+        : Buffer.from(typeof body === "string" ? body : "");
+      session.received = Buffer.concat([
+        session.received.subarray(0, start),
+        chunk,
+      ]);
+    }
+
+    if (session.received.length < session.totalBytes) {
+      return new Response(null, {
+        status: 308,
+        headers:
+          session.received.length > 0
+            ? { Range: `bytes=0-${session.received.length - 1}` }
+            : {},
+      });
+    }
+
+    this.uploadSessions.delete(url.searchParams.get("upload_id")!);
+    return this.upload(item, session.received.subarray(0, session.totalBytes));
+  }
+
+  private publish(item: FakeItem, request: PublishItemRequest): unknown {
+    this.assertNotTakenDown(item);
+
+    // Publishing an approved, staged submission makes it live
+    const submitted = item.status.submittedItemRevisionStatus;
+    if (!item.draftVersion && submitted?.state === ItemState.STAGED) {
+      const channel = submitted.distributionChannels?.[0];
+      if (channel && request.deployInfos?.[0]) {
+        channel.deployPercentage = request.deployInfos[0].deployPercentage;
+      }
+      item.status.publishedItemRevisionStatus = {
+        ...submitted,
+        state: ItemState.PUBLISHED,
+      };
+      item.status.submittedItemRevisionStatus = undefined;
+      return { itemId: item.status.itemId, state: ItemState.PUBLISHED };
+    }
+
+    if (!item.draftVersion) {
+      throw new FakeStoreError(
+        400,
+        "FAILED_PRECONDITION",
+        "The item has no uploaded package to publish"
+      );
+    }
+
+    item.status.submittedItemRevisionStatus = {
+      state: ItemState.PENDING_REVIEW,
+      distributionChannels: [
+        {
+          crxVersion: item.draftVersion,
+          deployPercentage: request.deployInfos?.[0]?.deployPercentage ?? 100,
+        },
+      ],
+    };
+    item.draftVersion = undefined;
+    item.review = {
+      staged: request.publishType === PublishType.STAGED_PUBLISH,
+      startedAt: Date.now(),
+      delayMs: item.behavior.reviewDelayMs,
+    };
+
+    if (request.skipReview && !item.behavior.rejectReviews) {
+      this.completeReview(item);
+    }
+    return {
+      itemId: item.status.itemId,
+      state: getSubmissionState(item.status),
+    };
+  }
+
+  private cancelSubmission(item: FakeItem): unknown {
+    const submitted = item.status.submittedItemRevisionStatus;
+    if (
+      !submitted ||
+      ![ItemState.PENDING_REVIEW, ItemState.STAGED].includes(submitted.state!)
+    ) {
+      throw new FakeStoreError(
+        400,
+        "FAILED_PRECONDITION",
+        "The item has no submission to cancel"
+      );
+    }
+    submitted.state = ItemState.CANCELLED;
+    item.review = undefined;
+    return {};
+  }
+
+  private setPublishedDeployPercentage(
+    item: FakeItem,
+    request: SetPublishedDeployPercentageRequest
+  ): unknown {
+    const channel =
+      item.status.publishedItemRevisionStatus?.distributionChannels?.[0];
+    if (!channel) {
+      throw new FakeStoreError(
+        400,
+        "FAILED_PRECONDITION",
+        "The item has no published revision"
+      );
+    }
+
+    const { deployPercentage } = request;
+    if (
+      !Number.isInteger(deployPercentage) ||
+      deployPercentage < 0 ||
+      deployPercentage > 100
+    ) {
+      throw new FakeStoreError(
+        400,
+        "INVALID_ARGUMENT",
+        "Deploy percentage must be an integer between 0 and 100"
+      );
+    }
+    channel.deployPercentage = deployPercentage;
+    return {};
+  }
+
+  // Ends the review of the submission: a rejected or staged submission keeps
+  // its place, any other one becomes the published revision
+  private completeReview(item: FakeItem): void {
+    const submitted = item.status.submittedItemRevisionStatus;
+    const staged = item.review?.staged;
+    item.review = undefined;
+    if (!submitted) {
+      return;
+    }
+
+    if (item.behavior.rejectReviews) {
+      submitted.state = ItemState.REJECTED;
+    } else if (staged) {
+      submitted.state = ItemState.STAGED;
+    } else {
+      item.status.publishedItemRevisionStatus = {
+        ...submitted,
+        state: ItemState.PUBLISHED,
+      };
+      item.status.submittedItemRevisionStatus = undefined;
+    }
+  }
+}
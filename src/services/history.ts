@@ -0,0 +1,229 @@
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { userInfo } from "os";
+import { dirname, join } from "path";
+import {
+  CliOptions,
+  ErrorCode,
+  HistoryAction,
+  HistoryEntry,
+  HistoryFilter,
+  HistoryRecord,
+} from "../types";
+import { ConfigManager } from "../utils/config";
+import { CwsError, toErrorInfo } from "../utils/errors";
+import { Logger } from "../utils/logger";
+import { ZipArchive } from "../utils/zip";
+import { ChromeWebStoreClient } from "./chrome-webstore-client";
+import { readManifest } from "./package-inspector";
+
+const CSV_COLUMNS: (keyof HistoryEntry)[] = [
+  "timestamp",
+  "user",
+  "profile",
+  "publisherId",
+  "action",
+  "itemId",
+  "manifestVersion",
+  "packageSha256",
+  "success",
+  "state",
+  "params",
+  "error",
+];
+
+function getUserName(): string {
+  try {
+    return userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || "unknown";
+  }
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Keeps an audit trail of store-changing operations in
+ * ~/.cws-manager-cli/history.jsonl, one JSON entry per line. Failed
+ * operations are recorded too, with the error that ended them.
+ */
+export class HistoryManager {
+  static readonly ACTIONS: HistoryAction[] = [
+    "upload",
+    "publish",
+    "deploy",
+    "cancel",
+    "rollout",
+  ];
+
+  static getHistoryFile(): string {
+    return join(ConfigManager.getConfigDir(), "history.jsonl");
+  }
+
+  static parseAction(value: string): HistoryAction {
+    if (!HistoryManager.ACTIONS.includes(value as HistoryAction)) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Action must be one of: ${HistoryManager.ACTIONS.join(", ")}`
+      );
+    }
+    return value as HistoryAction;
+  }
+
+  /**
+   * Returns the SHA-256 and manifest version of a package, for upload records
+   */
+  static describePackage(
+    file: string
+  ): Pick<HistoryEntry, "packageSha256" | "manifestVersion"> {
+    const packageSha256 = createHash("sha256")
+      .update(readFileSync(file))
+      .digest("hex");
+
+    try {
+      return {
+        packageSha256,
+        manifestVersion: readManifest(ZipArchive.fromFile(file)).version,
+      };
+    } catch {
+      return { packageSha256 };
+    }
+  }
+
+  /**
+   * Appends an entry. A history that cannot be written never fails the
+   * operation it describes, so errors are only logged.
+   */
+  static append(entry: HistoryEntry): void {
+    const filePath = HistoryManager.getHistoryFile();
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      appendFileSync(filePath, JSON.stringify(entry) + "\n", {
+        encoding: "utf8",
+        mode: 0o600,
+      });
+    } catch (error) {
+      Logger.yellow(
+        `⚠️  Failed to write history to ${filePath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Runs a store-changing operation and records its outcome. `getState`
+   * picks the state reported in the API response. Dry runs are not recorded.
+   */
+  static async track<T>(
+    opts: CliOptions,
+    client: ChromeWebStoreClient,
+    record: HistoryRecord,
+    operation: () => Promise<T>,
+    getState?: (result: T) => string | undefined
+  ): Promise<T> {
+    // Dry runs only talk to the fake store, so there is nothing to record
+    if (opts.dry) {
+      return operation();
+    }
+
+    const base = {
+      timestamp: new Date().toISOString(),
+      user: getUserName(),
+      profile: ConfigManager.getActiveProfile(opts.config, opts.profile),
+      publisherId: client.getPublisherId(),
+      ...record,
+    };
+
+    try {
+      const result = await operation();
+      HistoryManager.append({
+        ...base,
+        success: true,
+        state: getState?.(result),
+      });
+      return result;
+    } catch (error) {
+      HistoryManager.append({
+        ...base,
+        success: false,
+        error: toErrorInfo(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the most recent successful upload of an item, whose package is
+   * the one a later publish submits
+   */
+  static findLastUpload(itemId: string): HistoryEntry | undefined {
+    return HistoryManager.load()
+      .reverse()
+      .find(
+        (entry) =>
+          entry.action === "upload" && entry.itemId === itemId && entry.success
+      );
+  }
+
+  /**
+   * Reads every entry, oldest first. Lines that are not valid JSON, such as
+   * a line cut short by a crash, are skipped.
+   */
+  static load(): HistoryEntry[] {
+    const filePath = HistoryManager.getHistoryFile();
+    if (!existsSync(filePath)) {
+      return [];
+    }
+
+    return readFileSync(filePath, "utf8")
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as HistoryEntry];
+        } catch {
+          Logger.verbose(`Skipping unreadable history line: ${line}`);
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Keeps the entries matching every set filter field; with a limit, only
+   * the most recent matches are kept
+   */
+  static filter(
+    entries: HistoryEntry[],
+    filter: HistoryFilter
+  ): HistoryEntry[] {
+    const matches = entries.filter((entry) => {
+      const time = Date.parse(entry.timestamp);
+      return (
+        (!filter.itemId || entry.itemId === filter.itemId) &&
+        (!filter.action || entry.action === filter.action) &&
+        (!filter.profile || entry.profile === filter.profile) &&
+        (!filter.user || entry.user === filter.user) &&
+        (!filter.manifestVersion ||
+          entry.manifestVersion === filter.manifestVersion) &&
+        (!filter.since || time >= filter.since.getTime()) &&
+        (!filter.until || time <= filter.until.getTime()) &&
+        (!filter.failedOnly || !entry.success)
+      );
+    });
+
+    return filter.limit ? matches.slice(-filter.limit) : matches;
+  }
+
+  static toCsv(entries: HistoryEntry[]): string {
+    const rows = entries.map((entry) =>
+      CSV_COLUMNS.map((column) => escapeCsv(entry[column])).join(",")
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+  }
+}
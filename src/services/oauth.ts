@@ -0,0 +1,235 @@
+import { createServer, Server } from "http";
+import { spawn } from "child_process";
+import { createHash, randomBytes } from "crypto";
+import { AddressInfo } from "net";
+import { ErrorCode, FetchFunction } from "../types";
+import { CwsError, createApiError } from "../utils/errors";
+import { ChromeWebStoreClient } from "./chrome-webstore-client";
+
+const AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface AuthorizationRequest {
+  url: string;
+  redirectUri: string;
+  state: string;
+  codeVerifier: string;
+}
+
+export interface LoopbackListener {
+  redirectUri: string;
+  waitForCode: (state: string) => Promise<string>;
+  close: () => void;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Builds the consent URL for the installed-app flow, with PKCE and a random
+ * state value to tie the redirect to this request
+ */
+export function createAuthorizationRequest(
+  clientId: string,
+  redirectUri: string
+): AuthorizationRequest {
+  const codeVerifier = base64Url(randomBytes(32));
+  const state = base64Url(randomBytes(16));
+  const codeChallenge = base64Url(
+    createHash("sha256").update(codeVerifier).digest()
+  );
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: ChromeWebStoreClient.SCOPE,
+    access_type: "offline",
+    // Always show consent so Google issues a new refresh token
+    prompt: "consent",
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+
+  return {
+    url: `${AUTH_URL}?${params.toString()}`,
+    redirectUri,
+    state,
+    codeVerifier,
+  };
+}
+
+/**
+ * Extracts the authorization code from a redirect URL (or its query string),
+ * checking the state and reporting consent errors
+ */
+export function parseAuthorizationResponse(
+  redirect: string,
+  expectedState: string
+): string {
+  const query = redirect.includes("?")
+    ? redirect.slice(redirect.indexOf("?") + 1)
+    : redirect;
+  const params = new URLSearchParams(query);
+
+  const error = params.get("error");
+  if (error) {
+    throw new CwsError(
+      ErrorCode.AUTHENTICATION_ERROR,
+      `Authorization was not granted: ${error}`
+    );
+  }
+
+  const code = params.get("code");
+  if (!code) {
+    // A bare code pasted by the user
+    if (!redirect.includes("=")) {
+      return redirect.trim();
+    }
+    throw new CwsError(
+      ErrorCode.AUTHENTICATION_ERROR,
+      "No authorization code found in the redirect"
+    );
+  }
+
+  const state = params.get("state");
+  if (state !== null && state !== expectedState) {
+    throw new CwsError(
+      ErrorCode.AUTHENTICATION_ERROR,
+      "Authorization state mismatch; please retry the login"
+    );
+  }
+
+  return code;
+}
+
+/**
+ * Starts an HTTP listener on a random loopback port to receive the OAuth
+ * redirect
+ */
+export async function startLoopbackListener(): Promise<LoopbackListener> {
+  let resolveRequest: (url: string) => void = () => undefined;
+  const redirected = new Promise<string>((resolve) => {
+    resolveRequest = resolve;
+  });
+
+  const server: Server = createServer((req, res) => {
+    const url = req.url || "/";
+    if (!url.includes("code=") && !url.includes("error=")) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(
+      "<html><body><h3>cws-manager: authorization received.</h3>" +
+        "<p>You can close this window and return to the terminal.</p></body></html>"
+    );
+    resolveRequest(url);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  let timer: NodeJS.Timeout | undefined;
+
+  return {
+    redirectUri: `http://127.0.0.1:${port}`,
+    waitForCode: async (state: string) => {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(
+              new CwsError(
+                ErrorCode.TIMEOUT,
+                "Timed out waiting for the browser authorization"
+              )
+            ),
+          LOGIN_TIMEOUT_MS
+        );
+      });
+      const url = await Promise.race([redirected, timeout]);
+      return parseAuthorizationResponse(url, state);
+    },
+    close: () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      server.close();
+    },
+  };
+}
+
+/**
+ * Tries to open a URL in the default browser. Failures are ignored since the
+ * URL is always printed as well.
+ */
+export function openBrowser(url: string): void {
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [url]]
+      : process.platform === "win32"
+        ? ["cmd", ["/c", "start", "", url]]
+        : ["xdg-open", [url]];
+
+  try {
+    const child = spawn(command, args, { stdio: "ignore", detached: true });
+    child.on("error", () => undefined);
+    child.unref();
+  } catch {
+    // No browser available; the user can open the printed URL
+  }
+}
+
+/**
+ * Exchanges an authorization code for tokens and returns the refresh token
+ */
+export async function exchangeAuthorizationCode(
+  clientId: string,
+  clientSecret: string,
+  code: string,
+  request: AuthorizationRequest,
+  transport: FetchFunction = fetch
+): Promise<string> {
+  const response = await transport(ChromeWebStoreClient.TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      client_id: clientId,
+      client_secret: clientSecret,
+      redirect_uri: request.redirectUri,
+      code_verifier: request.codeVerifier,
+    }).toString(),
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    throw createApiError(
+      response.status,
+      new URL(ChromeWebStoreClient.TOKEN_URL).pathname,
+      body
+    );
+  }
+
+  const tokens = JSON.parse(body) as { refresh_token?: string };
+  if (!tokens.refresh_token) {
+    throw new CwsError(
+      ErrorCode.AUTHENTICATION_ERROR,
+      "The token endpoint did not return a refresh token"
+    );
+  }
+
+  return tokens.refresh_token;
+}
@@ -0,0 +1,128 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { ZipArchive } from "../utils/zip";
+import {
+  listPackageFiles,
+  packDirectory,
+  writePackageWithVersion,
+} from "./package-builder";
+
+describe("package-builder", () => {
+  let dir: string;
+  let sourceDir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-pack-"));
+    sourceDir = join(dir, "extension");
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  function writeSource(files: Record<string, string>): void {
+    for (const [name, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(sourceDir, name)), { recursive: true });
+      writeFileSync(join(sourceDir, name), content);
+    }
+  }
+
+  describe("listPackageFiles", () => {
+    it("puts manifest.json first and sorts the rest", () => {
+      writeSource({
+        "popup.js": "",
+        "manifest.json": "{}",
+        "icons/48.png": "",
+        "background.js": "",
+      });
+
+      expect(listPackageFiles(sourceDir)).toEqual([
+        "manifest.json",
+        "background.js",
+        "icons/48.png",
+        "popup.js",
+      ]);
+    });
+
+    it("leaves out the default exclusions and the .cwsignore patterns", () => {
+      writeSource({
+        "manifest.json": "{}",
+        "background.js": "",
+        "background.js.map": "",
+        "node_modules/lib/index.js": "",
+        ".env": "",
+        "key.pem": "",
+        "docs/README.md": "",
+        "src/main.ts": "",
+        ".cwsignore": "docs/\n*.ts\n",
+      });
+
+      expect(listPackageFiles(sourceDir)).toEqual([
+        "manifest.json",
+        "background.js",
+      ]);
+    });
+  });
+
+  describe("packDirectory", () => {
+    it("packs the same contents into the same bytes", () => {
+      writeSource({
+        "manifest.json": '{"manifest_version":3,"version":"1.0.0"}',
+        "background.js": "console.log(1);\n",
+      });
+      const first = join(dir, "first.zip");
+      const second = join(dir, "second.zip");
+
+      packDirectory(sourceDir, first);
+      // Modification times are not part of the archive
+      utimesSync(join(sourceDir, "background.js"), 0, 0);
+      const result = packDirectory(sourceDir, second);
+
+      expect(readFileSync(second)).toEqual(readFileSync(first));
+      expect(result.files).toEqual([
+        { name: "manifest.json", size: 40 },
+        { name: "background.js", size: 16 },
+      ]);
+    });
+
+    it("refuses a directory without manifest.json", () => {
+      writeSource({ "background.js": "" });
+
+      expect(() => packDirectory(sourceDir, join(dir, "out.zip"))).toThrow(
+        "manifest.json not found"
+      );
+    });
+  });
+
+  describe("writePackageWithVersion", () => {
+    it("writes a copy with the new version and leaves the original alone", () => {
+      writeSource({
+        "manifest.json": '{"manifest_version":3,"version":"1.0.0"}',
+        "background.js": "console.log(1);\n",
+      });
+      const original = join(dir, "extension.zip");
+      packDirectory(sourceDir, original);
+      const before = readFileSync(original);
+
+      const copy = writePackageWithVersion(original, "1.0.1");
+      try {
+        const archive = ZipArchive.fromFile(copy);
+        expect(
+          JSON.parse(archive.read("manifest.json").toString()).version
+        ).toBe("1.0.1");
+        expect(archive.read("background.js").toString()).toBe(
+          "console.log(1);\n"
+        );
+        expect(readFileSync(original)).toEqual(before);
+      } finally {
+        rmSync(dirname(copy), { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { basename, extname, join, resolve } from "path";
+import { PackedFile, PackResult } from "../types";
+import { ZipArchive, createZip } from "../utils/zip";
+import { IgnoreMatcher } from "../utils/ignore";
+import { MANIFEST_FILE, readManifest } from "./package-inspector";
+
+/**
+ * Writes a copy of a package with the manifest version replaced.
+ *
+ * The original file is left untouched; the copy is written to a fresh
+ * temporary directory and its path is returned. CRX input produces a plain
+ * zip, since the original signature would no longer match.
+ */
+export function writePackageWithVersion(file: string, version: string): string {
+  const archive = ZipArchive.fromFile(file);
+  const manifest = readManifest(archive);
+  manifest.version = version;
+
+  const files = archive.entries
+    .filter((entry) => !entry.name.endsWith("/"))
+    .map((entry) => ({
+      name: entry.name,
+      data:
+        entry.name === MANIFEST_FILE
+          ? Buffer.from(JSON.stringify(manifest, null, 2) + "\n")
+          : archive.read(entry.name),
+    }));
+
+  const outputDir = mkdtempSync(join(tmpdir(), "cws-manager-"));
+  const outputPath = join(
+    outputDir,
+    `${basename(file, extname(file))}-${version}.zip`
+  );
+  writeFileSync(outputPath, createZip(files));
+
+  return outputPath;
+}
+
+export const IGNORE_FILE = ".cwsignore";
+
+// Files that never belong in a store package
+const DEFAULT_IGNORE_PATTERNS = [
+  ".git/",
+  ".svn/",
+  ".hg/",
+  "node_modules/",
+  ".idea/",
+  ".vscode/",
+  ".DS_Store",
+  "Thumbs.db",
+  "*.map",
+  "*.zip",
+  "*.crx",
+  "*.pem",
+  ".env",
+  ".env.*",
+  IGNORE_FILE,
+];
+
+function collectFiles(
+  rootDir: string,
+  relativeDir: string,
+  matcher: IgnoreMatcher,
+  files: string[]
+): void {
+  const entries = readdirSync(join(rootDir, relativeDir), {
+    withFileTypes: true,
+  });
+
+  for (const entry of entries) {
+    const relativePath = relativeDir
+      ? `${relativeDir}/${entry.name}`
+      : entry.name;
+    const isDirectory = entry.isDirectory();
+
+    if (matcher.ignores(relativePath, isDirectory)) {
+      continue;
+    }
+
+    if (isDirectory) {
+      collectFiles(rootDir, relativePath, matcher, files);
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+}
+
+/**
+ * Lists the files that would be packed from a source directory, honouring
+ * the default exclusions and the directory's .cwsignore file
+ */
+export function listPackageFiles(sourceDir: string): string[] {
+  const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+  const ignoreFile = join(sourceDir, IGNORE_FILE);
+  if (existsSync(ignoreFile)) {
+    matcher.add(readFileSync(ignoreFile, "utf8").split(/\r?\n/));
+  }
+
+  const files: string[] = [];
+  collectFiles(sourceDir, "", matcher, files);
+
+  // Sort for a deterministic archive, with manifest.json always first
+  return files.sort((a, b) => {
+    if (a === MANIFEST_FILE) return -1;
+    if (b === MANIFEST_FILE) return 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  });
+}
+
+/**
+ * Zips a source directory into a store package.
+ *
+ * The same directory contents always produce the same archive bytes.
+ */
+export function packDirectory(sourceDir: string, outputPath: string): PackResult {
+  if (!existsSync(sourceDir) || !statSync(sourceDir).isDirectory()) {
+    throw new Error(`Source directory not found: ${sourceDir}`);
+  }
+
+  const fileNames = listPackageFiles(sourceDir);
+  if (fileNames[0] !== MANIFEST_FILE) {
+    throw new Error(`${MANIFEST_FILE} not found in ${sourceDir}`);
+  }
+
+  const files: PackedFile[] = [];
+  const zipInputs = fileNames.map((name) => {
+    const data = readFileSync(join(sourceDir, name));
+    files.push({ name, size: data.length });
+    return { name, data };
+  });
+
+  const archive = createZip(zipInputs);
+  writeFileSync(outputPath, archive);
+
+  return {
+    outputPath,
+    files,
+    totalSize: files.reduce((sum, file) => sum + file.size, 0),
+    archiveSize: archive.length,
+  };
+}
+
+/**
+ * Packs a source directory into a zip in a fresh temporary directory
+ */
+export function packDirectoryToTemp(sourceDir: string): PackResult {
+  const outputDir = mkdtempSync(join(tmpdir(), "cws-manager-"));
+  return packDirectory(
+    sourceDir,
+    join(outputDir, `${basename(resolve(sourceDir))}.zip`)
+  );
+}
@@ -0,0 +1,177 @@
+import { statSync } from "fs";
+import {
+  ExtensionManifest,
+  InspectionIssue,
+  PackageInspectionReport,
+} from "../types";
+import { ZipArchive } from "../utils/zip";
+import { formatFileSize } from "../utils/utils";
+
+// Maximum package size accepted by the Chrome Web Store
+export const MAX_PACKAGE_SIZE = 2 * 1024 * 1024 * 1024;
+
+export const MANIFEST_FILE = "manifest.json";
+const SUPPORTED_MANIFEST_VERSION = 3;
+const VERSION_PATTERN = /^(0|[1-9]\d{0,4})(\.(0|[1-9]\d{0,4})){0,3}$/;
+
+/**
+ * Checks a version string against Chrome's rules: one to four dot-separated
+ * integers between 0 and 65535, without leading zeros
+ */
+export function isValidExtensionVersion(version: string): boolean {
+  if (!VERSION_PATTERN.test(version)) {
+    return false;
+  }
+  return version.split(".").every((part) => parseInt(part, 10) <= 65535);
+}
+
+// Manifest paths are relative to the package root and may carry a leading slash
+function normalizeManifestPath(path: string): string {
+  return path.replace(/^\.?\//, "");
+}
+
+function collectIconPaths(manifest: ExtensionManifest): string[] {
+  const paths: string[] = [];
+
+  if (manifest.icons && typeof manifest.icons === "object") {
+    paths.push(...Object.values(manifest.icons));
+  }
+
+  for (const action of [manifest.action, manifest.browser_action]) {
+    const icon = action?.default_icon;
+    if (typeof icon === "string") {
+      paths.push(icon);
+    } else if (icon && typeof icon === "object") {
+      paths.push(...Object.values(icon));
+    }
+  }
+
+  return [...new Set(paths.filter((path) => typeof path === "string"))];
+}
+
+function inspectManifest(
+  manifest: ExtensionManifest,
+  archive: ZipArchive
+): InspectionIssue[] {
+  const issues: InspectionIssue[] = [];
+  const error = (message: string) => issues.push({ severity: "error", message });
+  const warning = (message: string) =>
+    issues.push({ severity: "warning", message });
+
+  if (manifest.manifest_version === undefined) {
+    error("manifest_version is missing");
+  } else if (manifest.manifest_version !== SUPPORTED_MANIFEST_VERSION) {
+    error(
+      `manifest_version ${manifest.manifest_version} is not supported (expected ${SUPPORTED_MANIFEST_VERSION})`
+    );
+  }
+
+  if (!manifest.name) {
+    error("name is missing");
+  }
+
+  if (!manifest.version) {
+    error("version is missing");
+  } else if (
+    typeof manifest.version !== "string" ||
+    !isValidExtensionVersion(manifest.version)
+  ) {
+    error(
+      `version "${manifest.version}" is invalid (expected 1-4 dot-separated integers between 0 and 65535)`
+    );
+  }
+
+  if (manifest.key) {
+    warning("manifest contains a \"key\" field, which the store ignores");
+  }
+
+  const iconPaths = collectIconPaths(manifest);
+  if (iconPaths.length === 0) {
+    warning("no icons are declared");
+  }
+  for (const iconPath of iconPaths) {
+    if (!archive.has(normalizeManifestPath(iconPath))) {
+      error(`icon not found in package: ${iconPath}`);
+    }
+  }
+
+  const serviceWorker = manifest.background?.service_worker;
+  if (serviceWorker && !archive.has(normalizeManifestPath(serviceWorker))) {
+    error(`service worker not found in package: ${serviceWorker}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Reads and parses manifest.json from an archive, tolerating a UTF-8 BOM
+ */
+export function readManifest(archive: ZipArchive): ExtensionManifest {
+  return JSON.parse(
+    archive.read(MANIFEST_FILE).toString("utf8").replace(/^\uFEFF/, "")
+  ) as ExtensionManifest;
+}
+
+/**
+ * Opens a package locally and checks it for problems the store would
+ * otherwise only report after an upload
+ */
+export function inspectPackage(file: string): PackageInspectionReport {
+  const size = statSync(file).size;
+  const report: PackageInspectionReport = {
+    file,
+    size,
+    fileCount: 0,
+    issues: [],
+  };
+
+  if (size > MAX_PACKAGE_SIZE) {
+    report.issues.push({
+      severity: "error",
+      message: `package is ${formatFileSize(size)}, over the ${formatFileSize(MAX_PACKAGE_SIZE)} store limit`,
+    });
+  }
+
+  let archive: ZipArchive;
+  try {
+    archive = ZipArchive.fromFile(file);
+  } catch (error) {
+    report.issues.push({
+      severity: "error",
+      message: `cannot read archive: ${error instanceof Error ? error.message : error}`,
+    });
+    return report;
+  }
+
+  report.fileCount = archive.entries.filter(
+    (entry) => !entry.name.endsWith("/")
+  ).length;
+
+  if (!archive.has(MANIFEST_FILE)) {
+    report.issues.push({
+      severity: "error",
+      message: "manifest.json not found at the package root",
+    });
+    return report;
+  }
+
+  try {
+    report.manifest = readManifest(archive);
+  } catch (error) {
+    report.issues.push({
+      severity: "error",
+      message: `manifest.json is malformed: ${error instanceof Error ? error.message : error}`,
+    });
+    return report;
+  }
+
+  report.issues.push(...inspectManifest(report.manifest, archive));
+  return report;
+}
+
+/**
+ * Returns true when the report contains at least one blocking issue
+ */
+export function hasInspectionErrors(report: PackageInspectionReport): boolean {
+  return report.issues.some((issue) => issue.severity === "error");
+}
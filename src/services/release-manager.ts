@@ -0,0 +1,384 @@
+import { EventEmitter } from "events";
+import { existsSync, rmSync, statSync } from "fs";
+import { dirname, extname } from "path";
+import {
+  ErrorCode,
+  ItemState,
+  PublishItemResponse,
+  PublishType,
+  ReleaseManagerEvents,
+  ReleasePublishOptions,
+  ReleaseReviewOptions,
+  ReleaseRolloutOptions,
+  ReleaseRolloutResult,
+  ReleaseUploadOptions,
+  ReleaseUploadResult,
+  ReviewExitCode,
+  ReviewOutcome,
+  RolloutStep,
+  UploadState,
+} from "../types";
+import { ChromeWebStoreClient } from "./chrome-webstore-client";
+import { hasInspectionErrors, inspectPackage } from "./package-inspector";
+import {
+  packDirectoryToTemp,
+  writePackageWithVersion,
+} from "./package-builder";
+import { RolloutManager } from "./rollout";
+import { CwsError } from "../utils/errors";
+import {
+  assertPreflightPassed,
+  evaluatePreflightChecks,
+} from "../utils/preflight";
+import {
+  assertReviewSucceeded,
+  DEFAULT_REVIEW_POLL_INTERVAL,
+  DEFAULT_REVIEW_TIMEOUT,
+  getReviewExitCode,
+  getSubmissionState,
+  TERMINAL_REVIEW_STATES,
+} from "../utils/review";
+import { parseDuration, wait } from "../utils/utils";
+import {
+  bumpVersion,
+  compareVersions,
+  getHighestStoreVersion,
+  maxVersion,
+  validateVersionBump,
+} from "../utils/version";
+
+const DEFAULT_PROCESSING_TIMEOUT_MS = 300_000;
+const DEFAULT_ROLLOUT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+type ReleaseManagerListener<E extends keyof ReleaseManagerEvents> = (
+  event: ReleaseManagerEvents[E]
+) => void;
+
+/**
+ * Runs uploads, publishes, review waits and rollouts the way the CLI does,
+ * without printing anything: progress is reported through typed events.
+ * Meant for build scripts and CI actions that use the store from Node.
+ *
+ * ```ts
+ * const releases = new ReleaseManager(client);
+ * releases.on("uploadProgress", ({ bytesSent, totalBytes }) => ...);
+ * await releases.upload(itemId, "./dist", { bump: "patch" });
+ * await releases.publish(itemId, { deployPercentage: 10 });
+ * ```
+ *
+ * Operations throw a CwsError when they fail. Unlike the CLI, the manager
+ * records no history and saves no rollout state.
+ */
+export class ReleaseManager extends EventEmitter {
+  private client: ChromeWebStoreClient;
+  // Version of the last upload per item, for the checks of a later publish
+  private uploadedVersions = new Map<string, string>();
+
+  constructor(client: ChromeWebStoreClient) {
+    super();
+    this.client = client;
+  }
+
+  on<E extends keyof ReleaseManagerEvents>(
+    event: E,
+    listener: ReleaseManagerListener<E>
+  ): this {
+    return super.on(event, listener);
+  }
+
+  once<E extends keyof ReleaseManagerEvents>(
+    event: E,
+    listener: ReleaseManagerListener<E>
+  ): this {
+    return super.once(event, listener);
+  }
+
+  off<E extends keyof ReleaseManagerEvents>(
+    event: E,
+    listener: ReleaseManagerListener<E>
+  ): this {
+    return super.off(event, listener);
+  }
+
+  emit<E extends keyof ReleaseManagerEvents>(
+    event: E,
+    payload: ReleaseManagerEvents[E]
+  ): boolean {
+    return super.emit(event, payload);
+  }
+
+  /**
+   * Uploads a package, or a source directory packed on the fly, and waits
+   * for the store to process it. The package is inspected first, and its
+   * version must be newer than the store's unless `bump` or `force` is set.
+   * Temporary packages, from packing or bumping, are removed afterwards.
+   */
+  async upload(
+    itemId: string,
+    file: string,
+    options: ReleaseUploadOptions = {}
+  ): Promise<ReleaseUploadResult> {
+    const tempPackages: string[] = [];
+
+    try {
+      let uploadFile = this.resolvePackage(itemId, file, tempPackages);
+
+      const report = inspectPackage(uploadFile);
+      this.emit("inspected", { itemId, file: uploadFile, report });
+      if (hasInspectionErrors(report)) {
+        throw new CwsError(
+          ErrorCode.PACKAGE_INVALID,
+          "Package inspection found errors: " +
+            report.issues
+              .filter((issue) => issue.severity === "error")
+              .map((issue) => issue.message)
+              .join("; ")
+        );
+      }
+
+      let version = report.manifest?.version;
+      const bumped = await this.prepareVersion(itemId, version, options);
+      if (bumped) {
+        uploadFile = writePackageWithVersion(uploadFile, bumped);
+        tempPackages.push(uploadFile);
+        version = bumped;
+      }
+
+      const response = await this.client.uploadPackage(itemId, uploadFile, {
+        resumable: options.resumable,
+        onProgress: (progress) =>
+          this.emit("uploadProgress", { itemId, ...progress }),
+      });
+      this.emit("uploaded", { itemId, response });
+
+      let uploadState = response.uploadState;
+      if (uploadState === UploadState.IN_PROGRESS) {
+        uploadState = await this.client.waitForUploadCompletion(
+          itemId,
+          options.maxWaitTimeMs ?? DEFAULT_PROCESSING_TIMEOUT_MS
+        );
+        this.emit("processed", { itemId, uploadState });
+      }
+      if (uploadState === UploadState.FAILED) {
+        throw new CwsError(
+          ErrorCode.UPLOAD_FAILED,
+          `Upload processing failed: ${uploadState}`
+        );
+      }
+
+      version = version || response.crxVersion;
+      if (version) {
+        this.uploadedVersions.set(itemId, version);
+      }
+      return { itemId, file, version, uploadState, response };
+    } finally {
+      tempPackages.forEach((path) =>
+        rmSync(dirname(path), { recursive: true, force: true })
+      );
+    }
+  }
+
+  /**
+   * Runs the pre-publish checks and publishes the item's uploaded package.
+   * A deploy percentage below 100 rolls the new version out to part of the
+   * users only. There is no confirmation prompt.
+   */
+  async publish(
+    itemId: string,
+    options: ReleasePublishOptions = {}
+  ): Promise<PublishItemResponse> {
+    const deployPercentage = options.deployPercentage ?? 100;
+    if (
+      !Number.isFinite(deployPercentage) ||
+      deployPercentage < 0 ||
+      deployPercentage > 100
+    ) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        "Deploy percentage must be a number between 0 and 100"
+      );
+    }
+
+    const status = await this.client.fetchItemStatus(itemId);
+    const checks = evaluatePreflightChecks(
+      {
+        status,
+        version: options.version ?? this.uploadedVersions.get(itemId),
+      },
+      options.skipChecks
+    );
+    this.emit("preflight", { itemId, checks });
+    assertPreflightPassed(checks);
+
+    const response = await this.client.publishItem(itemId, {
+      skipReview: options.skipReview,
+      publishType: options.publishType ?? PublishType.DEFAULT_PUBLISH,
+      deployInfos: deployPercentage < 100 ? [{ deployPercentage }] : undefined,
+    });
+    this.emit("published", { itemId, response });
+    return response;
+  }
+
+  /**
+   * Polls the item until its submission reaches the target state or another
+   * terminal review state. Resolves with the outcome when it reaches the
+   * target, and throws a TIMEOUT or REVIEW_FAILED CwsError otherwise.
+   */
+  async waitForReview(
+    itemId: string,
+    options: ReleaseReviewOptions = {}
+  ): Promise<ReviewOutcome> {
+    const target = options.target ?? ItemState.PUBLISHED;
+    const timeoutMs =
+      options.timeoutMs ?? parseDuration(DEFAULT_REVIEW_TIMEOUT);
+    const pollIntervalMs =
+      options.pollIntervalMs ?? parseDuration(DEFAULT_REVIEW_POLL_INTERVAL);
+    const startTime = Date.now();
+
+    let outcome: ReviewOutcome;
+    try {
+      const status = await this.client.waitForSubmissionState(
+        itemId,
+        [target, ...TERMINAL_REVIEW_STATES],
+        timeoutMs,
+        pollIntervalMs,
+        (polled) =>
+          this.emit("reviewPolled", {
+            itemId,
+            state: getSubmissionState(polled),
+            elapsedMs: Date.now() - startTime,
+          })
+      );
+      const state = getSubmissionState(status);
+      outcome = {
+        target,
+        state,
+        timedOut: false,
+        exitCode: getReviewExitCode(target, state),
+        status,
+      };
+    } catch (error) {
+      if (!(error instanceof CwsError && error.code === ErrorCode.TIMEOUT)) {
+        throw error;
+      }
+      outcome = { target, timedOut: true, exitCode: ReviewExitCode.TIMEOUT };
+    }
+    this.emit("reviewed", { itemId, outcome });
+    assertReviewSucceeded(outcome);
+    return outcome;
+  }
+
+  /**
+   * Raises the deploy percentage of the published version step by step,
+   * waiting between steps. Before each step the item must be published and
+   * neither taken down nor warned; otherwise the rollout stops with a
+   * ROLLOUT_HALTED CwsError.
+   */
+  async rollout(
+    itemId: string,
+    options: ReleaseRolloutOptions = {}
+  ): Promise<ReleaseRolloutResult> {
+    const schedule = options.schedule
+      ? RolloutManager.parseSchedule(options.schedule.join(","))
+      : RolloutManager.DEFAULT_SCHEDULE;
+    const intervalMs = options.intervalMs ?? DEFAULT_ROLLOUT_INTERVAL_MS;
+    const steps: RolloutStep[] = [];
+
+    for (const [index, percentage] of schedule.entries()) {
+      if (index > 0) {
+        this.emit("rolloutWaiting", {
+          itemId,
+          percentage,
+          nextStepAt: new Date(Date.now() + intervalMs).toISOString(),
+        });
+        await wait(intervalMs);
+      }
+
+      const status = await this.client.fetchItemStatus(itemId);
+      const problem = RolloutManager.checkHealth(status);
+      if (problem) {
+        throw new CwsError(
+          ErrorCode.ROLLOUT_HALTED,
+          `Rollout halted before ${percentage}%: ${problem}`
+        );
+      }
+
+      await this.client.setPublishedDeployPercentage(itemId, {
+        deployPercentage: percentage,
+      });
+      steps.push({ percentage, appliedAt: new Date().toISOString() });
+      this.emit("rolloutStep", {
+        itemId,
+        percentage,
+        step: index + 1,
+        totalSteps: schedule.length,
+      });
+    }
+
+    return { itemId, schedule, steps };
+  }
+
+  // Helper function to check the file to upload, packing a source directory
+  // into a temporary zip
+  private resolvePackage(
+    itemId: string,
+    file: string,
+    tempPackages: string[]
+  ): string {
+    if (!existsSync(file)) {
+      throw new CwsError(ErrorCode.FILE_NOT_FOUND, `File not found: ${file}`);
+    }
+
+    if (statSync(file).isDirectory()) {
+      const result = packDirectoryToTemp(file);
+      tempPackages.push(result.outputPath);
+      this.emit("packed", { itemId, result });
+      return result.outputPath;
+    }
+
+    const fileExt = extname(file).toLowerCase();
+    if (![".zip", ".crx"].includes(fileExt)) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Unsupported file type: ${fileExt}. Only .zip and .crx files are supported.`
+      );
+    }
+    return file;
+  }
+
+  // Helper function to check the package version against the store's.
+  // Returns the version to rewrite the package with when bumping.
+  private async prepareVersion(
+    itemId: string,
+    localVersion: string | undefined,
+    options: ReleaseUploadOptions
+  ): Promise<string | undefined> {
+    const bump = options.bump ? validateVersionBump(options.bump) : undefined;
+    if (options.force && !bump) {
+      return undefined;
+    }
+
+    const status = await this.client.fetchItemStatus(itemId);
+    const storeVersion = getHighestStoreVersion(status);
+
+    if (bump) {
+      const baseVersion = maxVersion([localVersion, storeVersion]) || "0.0.0";
+      const newVersion = bumpVersion(baseVersion, bump);
+      this.emit("versionBumped", { itemId, from: baseVersion, to: newVersion });
+      return newVersion;
+    }
+
+    if (
+      localVersion &&
+      storeVersion &&
+      compareVersions(localVersion, storeVersion) <= 0
+    ) {
+      throw new CwsError(
+        ErrorCode.VERSION_NOT_NEWER,
+        `Package version ${localVersion} is not newer than the store version ${storeVersion}. ` +
+          "Increase the manifest version, set bump, or set force to upload anyway."
+      );
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, extname, isAbsolute, join, resolve } from "path";
+import { load } from "js-yaml";
+import {
+  ErrorCode,
+  ReleasePipeline,
+  ReleaseState,
+  ReleaseStepAction,
+} from "../types";
+import { ConfigManager } from "../utils/config";
+import { CwsError } from "../utils/errors";
+import { parseDuration } from "../utils/utils";
+
+export const RELEASE_STEP_ACTIONS: ReleaseStepAction[] = [
+  "pack",
+  "validate",
+  "upload",
+  "wait-for-processing",
+  "publish",
+  "wait-for-review",
+  "deploy",
+  "rollout",
+];
+
+/**
+ * Loads release pipeline files and persists the progress of releases, one
+ * state file per item under ~/.cws-manager-cli/releases, so a failed release
+ * can be resumed from the step that failed.
+ */
+export class ReleasePipelineManager {
+  static getStateDir(): string {
+    return join(ConfigManager.getConfigDir(), "releases");
+  }
+
+  static getStateFile(itemId: string): string {
+    return join(ReleasePipelineManager.getStateDir(), `${itemId}.json`);
+  }
+
+  // Where a release keeps its package, so it is still there on resume
+  static getPackageFile(itemId: string): string {
+    return join(ReleasePipelineManager.getStateDir(), `${itemId}.zip`);
+  }
+
+  /**
+   * Reads a YAML or JSON pipeline file. Steps without a name are named after
+   * their action, with a counter when an action appears more than once.
+   */
+  static loadPipeline(filePath: string): {
+    pipeline: ReleasePipeline;
+    sha256: string;
+  } {
+    const fullPath = resolve(filePath);
+    if (!existsSync(fullPath)) {
+      throw new CwsError(
+        ErrorCode.FILE_NOT_FOUND,
+        `Pipeline file not found: ${fullPath}`
+      );
+    }
+
+    const content = readFileSync(fullPath, "utf8");
+    let pipeline: ReleasePipeline;
+    try {
+      pipeline = (
+        [".yaml", ".yml"].includes(extname(fullPath).toLowerCase())
+          ? load(content)
+          : JSON.parse(content)
+      ) as ReleasePipeline;
+    } catch (error) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to parse pipeline file ${fullPath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    ReleasePipelineManager.validatePipeline(pipeline);
+
+    // Paths in the pipeline are relative to the pipeline file
+    const baseDir = dirname(fullPath);
+    if (pipeline.source && !isAbsolute(pipeline.source)) {
+      pipeline.source = resolve(baseDir, pipeline.source);
+    }
+    pipeline.steps.forEach((step) => {
+      if (step.output && !isAbsolute(step.output)) {
+        step.output = resolve(baseDir, step.output);
+      }
+    });
+
+    const counts: Record<string, number> = {};
+    pipeline.steps.forEach((step) => {
+      if (!step.name) {
+        counts[step.run] = (counts[step.run] || 0) + 1;
+        step.name =
+          counts[step.run] > 1 ? `${step.run}-${counts[step.run]}` : step.run;
+      }
+    });
+    const names = pipeline.steps.map((step) => step.name!);
+    const duplicate = names.find(
+      (name, index) => names.indexOf(name) !== index
+    );
+    if (duplicate) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Pipeline step name "${duplicate}" is used more than once`
+      );
+    }
+
+    return {
+      pipeline,
+      sha256: createHash("sha256").update(content).digest("hex"),
+    };
+  }
+
+  static validatePipeline(pipeline: ReleasePipeline): void {
+    if (!pipeline || !Array.isArray(pipeline.steps)) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        'Pipeline file must contain a "steps" list'
+      );
+    }
+    if (pipeline.steps.length === 0) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        "Pipeline does not define any steps"
+      );
+    }
+
+    pipeline.steps.forEach((step, index) => {
+      const label = `Pipeline step ${index + 1}`;
+      if (!step || !RELEASE_STEP_ACTIONS.includes(step.run)) {
+        throw new CwsError(
+          ErrorCode.CONFIG_ERROR,
+          `${label} has an unknown action "${step?.run}"; expected one of: ${RELEASE_STEP_ACTIONS.join(", ")}`
+        );
+      }
+      // Fail on a bad duration before any step has run
+      [step.timeout, step.pollInterval, step.interval]
+        .filter((value) => value !== undefined)
+        .forEach((value) => parseDuration(String(value)));
+    });
+  }
+
+  static load(itemId: string): ReleaseState | null {
+    const filePath = ReleasePipelineManager.getStateFile(itemId);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(filePath, "utf8")) as ReleaseState;
+    } catch (error) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to read release state ${filePath}: ${error}`
+      );
+    }
+  }
+
+  static save(state: ReleaseState): ReleaseState {
+    mkdirSync(ReleasePipelineManager.getStateDir(), { recursive: true });
+    state.updatedAt = new Date().toISOString();
+    writeFileSync(
+      ReleasePipelineManager.getStateFile(state.itemId),
+      JSON.stringify(state, null, 2),
+      "utf8"
+    );
+    return state;
+  }
+
+  static create(
+    itemId: string,
+    pipelineFile: string,
+    pipelineSha256: string
+  ): ReleaseState {
+    const now = new Date().toISOString();
+    return {
+      itemId,
+      pipelineFile: resolve(pipelineFile),
+      pipelineSha256,
+      status: "running",
+      startedAt: now,
+      updatedAt: now,
+      steps: [],
+    };
+  }
+}
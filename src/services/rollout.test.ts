@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ErrorCode, FetchItemStatusResponse, ItemState } from "../types";
+import { ConfigManager } from "../utils/config";
+import { RolloutManager } from "./rollout";
+
+const ITEM_ID = "abcdefghijklmnopqrstuvwxyzabcdef";
+
+describe("RolloutManager", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-rollout-"));
+    jest.spyOn(ConfigManager, "getConfigDir").mockReturnValue(dir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("parseSchedule", () => {
+    it("parses increasing percentages", () => {
+      expect(RolloutManager.parseSchedule("5, 25,100")).toEqual([5, 25, 100]);
+    });
+
+    it.each(["", "10,10", "50,25", "0,50", "50,101", "1.5,50", "ten"])(
+      "refuses %p",
+      (schedule) => {
+        expect(() => RolloutManager.parseSchedule(schedule)).toThrow(
+          expect.objectContaining({ code: ErrorCode.INVALID_ARGUMENT })
+        );
+      }
+    );
+  });
+
+  it("saves a new rollout and reads it back", () => {
+    const created = RolloutManager.create(ITEM_ID, [10, 100], 60_000);
+
+    expect(RolloutManager.load(ITEM_ID)).toEqual(created);
+    expect(created).toMatchObject({
+      currentStep: 0,
+      status: "running",
+      steps: [],
+    });
+    expect(() => RolloutManager.require("other")).toThrow(
+      expect.objectContaining({ code: ErrorCode.NOT_FOUND })
+    );
+  });
+
+  describe("setStatus", () => {
+    it("pauses and resumes a running rollout", () => {
+      RolloutManager.create(ITEM_ID, [10, 100], 60_000);
+
+      expect(RolloutManager.setStatus(ITEM_ID, "paused").status).toBe("paused");
+      expect(RolloutManager.setStatus(ITEM_ID, "running").status).toBe(
+        "running"
+      );
+      expect(RolloutManager.setStatus(ITEM_ID, "aborted").status).toBe(
+        "aborted"
+      );
+    });
+
+    it("resumes a halted rollout and clears its error", () => {
+      const state = RolloutManager.create(ITEM_ID, [10, 100], 60_000);
+      RolloutManager.save({
+        ...state,
+        status: "failed",
+        error: "Item has been taken down",
+      });
+
+      const resumed = RolloutManager.setStatus(ITEM_ID, "running");
+      expect(resumed.status).toBe("running");
+      expect(resumed.error).toBeUndefined();
+    });
+
+    it.each([
+      ["aborted", "running"],
+      ["aborted", "paused"],
+      ["completed", "running"],
+      ["completed", "aborted"],
+      ["running", "running"],
+    ] as const)("refuses to go from %s to %s", (from, to) => {
+      const state = RolloutManager.create(ITEM_ID, [10, 100], 60_000);
+      RolloutManager.save({ ...state, status: from });
+
+      expect(() => RolloutManager.setStatus(ITEM_ID, to)).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_ARGUMENT })
+      );
+      expect(RolloutManager.require(ITEM_ID).status).toBe(from);
+    });
+  });
+
+  describe("checkHealth", () => {
+    const healthy: FetchItemStatusResponse = {
+      publishedItemRevisionStatus: { state: ItemState.PUBLISHED },
+    };
+
+    it("accepts a published item", () => {
+      expect(RolloutManager.checkHealth(healthy)).toBeUndefined();
+    });
+
+    it("reports taken down, warned and unpublished items", () => {
+      expect(
+        RolloutManager.checkHealth({ ...healthy, takenDown: true })
+      ).toMatch("taken down");
+      expect(RolloutManager.checkHealth({ ...healthy, warned: true })).toMatch(
+        "warnings"
+      );
+      expect(RolloutManager.checkHealth({})).toMatch(
+        "Published revision is missing"
+      );
+    });
+  });
+});
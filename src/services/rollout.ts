@@ -0,0 +1,157 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  ErrorCode,
+  FetchItemStatusResponse,
+  ItemState,
+  RolloutState,
+  RolloutStatus,
+} from "../types";
+import { CwsError } from "../utils/errors";
+import { ConfigManager } from "../utils/config";
+
+// Statuses a rollout may be in before moving to the key status
+const ALLOWED_TRANSITIONS: Partial<Record<RolloutStatus, RolloutStatus[]>> = {
+  paused: ["running"],
+  running: ["paused", "failed"],
+  aborted: ["running", "paused", "failed"],
+};
+
+/**
+ * Persists gradual rollouts, one state file per item under
+ * ~/.cws-manager-cli/rollouts, so a rollout survives process restarts and
+ * can be paused or aborted from another shell.
+ */
+export class RolloutManager {
+  static readonly DEFAULT_SCHEDULE = [5, 10, 25, 50, 100];
+
+  static getStateDir(): string {
+    return join(ConfigManager.getConfigDir(), "rollouts");
+  }
+
+  static getStateFile(itemId: string): string {
+    return join(RolloutManager.getStateDir(), `${itemId}.json`);
+  }
+
+  /**
+   * Parses a comma-separated schedule of strictly increasing percentages
+   */
+  static parseSchedule(value: string): number[] {
+    const schedule = value.split(",").map((part) => Number(part.trim()));
+
+    const invalid = schedule.some(
+      (percentage, index) =>
+        !Number.isInteger(percentage) ||
+        percentage < 1 ||
+        percentage > 100 ||
+        (index > 0 && percentage <= schedule[index - 1])
+    );
+    if (schedule.length === 0 || invalid) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        "Schedule must be increasing percentages between 1 and 100, e.g. 5,10,25,50,100"
+      );
+    }
+
+    return schedule;
+  }
+
+  static load(itemId: string): RolloutState | null {
+    const filePath = RolloutManager.getStateFile(itemId);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(filePath, "utf8")) as RolloutState;
+    } catch (error) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to read rollout state ${filePath}: ${error}`
+      );
+    }
+  }
+
+  static require(itemId: string): RolloutState {
+    const state = RolloutManager.load(itemId);
+    if (!state) {
+      throw new CwsError(
+        ErrorCode.NOT_FOUND,
+        `No rollout found for item ${itemId}`
+      );
+    }
+    return state;
+  }
+
+  static save(state: RolloutState): RolloutState {
+    mkdirSync(RolloutManager.getStateDir(), { recursive: true });
+    state.updatedAt = new Date().toISOString();
+    writeFileSync(
+      RolloutManager.getStateFile(state.itemId),
+      JSON.stringify(state, null, 2),
+      "utf8"
+    );
+    return state;
+  }
+
+  static create(
+    itemId: string,
+    schedule: number[],
+    intervalMs: number
+  ): RolloutState {
+    const now = new Date().toISOString();
+    return RolloutManager.save({
+      itemId,
+      schedule,
+      intervalMs,
+      currentStep: 0,
+      status: "running",
+      startedAt: now,
+      updatedAt: now,
+      steps: [],
+    });
+  }
+
+  /**
+   * Pauses, resumes or aborts a stored rollout. A failed rollout can be
+   * resumed once the item is healthy again.
+   */
+  static setStatus(itemId: string, status: RolloutStatus): RolloutState {
+    const state = RolloutManager.require(itemId);
+
+    if (!ALLOWED_TRANSITIONS[status]?.includes(state.status)) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Cannot set rollout for item ${itemId} to ${status}: it is ${state.status}`
+      );
+    }
+
+    state.status = status;
+    if (status === "running") {
+      state.error = undefined;
+    }
+    return RolloutManager.save(state);
+  }
+
+  static isFinished(state: RolloutState): boolean {
+    return ["completed", "aborted", "failed"].includes(state.status);
+  }
+
+  /**
+   * Returns why the rollout must not continue, or undefined when the item is
+   * healthy: published, not taken down and not warned
+   */
+  static checkHealth(status: FetchItemStatusResponse): string | undefined {
+    if (status.takenDown) {
+      return "Item has been taken down";
+    }
+    if (status.warned) {
+      return "Item has policy violation warnings";
+    }
+    const state = status.publishedItemRevisionStatus?.state;
+    if (state !== ItemState.PUBLISHED) {
+      return `Published revision is ${state ?? "missing"}, expected ${ItemState.PUBLISHED}`;
+    }
+    return undefined;
+  }
+}
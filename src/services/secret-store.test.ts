@@ -0,0 +1,60 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ErrorCode } from "../types";
+import { EncryptedFileSecretStore } from "./secret-store";
+
+describe("EncryptedFileSecretStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-secrets-"));
+    // The directory does not exist yet, as on a first configure
+    filePath = join(dir, ".cws-manager-cli", "secrets.enc");
+    process.env.CWS_SECRET_PASSPHRASE = "correct horse";
+  });
+
+  afterEach(() => {
+    delete process.env.CWS_SECRET_PASSPHRASE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("creates the file and its directory on the first write", async () => {
+    await new EncryptedFileSecretStore(filePath).set("default/token", "t0k3n");
+
+    expect(existsSync(filePath)).toBe(true);
+    expect(statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("reads back what it wrote, without keeping it in plain text", async () => {
+    const store = new EncryptedFileSecretStore(filePath);
+    await store.set("default/clientSecret", "s3cret");
+    await store.set("default/refreshToken", "r3fresh");
+
+    expect(readFileSync(filePath, "utf8")).not.toContain("s3cret");
+
+    const reopened = new EncryptedFileSecretStore(filePath);
+    await expect(reopened.get("default/clientSecret")).resolves.toBe("s3cret");
+    await expect(reopened.get("default/refreshToken")).resolves.toBe("r3fresh");
+  });
+
+  it("deletes secrets", async () => {
+    const store = new EncryptedFileSecretStore(filePath);
+    await store.set("default/clientSecret", "s3cret");
+    await store.delete("default/clientSecret");
+
+    await expect(
+      new EncryptedFileSecretStore(filePath).get("default/clientSecret")
+    ).rejects.toMatchObject({ code: ErrorCode.CONFIG_ERROR });
+  });
+
+  it("refuses a wrong passphrase", async () => {
+    await new EncryptedFileSecretStore(filePath).set("default/token", "t0k3n");
+
+    process.env.CWS_SECRET_PASSPHRASE = "wrong";
+    await expect(
+      new EncryptedFileSecretStore(filePath).get("default/token")
+    ).rejects.toThrow("wrong passphrase or corrupted file");
+  });
+});
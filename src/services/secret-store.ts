@@ -0,0 +1,390 @@
+import { spawn } from "child_process";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+  ScryptOptions,
+} from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import inquirer from "inquirer";
+import {
+  ErrorCode,
+  SecretReference,
+  SecretStore,
+  SecretStoreType,
+} from "../types";
+import { CwsError } from "../utils/errors";
+import { Output } from "../utils/output";
+
+export const SECRET_STORE_TYPES: SecretStoreType[] = [
+  "plain",
+  "encrypted-file",
+  "keyring",
+];
+
+const PASSPHRASE_ENV_VAR = "CWS_SECRET_PASSPHRASE";
+const KEYRING_SERVICE = "cws-manager-cli";
+
+// scrypt cost parameters for deriving the file key from the passphrase
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+const KEY_LENGTH = 32;
+
+interface EncryptedSecretsFile {
+  version: 1;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function parseSecretStoreType(value: string): SecretStoreType {
+  if (!SECRET_STORE_TYPES.includes(value as SecretStoreType)) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Secret store must be one of: ${SECRET_STORE_TYPES.join(", ")}`
+    );
+  }
+  return value as SecretStoreType;
+}
+
+export function isSecretReference(value: unknown): value is SecretReference {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as SecretReference).secretStore === "string" &&
+    typeof (value as SecretReference).key === "string"
+  );
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: SCRYPT_MAX_MEMORY };
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+// Helper function to read the passphrase from the environment or a prompt
+async function getPassphrase(creating: boolean): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV_VAR];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  if (!process.stdin.isTTY || Output.isJson()) {
+    throw new CwsError(
+      ErrorCode.CONFIG_ERROR,
+      `Set ${PASSPHRASE_ENV_VAR} to unlock the encrypted secret store`
+    );
+  }
+
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: "password",
+      name: "passphrase",
+      message: creating
+        ? "New passphrase for the encrypted secret store:"
+        : "Passphrase for the encrypted secret store:",
+      mask: "*",
+      validate: (input) => input.length > 0 || "Passphrase is required",
+    },
+    {
+      type: "password",
+      name: "confirmation",
+      message: "Confirm passphrase:",
+      mask: "*",
+      when: creating,
+      validate: (input, answers) =>
+        input === answers?.passphrase || "Passphrases do not match",
+    },
+  ]);
+  return passphrase;
+}
+
+/**
+ * Keeps secrets in a single AES-256-GCM encrypted file whose key is derived
+ * from a passphrase with scrypt. The passphrase comes from
+ * CWS_SECRET_PASSPHRASE or an interactive prompt, once per process.
+ */
+export class EncryptedFileSecretStore implements SecretStore {
+  private key?: Buffer;
+  private salt?: Buffer;
+  private secrets?: Record<string, string>;
+
+  constructor(private readonly filePath: string) {}
+
+  private async unlock(): Promise<Record<string, string>> {
+    if (this.secrets) {
+      return this.secrets;
+    }
+
+    if (!existsSync(this.filePath)) {
+      this.salt = randomBytes(16);
+      this.key = await deriveKey(
+        await getPassphrase(true),
+        this.salt,
+        SCRYPT_PARAMS
+      );
+      this.secrets = {};
+      return this.secrets;
+    }
+
+    let file: EncryptedSecretsFile;
+    try {
+      file = JSON.parse(readFileSync(this.filePath, "utf8"));
+    } catch (error) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to read secret store ${this.filePath}: ${error}`
+      );
+    }
+
+    this.salt = Buffer.from(file.kdf.salt, "base64");
+    this.key = await deriveKey(await getPassphrase(false), this.salt, file.kdf);
+
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        this.key,
+        Buffer.from(file.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+      const data = Buffer.concat([
+        decipher.update(Buffer.from(file.data, "base64")),
+        decipher.final(),
+      ]);
+      this.secrets = JSON.parse(data.toString("utf8"));
+    } catch {
+      this.key = undefined;
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to decrypt ${this.filePath}: wrong passphrase or corrupted file`
+      );
+    }
+
+    return this.secrets!;
+  }
+
+  private save(): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key!, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(this.secrets), "utf8"),
+      cipher.final(),
+    ]);
+
+    const file: EncryptedSecretsFile = {
+      version: 1,
+      kdf: {
+        name: "scrypt",
+        salt: this.salt!.toString("base64"),
+        ...SCRYPT_PARAMS,
+      },
+      cipher: "aes-256-gcm",
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(file, null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+  }
+
+  async get(key: string): Promise<string> {
+    const secrets = await this.unlock();
+    if (secrets[key] === undefined) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Secret "${key}" not found in ${this.filePath}`
+      );
+    }
+    return secrets[key];
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const secrets = await this.unlock();
+    secrets[key] = value;
+    this.save();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+    const secrets = await this.unlock();
+    delete secrets[key];
+    this.save();
+  }
+}
+
+interface CommandOutput {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Helper function to run a keyring tool, optionally writing to its stdin
+function runCommand(
+  file: string,
+  args: string[],
+  input?: string
+): Promise<CommandOutput> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, { stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new CwsError(
+              ErrorCode.CONFIG_ERROR,
+              `The keyring secret store needs the \`${file}\` command, which was not found`
+            )
+          : error
+      );
+    });
+    child.on("close", (code) => resolve({ code: code ?? 1, stdout, stderr }));
+
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Keeps secrets in the OS keyring: the login keychain through `security` on
+ * macOS, or the Secret Service through `secret-tool` (libsecret) on Linux
+ */
+export class KeyringSecretStore implements SecretStore {
+  constructor(private readonly platform: NodeJS.Platform = process.platform) {
+    if (platform !== "darwin" && platform !== "linux") {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `The keyring secret store is not supported on ${platform}; use encrypted-file instead`
+      );
+    }
+  }
+
+  private fail(action: string, key: string, output: CommandOutput): never {
+    throw new CwsError(
+      ErrorCode.CONFIG_ERROR,
+      `Failed to ${action} secret "${key}" in the keyring: ${output.stderr.trim() || `exit code ${output.code}`}`
+    );
+  }
+
+  async get(key: string): Promise<string> {
+    const output =
+      this.platform === "darwin"
+        ? await runCommand("security", [
+            "find-generic-password",
+            "-s",
+            KEYRING_SERVICE,
+            "-a",
+            key,
+            "-w",
+          ])
+        : await runCommand("secret-tool", [
+            "lookup",
+            "service",
+            KEYRING_SERVICE,
+            "account",
+            key,
+          ]);
+
+    // secret-tool exits successfully with no output for a missing entry
+    if (output.code !== 0 || output.stdout.length === 0) {
+      this.fail("read", key, output);
+    }
+    return output.stdout.replace(/\n$/, "");
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    // A trailing `-w` without a value makes `security` read the password,
+    // and its confirmation, from stdin, which keeps it out of the process list
+    const output =
+      this.platform === "darwin"
+        ? await runCommand(
+            "security",
+            [
+              "add-generic-password",
+              "-U",
+              "-s",
+              KEYRING_SERVICE,
+              "-a",
+              key,
+              "-w",
+            ],
+            `${value}\n${value}\n`
+          )
+        : await runCommand(
+            "secret-tool",
+            [
+              "store",
+              `--label=${KEYRING_SERVICE} ${key}`,
+              "service",
+              KEYRING_SERVICE,
+              "account",
+              key,
+            ],
+            value
+          );
+
+    if (output.code !== 0) {
+      this.fail("store", key, output);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // A missing entry is not an error: there is nothing left to remove
+    if (this.platform === "darwin") {
+      await runCommand("security", [
+        "delete-generic-password",
+        "-s",
+        KEYRING_SERVICE,
+        "-a",
+        key,
+      ]);
+    } else {
+      await runCommand("secret-tool", [
+        "clear",
+        "service",
+        KEYRING_SERVICE,
+        "account",
+        key,
+      ]);
+    }
+  }
+}
+
+/**
+ * Creates the store for a secret store type. Encrypted secrets are kept in
+ * `secretsFile`; the plain type has no store because values stay in the config.
+ */
+export function createSecretStore(
+  type: Exclude<SecretStoreType, "plain">,
+  secretsFile: string
+): SecretStore {
+  switch (type) {
+    case "encrypted-file":
+      return new EncryptedFileSecretStore(secretsFile);
+    case "keyring":
+      return new KeyringSecretStore();
+    default:
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Unknown secret store: ${type as string}`
+      );
+  }
+}
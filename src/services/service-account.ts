@@ -0,0 +1,88 @@
+import { existsSync, readFileSync } from "fs";
+import { createSign } from "crypto";
+import {
+  ChromeWebStoreConfig,
+  ErrorCode,
+  ServiceAccountConfig,
+  ServiceAccountKey,
+} from "../types";
+import { CwsError } from "../utils/errors";
+
+// Lifetime requested for the signed assertion; Google allows at most one hour
+const ASSERTION_LIFETIME_SECONDS = 3600;
+
+export function isServiceAccountConfig(
+  config: ChromeWebStoreConfig
+): config is ServiceAccountConfig {
+  return "serviceAccountKeyFile" in config && !!config.serviceAccountKeyFile;
+}
+
+/**
+ * Reads and checks a service account JSON key file
+ */
+export function loadServiceAccountKey(keyFile: string): ServiceAccountKey {
+  if (!existsSync(keyFile)) {
+    throw new CwsError(
+      ErrorCode.CONFIG_ERROR,
+      `Service account key file not found: ${keyFile}`
+    );
+  }
+
+  let key: ServiceAccountKey;
+  try {
+    key = JSON.parse(readFileSync(keyFile, "utf8")) as ServiceAccountKey;
+  } catch (error) {
+    throw new CwsError(
+      ErrorCode.CONFIG_ERROR,
+      `Failed to read service account key: ${error}`
+    );
+  }
+
+  if (!key.client_email || !key.private_key) {
+    throw new CwsError(
+      ErrorCode.CONFIG_ERROR,
+      "Service account key must contain client_email and private_key"
+    );
+  }
+
+  return key;
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Creates the RS256-signed JWT assertion exchanged for an access token
+ * (grant type urn:ietf:params:oauth:grant-type:jwt-bearer)
+ */
+export function createJwtAssertion(
+  key: ServiceAccountKey,
+  scope: string,
+  audience: string,
+  now = Math.floor(Date.now() / 1000)
+): string {
+  const header = {
+    alg: "RS256",
+    typ: "JWT",
+    ...(key.private_key_id ? { kid: key.private_key_id } : {}),
+  };
+  const claims = {
+    iss: key.client_email,
+    scope,
+    aud: audience,
+    iat: now,
+    exp: now + ASSERTION_LIFETIME_SECONDS,
+  };
+
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = createSign("RSA-SHA256")
+    .update(unsigned)
+    .sign(key.private_key);
+
+  return `${unsigned}.${base64Url(signature)}`;
+}
@@ -0,0 +1,207 @@
+import {
+  ErrorCode,
+  FetchFunction,
+  StatusChangeEvent,
+  WebhookFormat,
+  WebhookTarget,
+} from "../types";
+import { CwsError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+import {
+  formatStatusChange,
+  formatStatusTransition,
+} from "../utils/status-changes";
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ["json", "slack", "teams"];
+
+export const DEFAULT_WEBHOOK_TEMPLATE =
+  "Chrome Web Store item {name} ({itemId}): {changes}";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function validateWebhookTarget(target: WebhookTarget): WebhookTarget {
+  if (!WEBHOOK_FORMATS.includes(target.format)) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Webhook format must be one of: ${WEBHOOK_FORMATS.join(", ")}`
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(target.url);
+  } catch {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid webhook URL: ${target.url}`
+    );
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Webhook URL must use http or https: ${target.url}`
+    );
+  }
+
+  return target;
+}
+
+/**
+ * Parses a `--webhook` value: a URL, optionally prefixed with its format as
+ * in `slack=https://hooks.slack.com/...`. Plain URLs receive generic JSON.
+ * A URL itself never matches the prefix, since its scheme ends with ":".
+ */
+export function parseWebhookTarget(spec: string): WebhookTarget {
+  const match = /^(\w+)=(.*)$/.exec(spec);
+  if (match) {
+    return validateWebhookTarget({
+      format: match[1] as WebhookFormat,
+      url: match[2],
+    });
+  }
+  return validateWebhookTarget({ format: "json", url: spec });
+}
+
+/**
+ * Checks webhooks listed in the project file; the format defaults to json
+ */
+export function normalizeWebhookTargets(
+  targets: Partial<WebhookTarget>[]
+): WebhookTarget[] {
+  return targets.map((target) =>
+    validateWebhookTarget({
+      url: target.url ?? "",
+      format: target.format ?? "json",
+    })
+  );
+}
+
+/**
+ * Fills {itemId}, {name}, {changes} and {timestamp} in a message template
+ */
+export function renderWebhookTemplate(
+  template: string,
+  event: StatusChangeEvent
+): string {
+  const values: Record<string, string> = {
+    itemId: event.itemId,
+    name: event.name || event.itemId,
+    changes: event.changes.map(formatStatusChange).join("; "),
+    timestamp: event.timestamp,
+  };
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? values[key] : placeholder
+  );
+}
+
+/**
+ * Builds the request body for a webhook format
+ */
+export function buildWebhookPayload(
+  format: WebhookFormat,
+  event: StatusChangeEvent,
+  text: string
+): unknown {
+  const changeLines = event.changes.map(formatStatusChange);
+
+  switch (format) {
+    case "slack":
+      return {
+        text,
+        blocks: [
+          { type: "section", text: { type: "mrkdwn", text: `*${text}*` } },
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: changeLines.map((line) => `• ${line}`).join("\n"),
+            },
+          },
+        ],
+      };
+    case "teams":
+      // Adaptive Card message, as accepted by Teams workflow webhooks
+      return {
+        type: "message",
+        attachments: [
+          {
+            contentType: "application/vnd.microsoft.card.adaptive",
+            content: {
+              $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+              type: "AdaptiveCard",
+              version: "1.4",
+              body: [
+                { type: "TextBlock", text, weight: "Bolder", wrap: true },
+                {
+                  type: "FactSet",
+                  facts: event.changes.map((change) => ({
+                    title: change.label,
+                    value: formatStatusTransition(change),
+                  })),
+                },
+              ],
+            },
+          },
+        ],
+      };
+    default:
+      return {
+        event: "item.status_changed",
+        itemId: event.itemId,
+        name: event.name,
+        text,
+        changes: event.changes,
+        status: event.status,
+        timestamp: event.timestamp,
+      };
+  }
+}
+
+/**
+ * POSTs a status change to one webhook
+ */
+export async function sendWebhook(
+  target: WebhookTarget,
+  event: StatusChangeEvent,
+  template = DEFAULT_WEBHOOK_TEMPLATE,
+  transport: FetchFunction = fetch
+): Promise<void> {
+  const text = renderWebhookTemplate(template, event);
+  const response = await transport(target.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(buildWebhookPayload(target.format, event, text)),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new CwsError(
+      ErrorCode.API_ERROR,
+      `Webhook returned HTTP ${response.status}`
+    );
+  }
+}
+
+/**
+ * Sends a status change to every webhook. Failures are logged and do not
+ * interrupt the caller.
+ */
+export async function notifyWebhooks(
+  targets: WebhookTarget[],
+  event: StatusChangeEvent,
+  template = DEFAULT_WEBHOOK_TEMPLATE,
+  transport?: FetchFunction
+): Promise<void> {
+  await Promise.all(
+    targets.map(async (target) => {
+      try {
+        await sendWebhook(target, event, template, transport);
+        Logger.verbose(`Notified ${target.format} webhook ${target.url}`);
+      } catch (error) {
+        Logger.yellow(
+          `⚠️  Webhook ${new URL(target.url).host} failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    })
+  );
+}
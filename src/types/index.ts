@@ -43,6 +43,22 @@ export interface UploadItemPackageResponse {
   uploadState?: UploadState;
 }
 
+export interface UploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  // Average throughput since the upload started
+  bytesPerSecond: number;
+}
+
+export interface UploadPackageOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  // Use the resumable upload protocol; by default it is used for large
+  // packages only
+  resumable?: boolean;
+  // Bytes sent per resumable request, a multiple of 256 KiB
+  chunkSize?: number;
+}
+
 export interface PublishItemRequest {
   skipReview?: boolean;
   publishType?: PublishType;
@@ -70,33 +86,679 @@ export interface FetchItemStatusResponse {
   warned?: boolean;
 }
 
-export interface ChromeWebStoreConfig {
+// Credentials of a Google account, authorized through an OAuth client
+export interface OAuthConfig {
   clientId: string;
   clientSecret: string;
   refreshToken: string;
   publisherId: string;
 }
 
+// Credentials of a service account added to the publisher
+export interface ServiceAccountConfig {
+  serviceAccountKeyFile: string;
+  publisherId: string;
+}
+
+export type ChromeWebStoreConfig = OAuthConfig | ServiceAccountConfig;
+
+// Where secret config fields (client secret, refresh token) are kept
+export type SecretStoreType = "plain" | "encrypted-file" | "keyring";
+
+// Placeholder saved in the config file for a secret kept in a secret store
+export interface SecretReference {
+  secretStore: Exclude<SecretStoreType, "plain">;
+  key: string;
+}
+
+type WithSecretReferences<T> = {
+  [K in keyof T]: T[K] | SecretReference;
+};
+
+// Credentials as saved in the config file, before secrets are resolved
+export type StoredConfig =
+  | WithSecretReferences<OAuthConfig>
+  | WithSecretReferences<ServiceAccountConfig>;
+
+// Contents of the config file: named credential profiles. A legacy file
+// holding a single ChromeWebStoreConfig is read as the "default" profile.
+export interface ConfigFile {
+  defaultProfile?: string;
+  profiles: Record<string, StoredConfig>;
+}
+
+export interface ProfileSummary {
+  name: string;
+  publisherId: string;
+  authType: "oauth" | "service-account";
+  secretStore: SecretStoreType;
+  isDefault: boolean;
+}
+
+// Backend holding secret config values, addressed by key
+export interface SecretStore {
+  get(key: string): Promise<string>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Fields of a Google service account JSON key used for token exchange
+export interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  token_uri?: string;
+}
+
+export type InspectionSeverity = "error" | "warning";
+
+export interface InspectionIssue {
+  severity: InspectionSeverity;
+  message: string;
+}
+
+export interface ExtensionManifest {
+  manifest_version?: number;
+  name?: string;
+  version?: string;
+  icons?: Record<string, string>;
+  action?: { default_icon?: string | Record<string, string> };
+  browser_action?: { default_icon?: string | Record<string, string> };
+  background?: { service_worker?: string; scripts?: string[] };
+  key?: string;
+  [key: string]: unknown;
+}
+
+export interface PackageInspectionReport {
+  file: string;
+  size: number;
+  fileCount: number;
+  manifest?: ExtensionManifest;
+  issues: InspectionIssue[];
+}
+
+export interface PackedFile {
+  name: string;
+  size: number;
+}
+
+export interface PackResult {
+  outputPath: string;
+  files: PackedFile[];
+  totalSize: number;
+  archiveSize: number;
+}
+
+export interface ProjectPublishDefaults {
+  skipReview?: boolean;
+  publishType?: string;
+  deployPercentage?: number;
+}
+
+export interface ProjectItemConfig {
+  itemId: string;
+  package?: string;
+  publish?: ProjectPublishDefaults;
+}
+
+export type WebhookFormat = "json" | "slack" | "teams";
+
+export interface WebhookTarget {
+  url: string;
+  format: WebhookFormat;
+}
+
+export interface ProjectConfig {
+  concurrency?: number;
+  items: Record<string, ProjectItemConfig>;
+  webhooks?: WebhookTarget[];
+}
+
+export interface BatchTarget extends ProjectItemConfig {
+  name: string;
+}
+
+// Outcome of a command for one item: a one-line summary for humans and
+// structured data for JSON output
+export interface CommandResult {
+  summary: string;
+  data?: Record<string, unknown>;
+}
+
+export type StatusField =
+  | "submittedState"
+  | "publishedState"
+  | "uploadState"
+  | "warned"
+  | "takenDown"
+  | "deployPercentage";
+
+// A field that differs between two successive status snapshots
+export interface StatusChange {
+  field: StatusField;
+  label: string;
+  from?: string | number | boolean;
+  to?: string | number | boolean;
+}
+
+export interface StatusChangeEvent {
+  itemId: string;
+  name?: string;
+  changes: StatusChange[];
+  status: FetchItemStatusResponse;
+  timestamp: string;
+}
+
+// The status of one item in the multi-item table; error is set when the
+// status could not be fetched
+export interface ItemStatusRow {
+  itemId: string;
+  name?: string;
+  status?: FetchItemStatusResponse;
+  error?: ErrorInfo;
+}
+
+export type StatusColumnKey =
+  | "name"
+  | "id"
+  | "version"
+  | "deploy"
+  | "state"
+  | "upload"
+  | "warned"
+  | "takenDown";
+
+// A `--filter column=value` (or `column!=value`) condition
+export interface StatusFilter {
+  column: StatusColumnKey;
+  value: string;
+  negate: boolean;
+}
+
+// A `--sort column[:desc]` order
+export interface StatusSort {
+  column: StatusColumnKey;
+  descending: boolean;
+}
+
+// Exit codes of commands waiting for a review: 0 when the awaited state is
+// reached, otherwise one code per outcome so CI can branch on it
+export enum ReviewExitCode {
+  TARGET_REACHED = 0,
+  PUBLISHED = 2,
+  STAGED = 3,
+  REJECTED = 4,
+  CANCELLED = 5,
+  TIMEOUT = 6,
+}
+
+export interface ReviewOutcome {
+  target: ItemState;
+  // Final submission state; undefined when the wait timed out
+  state?: ItemState;
+  timedOut: boolean;
+  exitCode: ReviewExitCode;
+  status?: FetchItemStatusResponse;
+}
+
+export interface WaitOptions {
+  wait?: boolean;
+  timeout?: string;
+  pollInterval?: string;
+}
+
+// Checks run against the item's status before it is published
+export type PreflightCheckName =
+  | "upload-succeeded"
+  | "no-pending-review"
+  | "version-newer"
+  | "not-taken-down"
+  | "not-warned";
+
+export interface PreflightContext {
+  status: FetchItemStatusResponse;
+  // Version of the package being published, when known
+  version?: string;
+}
+
+export interface PreflightCheckResult {
+  name: PreflightCheckName;
+  status: "passed" | "failed" | "skipped";
+  message: string;
+}
+
+export interface PreflightOptions {
+  // Publish to 100% of production users without asking
+  yes?: boolean;
+  skipCheck?: string[];
+}
+
+export type RolloutStatus =
+  | "running"
+  | "paused"
+  | "completed"
+  | "aborted"
+  | "failed";
+
+export interface RolloutStep {
+  percentage: number;
+  appliedAt: string;
+}
+
+// Progress of a gradual rollout, persisted so a restarted process resumes it
+export interface RolloutState {
+  itemId: string;
+  schedule: number[];
+  intervalMs: number;
+  // Index in schedule of the next percentage to apply
+  currentStep: number;
+  status: RolloutStatus;
+  startedAt: string;
+  updatedAt: string;
+  nextStepAt?: string;
+  steps: RolloutStep[];
+  error?: string;
+}
+
+export type ReleaseStepAction =
+  | "pack"
+  | "validate"
+  | "upload"
+  | "wait-for-processing"
+  | "publish"
+  | "wait-for-review"
+  | "deploy"
+  | "rollout";
+
+// A step runs only when every condition given holds
+export interface ReleaseStepCondition {
+  // Environment variables and their required values; true means set, false unset
+  env?: Record<string, string | boolean>;
+  // States the item's latest submission must be in
+  state?: ItemState | ItemState[];
+  dry?: boolean;
+}
+
+export interface ReleaseStep {
+  // Unique name, used to resume; defaults to the action
+  name?: string;
+  run: ReleaseStepAction;
+  if?: ReleaseStepCondition;
+  // Maximum duration of the step, e.g. 10m
+  timeout?: string | number;
+  // pack
+  output?: string;
+  // validate
+  bump?: string;
+  force?: boolean;
+  // upload
+  resumable?: boolean;
+  // publish, deploy
+  publishType?: string;
+  deployPercentage?: number;
+  skipReview?: boolean;
+  skipChecks?: string[];
+  // wait-for-review
+  target?: ItemState;
+  pollInterval?: string | number;
+  // rollout
+  schedule?: number[];
+  interval?: string | number;
+}
+
+export interface ReleasePipeline {
+  name?: string;
+  itemId?: string;
+  // Source directory or package, relative to the pipeline file
+  source?: string;
+  steps: ReleaseStep[];
+}
+
+export type ReleaseStatus = "running" | "completed" | "failed";
+
+export interface ReleaseStepRecord {
+  name: string;
+  status: "completed" | "skipped" | "failed";
+  startedAt: string;
+  finishedAt: string;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ReleaseState {
+  itemId: string;
+  pipelineFile: string;
+  // SHA-256 of the pipeline file the release last ran with
+  pipelineSha256: string;
+  status: ReleaseStatus;
+  startedAt: string;
+  updatedAt: string;
+  steps: ReleaseStepRecord[];
+  // Package to upload, once packed or validated
+  package?: string;
+  version?: string;
+  // Publish type of the last publish step
+  publishType?: PublishType;
+  error?: string;
+}
+
+export interface ReleaseUploadOptions {
+  // Raise the version above the store version: patch, minor or major
+  bump?: string;
+  // Upload even when the version is not newer than the store version
+  force?: boolean;
+  resumable?: boolean;
+  // How long to wait for upload processing, in milliseconds (default: 5 minutes)
+  maxWaitTimeMs?: number;
+}
+
+export interface ReleaseUploadResult {
+  itemId: string;
+  // File or directory given to upload. Packages built from it (a packed
+  // directory, a bumped copy) are removed once the upload is done.
+  file: string;
+  version?: string;
+  uploadState?: UploadState;
+  response: UploadItemPackageResponse;
+}
+
+export interface ReleasePublishOptions {
+  publishType?: PublishType;
+  deployPercentage?: number;
+  skipReview?: boolean;
+  skipChecks?: PreflightCheckName[];
+  // Version being published, for the version-newer check (default: the
+  // version of the last upload through this manager)
+  version?: string;
+}
+
+export interface ReleaseReviewOptions {
+  // State to wait for (default: PUBLISHED)
+  target?: ItemState;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface ReleaseRolloutOptions {
+  // Increasing deploy percentages (default: 5, 10, 25, 50, 100)
+  schedule?: number[];
+  // Time between steps, in milliseconds (default: 24 hours)
+  intervalMs?: number;
+}
+
+export interface ReleaseRolloutResult {
+  itemId: string;
+  schedule: number[];
+  steps: RolloutStep[];
+}
+
+// Progress events of ReleaseManager, by event name
+export interface ReleaseManagerEvents {
+  packed: { itemId: string; result: PackResult };
+  inspected: { itemId: string; file: string; report: PackageInspectionReport };
+  versionBumped: { itemId: string; from: string; to: string };
+  uploadProgress: { itemId: string } & UploadProgress;
+  uploaded: { itemId: string; response: UploadItemPackageResponse };
+  processed: { itemId: string; uploadState: UploadState };
+  preflight: { itemId: string; checks: PreflightCheckResult[] };
+  published: { itemId: string; response: PublishItemResponse };
+  reviewPolled: { itemId: string; state?: ItemState; elapsedMs: number };
+  reviewed: { itemId: string; outcome: ReviewOutcome };
+  rolloutWaiting: { itemId: string; percentage: number; nextStepAt: string };
+  rolloutStep: {
+    itemId: string;
+    percentage: number;
+    step: number;
+    totalSteps: number;
+  };
+}
+
+export type HistoryAction =
+  | "upload"
+  | "publish"
+  | "deploy"
+  | "cancel"
+  | "rollout";
+
+// One store-changing operation, appended to the local history file
+export interface HistoryEntry {
+  timestamp: string;
+  // OS user that ran the command
+  user: string;
+  // Configuration profile, unset when credentials came from the environment
+  profile?: string;
+  publisherId: string;
+  action: HistoryAction;
+  itemId: string;
+  packageSha256?: string;
+  manifestVersion?: string;
+  params: Record<string, unknown>;
+  success: boolean;
+  // State reported by the API, such as the upload or publish state
+  state?: string;
+  error?: ErrorInfo;
+}
+
+// The parts of a history entry known before the operation runs
+export type HistoryRecord = Pick<
+  HistoryEntry,
+  "action" | "itemId" | "params" | "packageSha256" | "manifestVersion"
+>;
+
+export interface HistoryFilter {
+  itemId?: string;
+  action?: HistoryAction;
+  profile?: string;
+  user?: string;
+  manifestVersion?: string;
+  since?: Date;
+  until?: Date;
+  failedOnly?: boolean;
+  limit?: number;
+}
+
+// A package kept in the local artifact cache after a successful upload
+export interface CachedArtifact {
+  itemId: string;
+  version: string;
+  sha256: string;
+  size: number;
+  uploadedAt: string;
+  // The file or directory the package was uploaded from
+  source: string;
+  path: string;
+}
+
+export interface BatchResult {
+  target: BatchTarget;
+  success: boolean;
+  message: string;
+  data?: Record<string, unknown>;
+  error?: ErrorInfo;
+}
+
+// Stable error codes reported in JSON output
+export enum ErrorCode {
+  INVALID_ARGUMENT = "INVALID_ARGUMENT",
+  FILE_NOT_FOUND = "FILE_NOT_FOUND",
+  CONFIG_ERROR = "CONFIG_ERROR",
+  PACKAGE_INVALID = "PACKAGE_INVALID",
+  VERSION_NOT_NEWER = "VERSION_NOT_NEWER",
+  UPLOAD_FAILED = "UPLOAD_FAILED",
+  TIMEOUT = "TIMEOUT",
+  API_ERROR = "API_ERROR",
+  AUTHENTICATION_ERROR = "AUTHENTICATION_ERROR",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NOT_FOUND = "NOT_FOUND",
+  RATE_LIMITED = "RATE_LIMITED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  BATCH_FAILED = "BATCH_FAILED",
+  ROLLOUT_HALTED = "ROLLOUT_HALTED",
+  REVIEW_FAILED = "REVIEW_FAILED",
+  PREFLIGHT_FAILED = "PREFLIGHT_FAILED",
+  CONFIRMATION_REQUIRED = "CONFIRMATION_REQUIRED",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  hint?: string;
+  status?: number;
+  path?: string;
+  details?: unknown[];
+}
+
+// Error body returned by Google APIs
+export interface GoogleApiErrorPayload {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: unknown[];
+}
+
+export interface RetryOptions {
+  // Maximum number of retries after the first attempt
+  maxRetries: number;
+  // Maximum total time spent on one request including retries, in milliseconds
+  retryTimeout: number;
+  // Base delay for exponential backoff, in milliseconds
+  initialDelay: number;
+  // Upper bound for a single backoff delay, in milliseconds
+  maxDelay: number;
+}
+
+// The part of fetch the client uses to send requests: the transport that
+// proxies, custom CAs and fakes plug into
+export type FetchFunction = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+export interface HttpTransportOptions {
+  // PEM file with root certificates to trust besides the default ones
+  caFile?: string;
+  // Proxy for https:// URLs (default: HTTPS_PROXY, then HTTP_PROXY)
+  httpsProxy?: string;
+  // Proxy for http:// URLs (default: HTTP_PROXY)
+  httpProxy?: string;
+  // Hosts to reach without the proxy (default: NO_PROXY)
+  noProxy?: string;
+}
+
+export interface ChromeWebStoreClientOptions {
+  retry?: Partial<RetryOptions>;
+  // Sends requests instead of the global fetch, e.g. through a proxy from
+  // createHttpTransport, or to a fake store
+  fetch?: FetchFunction;
+  // Time limit for each request, in milliseconds; a request that times out
+  // is retried like a network error. While a body is sent, the limit applies
+  // to the time between chunks, so slow uploads are not cut short.
+  timeout?: number;
+  // Aborts the client's requests, e.g. when a CI job is cancelled
+  signal?: AbortSignal;
+  // Replaces https://chromewebstore.googleapis.com, e.g. with an emulator
+  baseUrl?: string;
+  // Replaces the OAuth token endpoint, including a service account's token_uri
+  tokenUrl?: string;
+}
+
+// A request received by the fake store, with credentials redacted
+export interface FakeStoreRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+// How the fake store treats an item. Without a delay, uploads and reviews
+// finish on the next status check.
+export interface FakeStoreBehavior {
+  // How long uploads stay IN_PROGRESS, in milliseconds
+  processingDelayMs?: number;
+  // How long submissions stay PENDING_REVIEW, in milliseconds
+  reviewDelayMs?: number;
+  // End upload processing in FAILED
+  failUploads?: boolean;
+  // End reviews in REJECTED
+  rejectReviews?: boolean;
+  // Answer this many of the item's next requests with HTTP 429
+  rateLimitedRequests?: number;
+  // Retry-After sent with HTTP 429 responses, in seconds
+  retryAfterSeconds?: number;
+  takenDown?: boolean;
+  warned?: boolean;
+}
+
+export interface FakeItemConfig {
+  // Published version the item starts out with (default: 0.0.0)
+  version?: string;
+  name?: string;
+  behavior?: FakeStoreBehavior;
+}
+
+export interface FakeStoreOptions {
+  // Behaviour of items without their own
+  behavior?: FakeStoreBehavior;
+  items?: Record<string, FakeItemConfig>;
+  // Published version of items not listed in `items`
+  getPublishedVersion?: (itemId: string) => string | undefined;
+  // Called with every request, after its credentials are redacted
+  onRequest?: (request: FakeStoreRequest) => void;
+}
+
+// Contents of an emulator --scenario file
+export interface EmulatorScenario {
+  behavior?: FakeStoreBehavior;
+  items?: Record<string, FakeItemConfig>;
+}
+
+export interface EmulatorOptions extends FakeStoreOptions {
+  // Port to listen on; 0 picks a free port (default: 0)
+  port?: number;
+  host?: string;
+}
+
 export interface CliOptions {
   config?: string;
+  profile?: string;
   verbose?: boolean;
   dry?: boolean;
+  project?: string;
+  json?: boolean;
+  maxRetries?: string;
+  retryTimeout?: string;
+  caFile?: string;
+  requestTimeout?: string;
+}
+
+// Item selection options shared by all item commands
+export interface BatchCommandOptions {
+  all?: boolean;
+  item?: string[];
+  concurrency?: string;
 }
 
 export interface CommandOptions extends CliOptions {
   itemId: string;
 }
 
-export interface UploadOptions extends CommandOptions {
+export interface UploadOptions extends CommandOptions, PreflightOptions {
   file: string;
   skipReview?: boolean;
   publishType?: string;
   deployPercentage?: string;
   autoPublish?: boolean;
   maxWaitTime?: string;
+  force?: boolean;
+  bump?: string;
+  resumable?: boolean;
 }
 
-export interface PublishOptions extends CommandOptions {
+export interface PublishOptions
+  extends CommandOptions,
+    WaitOptions,
+    PreflightOptions {
   skipReview?: boolean;
   publishType?: string;
   deployPercentage?: string;
@@ -107,23 +769,92 @@ export interface DeployPercentageOptions extends CommandOptions {
 }
 
 // Raw option types from Commander.js before processing
-export interface PublishCommandOptions {
+export interface PublishCommandOptions
+  extends BatchCommandOptions,
+    WaitOptions,
+    PreflightOptions {
   skipReview?: boolean;
   publishType?: string;
   deployPercentage?: string;
 }
 
-export interface UploadCommandOptions {
+export interface UploadCommandOptions
+  extends BatchCommandOptions,
+    PreflightOptions {
   skipReview?: boolean;
   publishType?: string;
   deployPercentage?: string;
   autoPublish?: boolean;
   maxWaitTime?: string;
+  force?: boolean;
+  bump?: string;
+  resumable?: boolean;
+}
+
+export interface PackCommandOptions {
+  output?: string;
 }
 
-export interface StatusCommandOptions {
+export interface StatusCommandOptions extends BatchCommandOptions {
   watch?: boolean;
+  dashboard?: boolean;
+  interval?: string;
+  waitFor?: string;
+  timeout?: string;
+  webhook?: string[];
+  webhookTemplate?: string;
+  itemsFile?: string;
+  sort?: string;
+  filter?: string[];
+}
+
+export interface ReleaseCommandOptions extends PreflightOptions {
+  source?: string;
+  resume?: boolean;
+  restart?: boolean;
+}
+
+export interface RolloutCommandOptions {
+  schedule?: string;
   interval?: string;
+  restart?: boolean;
+}
+
+export interface HistoryCommandOptions {
+  itemId?: string;
+  action?: string;
+  user?: string;
+  packageVersion?: string;
+  since?: string;
+  until?: string;
+  failed?: boolean;
+  limit?: string;
+  format?: string;
+  output?: string;
+}
+
+export interface RollbackCommandOptions extends PreflightOptions {
+  to?: string;
+  list?: boolean;
+  zeroDeploy?: boolean;
+  bump?: string;
+  skipReview?: boolean;
+  deployPercentage?: string;
+  maxWaitTime?: string;
+}
+
+export interface EmulatorCommandOptions {
+  port?: string;
+  host?: string;
+  scenario?: string;
+  processingDelay?: string;
+  reviewDelay?: string;
+  failUploads?: boolean;
+  rejectReviews?: boolean;
+  rateLimit?: string;
+  retryAfter?: string;
+  takenDown?: string;
+  warned?: string;
 }
 
 export interface ConfigureCommandOptions {
@@ -132,7 +863,11 @@ export interface ConfigureCommandOptions {
   clientSecret?: string;
   refreshToken?: string;
   publisherId?: string;
+  serviceAccountKeyFile?: string;
+  secretStore?: string;
+  login?: boolean;
+  manual?: boolean;
   config?: string; // Global option available to all commands
 }
 
-// Cancel and Deploy commands don't have specific options beyond global ones
+// Cancel and Deploy commands only take the shared item selection options (BatchCommandOptions)
@@ -0,0 +1,254 @@
+import { existsSync, readFileSync } from "fs";
+import { Command } from "commander";
+import chalk from "chalk";
+import {
+  BatchCommandOptions,
+  BatchResult,
+  BatchTarget,
+  CliOptions,
+  CommandResult,
+  ErrorCode,
+} from "../types";
+import { CwsError, toErrorInfo } from "./errors";
+import { Output } from "./output";
+import { ProjectManager } from "./project";
+import { Logger } from "./logger";
+import { setSpinnerAnimation } from "./spinner";
+import { renderTable } from "./table";
+
+const DEFAULT_CONCURRENCY = 3;
+
+function collectItemName(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Adds the --all / --item / --concurrency options used to run a command
+ * against items from the project file
+ */
+export function addBatchOptions(command: Command): Command {
+  return command
+    .option("--all", "Run against every item in the project file")
+    .option(
+      "--item <name>",
+      "Run against a named item from the project file (repeatable)",
+      collectItemName
+    )
+    .option(
+      "--concurrency <count>",
+      "Maximum number of items processed at once (default: 3)"
+    );
+}
+
+export function isBatchMode(options: BatchCommandOptions): boolean {
+  return !!options.all || (!!options.item && options.item.length > 0);
+}
+
+/**
+ * Ensures an item ID was given when not running in batch mode
+ */
+export function requireItemId(itemId: string | undefined): string {
+  if (!itemId) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Missing item ID. Pass <item-id>, or use --item <name> / --all with a project file."
+    );
+  }
+  return itemId;
+}
+
+export function parseConcurrency(
+  value: string | undefined,
+  fallback = DEFAULT_CONCURRENCY
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const concurrency = parseInt(value, 10);
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Concurrency must be a positive integer"
+    );
+  }
+  return concurrency;
+}
+
+/**
+ * Maps values through an async operation, running at most `concurrency`
+ * operations at once. Results keep the order of the values.
+ */
+export async function mapWithConcurrency<T, R>(
+  values: T[],
+  concurrency: number,
+  operation: (value: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(values.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < values.length) {
+      const index = nextIndex++;
+      results[index] = await operation(values[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, values.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Reads item IDs from a file: one per line (or separated by commas or
+ * spaces), ignoring blank lines and `#` comments
+ */
+export function readItemIdsFile(filePath: string): string[] {
+  if (!existsSync(filePath)) {
+    throw new CwsError(
+      ErrorCode.FILE_NOT_FOUND,
+      `Item ID file not found: ${filePath}`
+    );
+  }
+
+  return readFileSync(filePath, "utf8")
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, ""))
+    .flatMap((line) => line.split(/[\s,]+/))
+    .filter((itemId) => itemId.length > 0);
+}
+
+/**
+ * Runs an operation for every selected project item with bounded concurrency
+ */
+export async function runBatch(
+  globalOptions: CliOptions,
+  options: BatchCommandOptions,
+  operation: (target: BatchTarget) => Promise<CommandResult>
+): Promise<BatchResult[]> {
+  const project = ProjectManager.loadProject(globalOptions.project);
+  const targets = ProjectManager.selectItems(
+    project,
+    options.all ? undefined : options.item
+  );
+  const concurrency = parseConcurrency(
+    options.concurrency,
+    project.concurrency || DEFAULT_CONCURRENCY
+  );
+
+  Logger.gray(
+    `Processing ${targets.length} item(s) with concurrency ${Math.min(concurrency, targets.length)}\n`
+  );
+
+  // Animated spinners overwrite each other when several items run at once
+  if (concurrency > 1 && targets.length > 1) {
+    setSpinnerAnimation(false);
+  }
+
+  const results = await mapWithConcurrency(
+    targets,
+    concurrency,
+    async (target): Promise<BatchResult> => {
+      try {
+        const result = await Logger.withPrefix(target.name, () =>
+          operation(target)
+        );
+        return {
+          target,
+          success: true,
+          message: result.summary,
+          data: result.data,
+        };
+      } catch (error) {
+        const errorInfo = toErrorInfo(error);
+        Logger.red(`[${target.name}] ❌ ${errorInfo.message}`);
+        if (errorInfo.hint) {
+          Logger.yellow(`[${target.name}] 💡 ${errorInfo.hint}`);
+        }
+        return {
+          target,
+          success: false,
+          message: errorInfo.message,
+          error: errorInfo,
+        };
+      }
+    }
+  );
+
+  setSpinnerAnimation(true);
+  return results;
+}
+
+/**
+ * Prints the per-item summary table (or the JSON document in --json mode)
+ * and exits non-zero if any item failed
+ */
+export function finishBatch(results: BatchResult[]): void {
+  const failed = results.filter((result) => !result.success).length;
+
+  Output.write({
+    success: failed === 0,
+    items: results.map((result) => ({
+      name: result.target.name,
+      itemId: result.target.itemId,
+      success: result.success,
+      ...result.data,
+      error: result.error,
+    })),
+    error:
+      failed > 0
+        ? {
+            code: ErrorCode.BATCH_FAILED,
+            message: `${failed} of ${results.length} item(s) failed`,
+          }
+        : undefined,
+  });
+
+  const rows = results.map((result) => [
+    result.target.name,
+    result.target.itemId,
+    result.success ? chalk.green("✔ success") : chalk.red("✖ failed"),
+    result.message,
+  ]);
+
+  Logger.blue("\n📋 Summary:");
+  Logger.log(renderTable(["Item", "Item ID", "Result", "Details"], rows));
+
+  if (failed > 0) {
+    Logger.red(`\n${failed} of ${results.length} item(s) failed`);
+    process.exit(1);
+  }
+
+  Logger.green(`\n✅ All ${results.length} item(s) succeeded`);
+}
+
+/**
+ * Fills publish options from the item's project defaults wherever the
+ * command line did not set them explicitly
+ */
+export function applyPublishDefaults<
+  T extends { skipReview?: boolean; publishType?: string; deployPercentage?: string },
+>(opts: T, target: BatchTarget, command: Command): T {
+  const defaults = target.publish || {};
+  const isUnset = (key: string) => {
+    const source = command.getOptionValueSource(key);
+    return source === undefined || source === "default";
+  };
+
+  return {
+    ...opts,
+    skipReview:
+      isUnset("skipReview") && defaults.skipReview !== undefined
+        ? defaults.skipReview
+        : opts.skipReview,
+    publishType:
+      isUnset("publishType") && defaults.publishType !== undefined
+        ? defaults.publishType
+        : opts.publishType,
+    deployPercentage:
+      isUnset("deployPercentage") && defaults.deployPercentage !== undefined
+        ? String(defaults.deployPercentage)
+        : opts.deployPercentage,
+  };
+}
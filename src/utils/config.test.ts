@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigManager } from "./config";
+
+const CONFIG = {
+  clientId: "client-id",
+  clientSecret: "client-secret",
+  refreshToken: "refresh-token",
+  publisherId: "publisher-id",
+};
+
+describe("ConfigManager with the encrypted-file secret store", () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cws-config-"));
+    configPath = join(dir, ".cws-manager-cli", "config.json");
+    process.env.CWS_SECRET_PASSPHRASE = "correct horse";
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.CWS_SECRET_PASSPHRASE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves a first profile into a directory that does not exist yet", async () => {
+    await ConfigManager.saveConfig(
+      CONFIG,
+      configPath,
+      undefined,
+      "encrypted-file"
+    );
+
+    expect(existsSync(join(dir, ".cws-manager-cli", "secrets.enc"))).toBe(true);
+    expect(readFileSync(configPath, "utf8")).not.toContain("client-secret");
+    await expect(ConfigManager.loadConfig(configPath)).resolves.toEqual(CONFIG);
+  });
+
+  it("unlocks the store once when saving over an encrypted profile", async () => {
+    await ConfigManager.saveConfig(
+      CONFIG,
+      configPath,
+      undefined,
+      "encrypted-file"
+    );
+
+    const scrypt = jest.spyOn(crypto, "scrypt");
+    await ConfigManager.saveConfig(
+      { ...CONFIG, refreshToken: "new-refresh-token" },
+      configPath,
+      undefined,
+      "encrypted-file"
+    );
+
+    expect(scrypt).toHaveBeenCalledTimes(1);
+    await expect(ConfigManager.loadConfig(configPath)).resolves.toEqual({
+      ...CONFIG,
+      refreshToken: "new-refresh-token",
+    });
+  });
+});
@@ -1,20 +1,52 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  unlinkSync,
+} from "fs";
+import { join, dirname, resolve } from "path";
 import { homedir } from "os";
-import { ChromeWebStoreConfig } from "../types";
+import { randomBytes } from "crypto";
+import {
+  ChromeWebStoreConfig,
+  ConfigFile,
+  ErrorCode,
+  ProfileSummary,
+  SecretStore,
+  SecretStoreType,
+  StoredConfig,
+} from "../types";
+import { CwsError } from "./errors";
+import { isServiceAccountConfig } from "../services/service-account";
+import {
+  createSecretStore,
+  isSecretReference,
+} from "../services/secret-store";
+
+// Opens the secret store of a type, reusing stores opened before
+type SecretStoreLookup = (
+  type: Exclude<SecretStoreType, "plain">
+) => SecretStore;
 
 /**
  * Manages Chrome Web Store CLI configuration.
  *
  * Configuration can be loaded from:
- * 1. A JSON config file (default: ~/.cws-manager-cli/config.json)
+ * 1. A JSON config file (default: ~/.cws-manager-cli/config.json) holding
+ *    named profiles, selected with --profile or CWS_PROFILE
  * 2. Environment variables (as fallback when config file doesn't exist)
  *
+ * Secret fields of a profile can be kept in a secret store (an encrypted
+ * file or the OS keyring); the config file then holds references to them.
+ *
  * Environment variables:
  * - CWS_CLIENT_ID: Google OAuth2 Client ID
  * - CWS_CLIENT_SECRET: Google OAuth2 Client Secret
  * - CWS_REFRESH_TOKEN: OAuth2 Refresh Token
  * - CWS_PUBLISHER_ID: Chrome Web Store Publisher ID
+ * - CWS_SERVICE_ACCOUNT_KEY_FILE: Path to a service account JSON key, used
+ *   instead of the OAuth2 variables
  */
 export class ConfigManager {
   private static readonly CONFIG_DIR = join(homedir(), ".cws-manager-cli");
@@ -22,6 +54,10 @@ export class ConfigManager {
     ConfigManager.CONFIG_DIR,
     "config.json"
   );
+  private static readonly DEFAULT_PROFILE = "default";
+  private static readonly PROFILE_ENV_VAR = "CWS_PROFILE";
+  private static readonly SECRETS_FILE_NAME = "secrets.enc";
+  private static readonly SECRET_FIELDS = ["clientSecret", "refreshToken"];
 
   // Environment variable names for configuration
   private static readonly ENV_VARS = {
@@ -29,6 +65,7 @@ export class ConfigManager {
     CLIENT_SECRET: "CWS_CLIENT_SECRET",
     REFRESH_TOKEN: "CWS_REFRESH_TOKEN",
     PUBLISHER_ID: "CWS_PUBLISHER_ID",
+    SERVICE_ACCOUNT_KEY_FILE: "CWS_SERVICE_ACCOUNT_KEY_FILE",
   } as const;
 
   /**
@@ -39,6 +76,16 @@ export class ConfigManager {
     const clientSecret = process.env[ConfigManager.ENV_VARS.CLIENT_SECRET];
     const refreshToken = process.env[ConfigManager.ENV_VARS.REFRESH_TOKEN];
     const publisherId = process.env[ConfigManager.ENV_VARS.PUBLISHER_ID];
+    const serviceAccountKeyFile =
+      process.env[ConfigManager.ENV_VARS.SERVICE_ACCOUNT_KEY_FILE];
+
+    // A service account key replaces the OAuth2 credentials
+    if (serviceAccountKeyFile && publisherId) {
+      return {
+        serviceAccountKeyFile: serviceAccountKeyFile.trim(),
+        publisherId: publisherId.trim(),
+      };
+    }
 
     // All environment variables must be present
     if (!clientId || !clientSecret || !refreshToken || !publisherId) {
@@ -60,20 +107,212 @@ export class ConfigManager {
     return ConfigManager.loadConfigFromEnv() !== null;
   }
 
-  static async loadConfig(configPath?: string): Promise<ChromeWebStoreConfig> {
+  /**
+   * Returns the profile selected by the argument, CWS_PROFILE or the file's
+   * default, in that order
+   */
+  private static resolveProfileName(file: ConfigFile, profile?: string): string {
+    return (
+      profile ||
+      process.env[ConfigManager.PROFILE_ENV_VAR] ||
+      file.defaultProfile ||
+      ConfigManager.DEFAULT_PROFILE
+    );
+  }
+
+  /**
+   * Returns the name of the profile loadConfig would use, or undefined when
+   * the credentials come from environment variables
+   */
+  static getActiveProfile(
+    configPath?: string,
+    profile?: string
+  ): string | undefined {
+    const filePath = configPath || ConfigManager.CONFIG_FILE;
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+    return ConfigManager.resolveProfileName(
+      ConfigManager.readConfigFile(filePath),
+      profile
+    );
+  }
+
+  /**
+   * Reads the config file. A legacy file holding one set of credentials is
+   * returned as the default profile.
+   */
+  private static readConfigFile(filePath: string): ConfigFile {
+    const data = JSON.parse(readFileSync(filePath, "utf8"));
+
+    if (data && typeof data.profiles === "object" && data.profiles !== null) {
+      return data as ConfigFile;
+    }
+
+    return {
+      defaultProfile: ConfigManager.DEFAULT_PROFILE,
+      profiles: { [ConfigManager.DEFAULT_PROFILE]: data as ChromeWebStoreConfig },
+    };
+  }
+
+  private static writeConfigFile(file: ConfigFile, filePath: string): void {
+    const configDir = dirname(filePath);
+
+    // Ensure config directory exists
+    if (!existsSync(configDir)) {
+      mkdirSync(configDir, { recursive: true });
+    }
+
+    const configData = JSON.stringify(file, null, 2);
+    writeFileSync(filePath, configData, { encoding: "utf8", mode: 0o600 });
+  }
+
+  // Helper function to read an existing config file for modification
+  private static readExistingConfigFile(filePath: string): ConfigFile {
+    if (!existsSync(filePath)) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Config file not found: ${filePath}`
+      );
+    }
+
+    try {
+      return ConfigManager.readConfigFile(filePath);
+    } catch (error) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to load config from file: ${error}`
+      );
+    }
+  }
+
+  // Helper function to fail on a profile the file does not contain
+  private static requireProfile(
+    file: ConfigFile,
+    name: string,
+    filePath: string
+  ): StoredConfig {
+    const config = file.profiles[name];
+    if (!config) {
+      const available = Object.keys(file.profiles).join(", ") || "none";
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Profile "${name}" not found in ${filePath} (available: ${available})`
+      );
+    }
+    return config;
+  }
+
+  /**
+   * Returns a lookup that opens each secret store once, so an encrypted file
+   * asks for its passphrase only once per operation. The encrypted file lives
+   * next to the config file.
+   */
+  private static getSecretStores(filePath: string): SecretStoreLookup {
+    const stores = new Map<SecretStoreType, SecretStore>();
+    const secretsFile = join(dirname(filePath), ConfigManager.SECRETS_FILE_NAME);
+
+    return (type) => {
+      if (!stores.has(type)) {
+        stores.set(type, createSecretStore(type, secretsFile));
+      }
+      return stores.get(type)!;
+    };
+  }
+
+  // Helper function to replace secret references with the stored values
+  private static async resolveSecrets(
+    stored: StoredConfig,
+    filePath: string
+  ): Promise<ChromeWebStoreConfig> {
+    const getStore = ConfigManager.getSecretStores(filePath);
+    const resolved: Record<string, unknown> = { ...stored };
+
+    for (const [field, value] of Object.entries(stored)) {
+      if (isSecretReference(value)) {
+        resolved[field] = await getStore(value.secretStore).get(value.key);
+      }
+    }
+
+    return resolved as unknown as ChromeWebStoreConfig;
+  }
+
+  // Helper function to move secret fields into a secret store
+  private static async storeSecrets(
+    config: ChromeWebStoreConfig,
+    profile: string,
+    secretStore: SecretStoreType,
+    getStore: SecretStoreLookup
+  ): Promise<StoredConfig> {
+    if (secretStore === "plain") {
+      return config;
+    }
+
+    const stored: Record<string, unknown> = { ...config };
+    // A unique suffix keeps profiles of different config files apart
+    const suffix = randomBytes(4).toString("hex");
+
+    for (const field of ConfigManager.SECRET_FIELDS) {
+      const value = stored[field];
+      if (typeof value === "string") {
+        const key = `${profile}/${field}/${suffix}`;
+        await getStore(secretStore).set(key, value);
+        stored[field] = { secretStore, key };
+      }
+    }
+
+    return stored as unknown as StoredConfig;
+  }
+
+  // Helper function to delete the secrets a stored profile refers to
+  private static async deleteSecrets(
+    stored: StoredConfig,
+    getStore: SecretStoreLookup
+  ): Promise<void> {
+    for (const value of Object.values(stored)) {
+      if (isSecretReference(value)) {
+        await getStore(value.secretStore).delete(value.key);
+      }
+    }
+  }
+
+  private static getSecretStoreType(stored: StoredConfig): SecretStoreType {
+    const reference = Object.values(stored).find(isSecretReference);
+    return reference ? reference.secretStore : "plain";
+  }
+
+  static async loadConfig(
+    configPath?: string,
+    profile?: string
+  ): Promise<ChromeWebStoreConfig> {
     const filePath = configPath || ConfigManager.CONFIG_FILE;
 
     // Try to load from file first
     if (existsSync(filePath)) {
-      try {
-        const configData = readFileSync(filePath, "utf8");
-        const config = JSON.parse(configData) as ChromeWebStoreConfig;
+      const file = ConfigManager.readExistingConfigFile(filePath);
+      const name = ConfigManager.resolveProfileName(file, profile);
+      const config = await ConfigManager.resolveSecrets(
+        ConfigManager.requireProfile(file, name, filePath),
+        filePath
+      );
 
+      try {
         ConfigManager.validateConfig(config);
-        return config;
       } catch (error) {
-        throw new Error(`Failed to load config from file: ${error}`);
+        throw new CwsError(
+          ErrorCode.CONFIG_ERROR,
+          `Failed to load profile "${name}" from file: ${error}`
+        );
       }
+
+      // Key file paths are relative to the config file
+      if (isServiceAccountConfig(config)) {
+        config.serviceAccountKeyFile = resolve(
+          dirname(filePath),
+          config.serviceAccountKeyFile
+        );
+      }
+      return config;
     }
 
     // If file doesn't exist and no custom path specified, try environment variables
@@ -87,46 +326,133 @@ export class ConfigManager {
 
     // Neither file nor environment variables are available
     const envVarsList = Object.values(ConfigManager.ENV_VARS).join(", ");
-    throw new Error(
+    throw new CwsError(
+      ErrorCode.CONFIG_ERROR,
       `Config file not found: ${filePath}\n` +
         `Alternative: Set environment variables (${envVarsList}) or run 'cws-manager configure' to create a config file.`
     );
   }
 
+  /**
+   * Saves credentials as a profile, keeping the other profiles in the file.
+   * With a secret store other than "plain", the secret fields are written to
+   * that store and the file keeps references. Returns the name of the profile
+   * written.
+   */
   static async saveConfig(
     config: ChromeWebStoreConfig,
-    configPath?: string
-  ): Promise<void> {
+    configPath?: string,
+    profile?: string,
+    secretStore: SecretStoreType = "plain"
+  ): Promise<string> {
     const filePath = configPath || ConfigManager.CONFIG_FILE;
-    const configDir = dirname(filePath);
-
-    // Ensure config directory exists
-    if (!existsSync(configDir)) {
-      mkdirSync(configDir, { recursive: true });
-    }
 
     try {
       ConfigManager.validateConfig(config);
-      const configData = JSON.stringify(config, null, 2);
-      writeFileSync(filePath, configData, { encoding: "utf8", mode: 0o600 });
+
+      const file: ConfigFile = existsSync(filePath)
+        ? ConfigManager.readConfigFile(filePath)
+        : { profiles: {} };
+      const name = ConfigManager.resolveProfileName(file, profile);
+
+      const previous = file.profiles[name];
+      // Shared by both steps, so re-saving asks for a passphrase only once
+      const getStore = ConfigManager.getSecretStores(filePath);
+
+      file.profiles[name] = await ConfigManager.storeSecrets(
+        config,
+        name,
+        secretStore,
+        getStore
+      );
+      file.defaultProfile = file.defaultProfile || name;
+      ConfigManager.writeConfigFile(file, filePath);
+
+      // Replaced secrets are removed only once the new profile is saved
+      if (previous) {
+        await ConfigManager.deleteSecrets(previous, getStore);
+      }
+      return name;
     } catch (error) {
-      throw new Error(`Failed to save config: ${error}`);
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to save config: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Lists the profiles in the config file without their secrets
+   */
+  static listProfiles(configPath?: string): ProfileSummary[] {
+    const filePath = configPath || ConfigManager.CONFIG_FILE;
+    if (!existsSync(filePath)) {
+      return [];
     }
+
+    const file = ConfigManager.readExistingConfigFile(filePath);
+    const defaultProfile = ConfigManager.resolveProfileName(file);
+
+    return Object.entries(file.profiles).map(([name, stored]) => ({
+      name,
+      publisherId: String(stored.publisherId),
+      authType: "serviceAccountKeyFile" in stored ? "service-account" : "oauth",
+      secretStore: ConfigManager.getSecretStoreType(stored),
+      isDefault: name === defaultProfile,
+    }));
+  }
+
+  /**
+   * Makes a profile the one used when --profile and CWS_PROFILE are not set
+   */
+  static useProfile(name: string, configPath?: string): void {
+    const filePath = configPath || ConfigManager.CONFIG_FILE;
+    const file = ConfigManager.readExistingConfigFile(filePath);
+
+    ConfigManager.requireProfile(file, name, filePath);
+    file.defaultProfile = name;
+    ConfigManager.writeConfigFile(file, filePath);
+  }
+
+  /**
+   * Removes a profile and the secrets it refers to. Removing the default
+   * profile makes the first remaining one the default; removing the last
+   * profile deletes the file.
+   */
+  static async removeProfile(name: string, configPath?: string): Promise<void> {
+    const filePath = configPath || ConfigManager.CONFIG_FILE;
+    const file = ConfigManager.readExistingConfigFile(filePath);
+
+    const stored = ConfigManager.requireProfile(file, name, filePath);
+    delete file.profiles[name];
+
+    const remaining = Object.keys(file.profiles);
+    if (remaining.length === 0) {
+      unlinkSync(filePath);
+    } else {
+      if (file.defaultProfile === name) {
+        file.defaultProfile = remaining[0];
+      }
+      ConfigManager.writeConfigFile(file, filePath);
+    }
+
+    await ConfigManager.deleteSecrets(
+      stored,
+      ConfigManager.getSecretStores(filePath)
+    );
   }
 
   static validateConfig(config: ChromeWebStoreConfig): void {
-    const requiredFields = [
-      "clientId",
-      "clientSecret",
-      "refreshToken",
-      "publisherId",
-    ];
+    const requiredFields = isServiceAccountConfig(config)
+      ? ["serviceAccountKeyFile", "publisherId"]
+      : ["clientId", "clientSecret", "refreshToken", "publisherId"];
     const missingFields = requiredFields.filter(
-      (field) => !config[field as keyof ChromeWebStoreConfig]
+      (field) => !(config as unknown as Record<string, unknown>)[field]
     );
 
     if (missingFields.length > 0) {
-      throw new Error(
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
         `Missing required config fields: ${missingFields.join(", ")}`
       );
     }
@@ -141,6 +467,13 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * Returns the directory holding the default config file and local CLI state
+   */
+  static getConfigDir(): string {
+    return ConfigManager.CONFIG_DIR;
+  }
+
   /**
    * Returns the environment variable names used for configuration
    */
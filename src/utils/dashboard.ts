@@ -0,0 +1,49 @@
+import { Logger } from "./logger";
+import { Output } from "./output";
+
+// Switches to the terminal's alternate screen and hides the cursor, so the
+// previous terminal contents come back when the dashboard closes
+const OPEN_SCREEN = "\u001b[?1049h\u001b[?25l";
+const CLOSE_SCREEN = "\u001b[?25h\u001b[?1049l";
+const CLEAR_SCREEN = "\u001b[H\u001b[2J";
+
+/**
+ * A full-screen view that is redrawn in place. While it is open, log output
+ * is suppressed so it cannot scroll the screen between redraws.
+ */
+export class Dashboard {
+  private open = false;
+
+  static isSupported(): boolean {
+    return !!process.stdout.isTTY && !Output.isJson();
+  }
+
+  start(): void {
+    if (this.open) {
+      return;
+    }
+    this.open = true;
+    Logger.setSilent(true);
+    process.stdout.write(OPEN_SCREEN);
+  }
+
+  /**
+   * Replaces the screen contents, cutting lines that do not fit
+   */
+  render(lines: string[]): void {
+    if (!this.open) {
+      return;
+    }
+    const visible = lines.slice(0, process.stdout.rows || lines.length);
+    process.stdout.write(CLEAR_SCREEN + visible.join("\n"));
+  }
+
+  stop(): void {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+    process.stdout.write(CLOSE_SCREEN);
+    Logger.setSilent(false);
+  }
+}
@@ -0,0 +1,263 @@
+import { ErrorCode, ErrorInfo, GoogleApiErrorPayload } from "../types";
+import { Logger } from "./logger";
+
+/**
+ * Error with a stable code, so callers and JSON output can tell failures
+ * apart without parsing messages
+ */
+export class CwsError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "CwsError";
+    this.code = code;
+  }
+}
+
+/**
+ * Error response from the Chrome Web Store API or the OAuth token endpoint.
+ *
+ * Carries the HTTP status, the request path and the parsed Google error
+ * payload. The subclasses below identify the common failure kinds.
+ */
+export class ApiError extends CwsError {
+  readonly status: number;
+  readonly path: string;
+  // Google error status, e.g. "INVALID_ARGUMENT" or "PERMISSION_DENIED",
+  // or the OAuth error, e.g. "invalid_grant"
+  readonly googleStatus?: string;
+  readonly details: unknown[];
+  readonly responseBody: string;
+
+  constructor(
+    status: number,
+    path: string,
+    responseBody: string,
+    payload: GoogleApiErrorPayload = {},
+    code: ErrorCode = ErrorCode.API_ERROR
+  ) {
+    const reason = payload.message || responseBody || "no response body";
+    super(
+      code,
+      `HTTP ${status}${payload.status ? ` ${payload.status}` : ""}: ${reason}`
+    );
+    this.name = "ApiError";
+    this.status = status;
+    this.path = path;
+    this.googleStatus = payload.status;
+    this.details = payload.details || [];
+    this.responseBody = responseBody;
+  }
+}
+
+// 401, or a rejected refresh token / client credentials at the token endpoint
+export class AuthenticationError extends ApiError {
+  constructor(
+    status: number,
+    path: string,
+    body: string,
+    payload?: GoogleApiErrorPayload
+  ) {
+    super(status, path, body, payload, ErrorCode.AUTHENTICATION_ERROR);
+    this.name = "AuthenticationError";
+  }
+}
+
+// 403: the credentials are valid but lack access to the publisher or item
+export class PermissionDeniedError extends ApiError {
+  constructor(
+    status: number,
+    path: string,
+    body: string,
+    payload?: GoogleApiErrorPayload
+  ) {
+    super(status, path, body, payload, ErrorCode.PERMISSION_DENIED);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+// 404: the item (or publisher) does not exist
+export class NotFoundError extends ApiError {
+  constructor(
+    status: number,
+    path: string,
+    body: string,
+    payload?: GoogleApiErrorPayload
+  ) {
+    super(status, path, body, payload, ErrorCode.NOT_FOUND);
+    this.name = "NotFoundError";
+  }
+}
+
+// 429: too many requests; retryAfter is the server-requested delay in milliseconds
+export class RateLimitError extends ApiError {
+  readonly retryAfter?: number;
+
+  constructor(
+    status: number,
+    path: string,
+    body: string,
+    payload?: GoogleApiErrorPayload,
+    retryAfter?: number
+  ) {
+    super(status, path, body, payload, ErrorCode.RATE_LIMITED);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 400 / 422: the request or package was rejected
+export class ValidationError extends ApiError {
+  constructor(
+    status: number,
+    path: string,
+    body: string,
+    payload?: GoogleApiErrorPayload
+  ) {
+    super(status, path, body, payload, ErrorCode.VALIDATION_ERROR);
+    this.name = "ValidationError";
+  }
+}
+
+// OAuth errors returned by the token endpoint for bad credentials
+const OAUTH_CREDENTIAL_ERRORS = [
+  "invalid_grant",
+  "invalid_client",
+  "unauthorized_client",
+];
+
+function parseErrorPayload(body: string): GoogleApiErrorPayload {
+  try {
+    const parsed = JSON.parse(body);
+
+    // Google API format: { "error": { "code", "message", "status", "details" } }
+    if (parsed?.error && typeof parsed.error === "object") {
+      return parsed.error as GoogleApiErrorPayload;
+    }
+
+    // OAuth format: { "error": "invalid_grant", "error_description": "..." }
+    if (typeof parsed?.error === "string") {
+      return {
+        status: parsed.error,
+        message: parsed.error_description || parsed.error,
+      };
+    }
+  } catch {
+    // Not JSON; the raw body is kept on the error
+  }
+  return {};
+}
+
+/**
+ * Builds the typed error for a failed API response
+ */
+export function createApiError(
+  status: number,
+  path: string,
+  body: string,
+  retryAfter?: number
+): ApiError {
+  const payload = parseErrorPayload(body);
+
+  if (
+    status === 401 ||
+    (payload.status && OAUTH_CREDENTIAL_ERRORS.includes(payload.status))
+  ) {
+    return new AuthenticationError(status, path, body, payload);
+  }
+
+  switch (status) {
+    case 403:
+      return new PermissionDeniedError(status, path, body, payload);
+    case 404:
+      return new NotFoundError(status, path, body, payload);
+    case 429:
+      return new RateLimitError(status, path, body, payload, retryAfter);
+    case 400:
+    case 422:
+      return new ValidationError(status, path, body, payload);
+    default:
+      return new ApiError(status, path, body, payload);
+  }
+}
+
+/**
+ * Returns a suggestion for resolving an error, if there is an obvious one
+ */
+export function getErrorHint(error: unknown): string | undefined {
+  if (error instanceof AuthenticationError) {
+    if (error.googleStatus === "invalid_grant") {
+      return "Refresh token expired or revoked — run `cws-manager configure` to set new credentials";
+    }
+    if (error.googleStatus === "invalid_client") {
+      return "Client ID or secret rejected — check them, then run `cws-manager configure`";
+    }
+    return "Authentication failed — run `cws-manager configure` to update your credentials";
+  }
+  if (error instanceof PermissionDeniedError) {
+    return "Access denied — check that the publisher ID is correct and that your account can manage this item";
+  }
+  if (error instanceof NotFoundError) {
+    return "Item not found — check the item ID and that it belongs to the configured publisher";
+  }
+  if (error instanceof RateLimitError) {
+    return "Rate limited by the Chrome Web Store API — wait before retrying, or raise --max-retries / --retry-timeout";
+  }
+  if (error instanceof ValidationError) {
+    return "The store rejected the request — run with --verbose to see the error details";
+  }
+  if (error instanceof CwsError && error.code === ErrorCode.CONFIG_ERROR) {
+    return "Run `cws-manager configure` to create or fix your configuration";
+  }
+  if (error instanceof CwsError && error.code === ErrorCode.PREFLIGHT_FAILED) {
+    return "Fix the item first, or pass --skip-check <name> to publish anyway";
+  }
+  if (
+    error instanceof CwsError &&
+    error.code === ErrorCode.CONFIRMATION_REQUIRED
+  ) {
+    return "Pass --yes to publish to all users without a prompt";
+  }
+  return undefined;
+}
+
+/**
+ * Prints the hint for an error, if any
+ */
+export function logErrorHint(error: unknown): void {
+  const hint = getErrorHint(error);
+  if (hint) {
+    Logger.yellow(`💡 ${hint}`);
+  }
+  if (error instanceof ApiError && error.details.length > 0) {
+    Logger.verbose("Error details:", JSON.stringify(error.details, null, 2));
+  }
+}
+
+/**
+ * Converts any thrown value to a code and message
+ */
+export function toErrorInfo(error: unknown): ErrorInfo {
+  if (error instanceof ApiError) {
+    return {
+      code: error.code,
+      message: error.message,
+      hint: getErrorHint(error),
+      status: error.status,
+      path: error.path,
+      details: error.details.length > 0 ? error.details : undefined,
+    };
+  }
+  if (error instanceof CwsError) {
+    return {
+      code: error.code,
+      message: error.message,
+      hint: getErrorHint(error),
+    };
+  }
+  if (error instanceof Error) {
+    return { code: ErrorCode.UNKNOWN_ERROR, message: error.message };
+  }
+  return { code: ErrorCode.UNKNOWN_ERROR, message: String(error) };
+}
@@ -0,0 +1,108 @@
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+// Translates a gitignore glob into a regular expression matched against a slash-separated relative path
+function globToRegex(glob: string, anchored: boolean): RegExp {
+  let pattern = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += escapeRegex(char);
+    }
+  }
+
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${pattern}$`);
+}
+
+/**
+ * Matches relative paths against gitignore-style patterns.
+ *
+ * Supports comments, "!" negation, trailing "/" for directories, leading "/"
+ * (or any inner "/") to anchor a pattern to the root, and the "*", "**" and
+ * "?" wildcards. Later patterns override earlier ones, as in git.
+ */
+export class IgnoreMatcher {
+  private readonly rules: IgnoreRule[] = [];
+
+  constructor(patterns: string[] = []) {
+    this.add(patterns);
+  }
+
+  add(patterns: string[]): this {
+    for (const line of patterns) {
+      const rule = IgnoreMatcher.parse(line);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Returns true when the path (relative, "/"-separated) should be excluded
+   */
+  ignores(path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.regex.test(path)) {
+        ignored = !rule.negate;
+      }
+    }
+
+    return ignored;
+  }
+
+  private static parse(line: string): IgnoreRule | null {
+    let pattern = line.replace(/\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) {
+      return null;
+    }
+
+    const negate = pattern.startsWith("!");
+    if (negate) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) {
+      pattern = pattern.slice(0, -1);
+    }
+
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\//, "");
+
+    if (!pattern) {
+      return null;
+    }
+
+    return { regex: globToRegex(pattern, anchored), negate, directoryOnly };
+  }
+}
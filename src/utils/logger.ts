@@ -1,35 +1,88 @@
+import { AsyncLocalStorage } from "async_hooks";
 import chalk from "chalk";
 
 export class Logger {
   private static isVerbose: boolean = false;
+  private static isSilent: boolean = false;
+  private static prefixContext = new AsyncLocalStorage<string>();
 
   static setVerbose(verbose: boolean): void {
     this.isVerbose = verbose;
   }
 
+  /**
+   * Suppresses all log output, e.g. while writing machine-readable output
+   */
+  static setSilent(silent: boolean): void {
+    this.isSilent = silent;
+  }
+
+  /**
+   * Runs an operation with every log line it produces prefixed, so output of
+   * items processed concurrently can be told apart
+   */
+  static withPrefix<T>(prefix: string, operation: () => Promise<T>): Promise<T> {
+    return this.prefixContext.run(prefix, operation);
+  }
+
+  static getPrefix(): string | undefined {
+    return this.prefixContext.getStore();
+  }
+
+  private static format(
+    message: string,
+    color: (text: string) => string = (text) => text
+  ): string {
+    const prefix = this.getPrefix();
+    if (!prefix) {
+      return color(message);
+    }
+
+    // Keep leading blank lines above the prefix
+    const rest = message.replace(/^\n+/, "");
+    const newlines = message.slice(0, message.length - rest.length);
+    return `${newlines}${chalk.dim(`[${prefix}]`)} ${color(rest)}`;
+  }
+
+  private static print(
+    write: (...data: unknown[]) => void,
+    message: string,
+    color: ((text: string) => string) | undefined,
+    args: unknown[]
+  ): void {
+    if (this.isSilent) {
+      return;
+    }
+    write(this.format(message, color), ...args);
+  }
+
+  static log(message: string, ...args: unknown[]): void {
+    this.print(console.log, message, undefined, args);
+  }
+
   static red(message: string, ...args: unknown[]): void {
-    console.error(chalk.red(message), ...args);
+    this.print(console.error, message, chalk.red, args);
   }
 
   static green(message: string, ...args: unknown[]): void {
-    console.log(chalk.green(message), ...args);
+    this.print(console.log, message, chalk.green, args);
   }
 
   static blue(message: string, ...args: unknown[]): void {
-    console.log(chalk.blue(message), ...args);
+    this.print(console.log, message, chalk.blue, args);
   }
 
   static gray(message: string, ...args: unknown[]): void {
-    console.log(chalk.gray(message), ...args);
+    this.print(console.log, message, chalk.gray, args);
   }
 
   static yellow(message: string, ...args: unknown[]): void {
-    console.log(chalk.yellow(message), ...args);
+    this.print(console.log, message, chalk.yellow, args);
   }
 
   static verbose(message: string, ...args: unknown[]): void {
     if (this.isVerbose) {
-      console.log(chalk.gray(message), ...args);
+      this.print(console.log, message, chalk.gray, args);
     }
   }
 }
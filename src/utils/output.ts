@@ -0,0 +1,64 @@
+import chalk from "chalk";
+import { toErrorInfo } from "./errors";
+import { Logger } from "./logger";
+import { setSpinnerSilent } from "./spinner";
+
+/**
+ * Collects command results and writes them as a single JSON document when
+ * --json is enabled. In normal mode every method is a no-op, so commands can
+ * report results unconditionally.
+ */
+export class Output {
+  private static jsonMode = false;
+  private static command?: string;
+  private static startedAt = new Date();
+
+  /**
+   * Switches to JSON output: log lines, spinners and colours are suppressed
+   * so stdout only carries the JSON document
+   */
+  static enableJson(): void {
+    this.jsonMode = true;
+    Logger.setSilent(true);
+    setSpinnerSilent(true);
+    chalk.level = 0;
+  }
+
+  static isJson(): boolean {
+    return this.jsonMode;
+  }
+
+  /**
+   * Marks the start of a command, for timing in the JSON document
+   */
+  static begin(command: string): void {
+    this.command = command;
+    this.startedAt = new Date();
+  }
+
+  static success(data: Record<string, unknown> = {}): void {
+    this.write({ success: true, ...data });
+  }
+
+  static failure(error: unknown, data: Record<string, unknown> = {}): void {
+    this.write({ success: false, ...data, error: toErrorInfo(error) });
+  }
+
+  /**
+   * Writes one JSON document immediately, for commands that report
+   * repeatedly (such as watch mode)
+   */
+  static write(data: Record<string, unknown>): void {
+    if (!this.jsonMode) {
+      return;
+    }
+
+    const document = {
+      command: this.command,
+      ...data,
+      startedAt: this.startedAt.toISOString(),
+      durationMs: Date.now() - this.startedAt.getTime(),
+    };
+    process.stdout.write(JSON.stringify(document, null, 2) + "\n");
+  }
+}
@@ -0,0 +1,210 @@
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import {
+  ErrorCode,
+  FetchItemStatusResponse,
+  ItemState,
+  PublishType,
+  UploadState,
+} from "../types";
+import { Logger } from "./logger";
+import { setSpinnerSilent } from "./spinner";
+import {
+  assertPreflightPassed,
+  checkBeforePublish,
+  evaluatePreflightChecks,
+  validateSkipChecks,
+} from "./preflight";
+
+// An item published at 1.0.0 whose last upload succeeded
+function createStatus(
+  overrides: Partial<FetchItemStatusResponse> = {}
+): FetchItemStatusResponse {
+  return {
+    lastAsyncUploadState: UploadState.SUCCEEDED,
+    publishedItemRevisionStatus: {
+      state: ItemState.PUBLISHED,
+      distributionChannels: [{ crxVersion: "1.0.0", deployPercentage: 100 }],
+    },
+    ...overrides,
+  };
+}
+
+function createClient(status: FetchItemStatusResponse): ChromeWebStoreClient {
+  return {
+    fetchItemStatus: async () => status,
+  } as unknown as ChromeWebStoreClient;
+}
+
+function getStatuses(
+  status: FetchItemStatusResponse,
+  version?: string
+): Record<string, string> {
+  return Object.fromEntries(
+    evaluatePreflightChecks({ status, version }).map((result) => [
+      result.name,
+      result.status,
+    ])
+  );
+}
+
+describe("evaluatePreflightChecks", () => {
+  it("passes a healthy item with a newer version", () => {
+    expect(getStatuses(createStatus(), "1.1.0")).toEqual({
+      "not-taken-down": "passed",
+      "not-warned": "passed",
+      "upload-succeeded": "passed",
+      "no-pending-review": "passed",
+      "version-newer": "passed",
+    });
+  });
+
+  it("fails taken down and warned items", () => {
+    const statuses = getStatuses(
+      createStatus({ takenDown: true, warned: true })
+    );
+    expect(statuses["not-taken-down"]).toBe("failed");
+    expect(statuses["not-warned"]).toBe("failed");
+  });
+
+  it("fails when the last upload did not succeed", () => {
+    const statuses = getStatuses(
+      createStatus({ lastAsyncUploadState: UploadState.FAILED })
+    );
+    expect(statuses["upload-succeeded"]).toBe("failed");
+  });
+
+  it("fails while a submission is pending review", () => {
+    const statuses = getStatuses(
+      createStatus({
+        submittedItemRevisionStatus: {
+          state: ItemState.PENDING_REVIEW,
+          distributionChannels: [{ crxVersion: "1.1.0" }],
+        },
+      })
+    );
+    expect(statuses["no-pending-review"]).toBe("failed");
+  });
+
+  it("compares the version with the published one", () => {
+    expect(getStatuses(createStatus(), "1.0.0")["version-newer"]).toBe(
+      "failed"
+    );
+    expect(getStatuses(createStatus())["version-newer"]).toBe("skipped");
+    expect(
+      getStatuses(
+        createStatus({ publishedItemRevisionStatus: undefined }),
+        "0.1.0"
+      )["version-newer"]
+    ).toBe("passed");
+  });
+
+  it("skips the checks it is told to", () => {
+    const results = evaluatePreflightChecks(
+      { status: createStatus({ warned: true }) },
+      ["not-warned"]
+    );
+    expect(results.find((result) => result.name === "not-warned")).toEqual({
+      name: "not-warned",
+      status: "skipped",
+      message: "Skipped",
+    });
+    expect(() => assertPreflightPassed(results)).not.toThrow();
+  });
+});
+
+describe("assertPreflightPassed", () => {
+  it("names every failed check", () => {
+    const results = evaluatePreflightChecks({
+      status: createStatus({ takenDown: true, warned: true }),
+    });
+    expect(() => assertPreflightPassed(results)).toThrow(
+      expect.objectContaining({
+        code: ErrorCode.PREFLIGHT_FAILED,
+        message: expect.stringMatching(/not-taken-down.*not-warned/),
+      })
+    );
+  });
+});
+
+describe("validateSkipChecks", () => {
+  it("refuses unknown check names", () => {
+    expect(validateSkipChecks(["not-warned"])).toEqual(["not-warned"]);
+    expect(() => validateSkipChecks(["not-a-check"])).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_ARGUMENT })
+    );
+  });
+});
+
+describe("checkBeforePublish", () => {
+  beforeAll(() => {
+    Logger.setSilent(true);
+    setSpinnerSilent(true);
+  });
+
+  afterAll(() => {
+    Logger.setSilent(false);
+    setSpinnerSilent(false);
+  });
+
+  it("checks the version being published", async () => {
+    await expect(
+      checkBeforePublish(
+        createClient(createStatus()),
+        "item",
+        "0.9.0",
+        PublishType.DEFAULT_PUBLISH,
+        100,
+        { yes: true }
+      )
+    ).rejects.toThrow("Version 0.9.0 is not newer");
+  });
+
+  it("reports the version check as skipped when the version is unknown", async () => {
+    const results = await checkBeforePublish(
+      createClient(createStatus()),
+      "item",
+      undefined,
+      PublishType.DEFAULT_PUBLISH,
+      100,
+      { yes: true }
+    );
+    expect(results.find((result) => result.name === "version-newer")).toEqual({
+      name: "version-newer",
+      status: "skipped",
+      message: "The version being published is unknown",
+    });
+  });
+
+  it("needs --yes to publish to every user without a terminal", async () => {
+    const client = createClient(createStatus());
+    const publish = (
+      publishType: PublishType,
+      deployPercentage: number,
+      options = {}
+    ) =>
+      checkBeforePublish(
+        client,
+        "item",
+        "1.1.0",
+        publishType,
+        deployPercentage,
+        options
+      );
+
+    await expect(publish(PublishType.DEFAULT_PUBLISH, 100)).rejects.toThrow(
+      expect.objectContaining({ code: ErrorCode.CONFIRMATION_REQUIRED })
+    );
+    await expect(
+      publish(PublishType.DEFAULT_PUBLISH, 100, { yes: true })
+    ).resolves.toHaveLength(5);
+    await expect(
+      publish(PublishType.DEFAULT_PUBLISH, 100, { dry: true })
+    ).resolves.toHaveLength(5);
+    await expect(
+      publish(PublishType.DEFAULT_PUBLISH, 50)
+    ).resolves.toHaveLength(5);
+    await expect(
+      publish(PublishType.STAGED_PUBLISH, 100)
+    ).resolves.toHaveLength(5);
+  });
+});
@@ -0,0 +1,252 @@
+import { Command } from "commander";
+import inquirer from "inquirer";
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import {
+  ErrorCode,
+  ItemState,
+  PreflightCheckName,
+  PreflightCheckResult,
+  PreflightContext,
+  PreflightOptions,
+  PublishType,
+  UploadState,
+} from "../types";
+import { CwsError } from "./errors";
+import { Logger } from "./logger";
+import { Output } from "./output";
+import { withSpinner } from "./spinner";
+import { compareVersions } from "./version";
+
+interface PreflightCheck {
+  name: PreflightCheckName;
+  // Says whether the item may be published, and why. `passed` is left out
+  // when the check cannot tell, and the check is reported as skipped.
+  run: (context: PreflightContext) => { passed?: boolean; message: string };
+}
+
+export const PREFLIGHT_CHECKS: PreflightCheck[] = [
+  {
+    name: "not-taken-down",
+    run: ({ status }) =>
+      status.takenDown
+        ? {
+            passed: false,
+            message: "The item has been taken down for a policy violation",
+          }
+        : { passed: true, message: "The item is not taken down" },
+  },
+  {
+    name: "not-warned",
+    run: ({ status }) =>
+      status.warned
+        ? {
+            passed: false,
+            message:
+              "The item has a policy warning; resolve it in the developer dashboard first",
+          }
+        : { passed: true, message: "The item has no policy warning" },
+  },
+  {
+    name: "upload-succeeded",
+    run: ({ status }) =>
+      status.lastAsyncUploadState === UploadState.SUCCEEDED
+        ? { passed: true, message: "The last upload succeeded" }
+        : {
+            passed: false,
+            message: `The last upload is ${status.lastAsyncUploadState || "missing"}, not ${UploadState.SUCCEEDED}`,
+          },
+  },
+  {
+    name: "no-pending-review",
+    run: ({ status }) => {
+      const submitted = status.submittedItemRevisionStatus;
+      return submitted?.state === ItemState.PENDING_REVIEW
+        ? {
+            passed: false,
+            message: `Version ${submitted.distributionChannels?.[0]?.crxVersion ?? "unknown"} is already pending review`,
+          }
+        : { passed: true, message: "No submission is pending review" };
+    },
+  },
+  {
+    name: "version-newer",
+    run: ({ status, version }) => {
+      const published =
+        status.publishedItemRevisionStatus?.distributionChannels?.[0]
+          ?.crxVersion;
+      if (!version) {
+        return { message: "The version being published is unknown" };
+      }
+      if (!published) {
+        return { passed: true, message: "No version is published yet" };
+      }
+      return compareVersions(version, published) > 0
+        ? {
+            passed: true,
+            message: `Version ${version} is newer than the published version ${published}`,
+          }
+        : {
+            passed: false,
+            message: `Version ${version} is not newer than the published version ${published}`,
+          };
+    },
+  },
+];
+
+const CHECK_NAMES = PREFLIGHT_CHECKS.map((check) => check.name);
+
+function collectCheckName(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+export function validateSkipChecks(names: string[] = []): PreflightCheckName[] {
+  const unknown = names.filter(
+    (name) => !CHECK_NAMES.includes(name as PreflightCheckName)
+  );
+  if (unknown.length > 0) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Unknown check "${unknown[0]}"; expected one of: ${CHECK_NAMES.join(", ")}`
+    );
+  }
+  return names as PreflightCheckName[];
+}
+
+/**
+ * Adds the --yes / --skip-check options that override the publish gates
+ */
+export function addPreflightOptions(command: Command): Command {
+  return command
+    .option("-y, --yes", "Publish to 100% of users without asking")
+    .option(
+      "--skip-check <name>",
+      `Skip a pre-publish check (repeatable): ${CHECK_NAMES.join(", ")}`,
+      collectCheckName
+    );
+}
+
+/**
+ * Runs every check against the context, except the skipped ones
+ */
+export function evaluatePreflightChecks(
+  context: PreflightContext,
+  skip: PreflightCheckName[] = []
+): PreflightCheckResult[] {
+  return PREFLIGHT_CHECKS.map((check): PreflightCheckResult => {
+    if (skip.includes(check.name)) {
+      return { name: check.name, status: "skipped", message: "Skipped" };
+    }
+    const { passed, message } = check.run(context);
+    if (passed === undefined) {
+      return { name: check.name, status: "skipped", message };
+    }
+    return { name: check.name, status: passed ? "passed" : "failed", message };
+  });
+}
+
+/**
+ * Throws when a check that was not skipped failed
+ */
+export function assertPreflightPassed(results: PreflightCheckResult[]): void {
+  const failed = results.filter((result) => result.status === "failed");
+  if (failed.length > 0) {
+    throw new CwsError(
+      ErrorCode.PREFLIGHT_FAILED,
+      `Pre-publish check${failed.length > 1 ? "s" : ""} failed: ` +
+        failed.map((result) => `${result.name} (${result.message})`).join("; ")
+    );
+  }
+}
+
+// Helper function to fetch the item's status and run the checks, printing
+// each result. Throws when a check that was not skipped fails.
+async function runPreflightChecks(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  version: string | undefined,
+  options: PreflightOptions
+): Promise<PreflightCheckResult[]> {
+  const status = await withSpinner(
+    "Running pre-publish checks...",
+    "Item status fetched",
+    "Failed to fetch item status",
+    () => client.fetchItemStatus(itemId)
+  );
+
+  const results = evaluatePreflightChecks(
+    { status, version },
+    validateSkipChecks(options.skipCheck)
+  );
+  results.forEach((result) => {
+    if (result.status === "passed") {
+      Logger.gray(`  ✔ ${result.name}: ${result.message}`);
+    } else if (result.status === "skipped") {
+      Logger.yellow(`  ⚠️  ${result.name}: ${result.message}`);
+    } else {
+      Logger.red(`  ✖ ${result.name}: ${result.message}`);
+    }
+  });
+
+  assertPreflightPassed(results);
+  return results;
+}
+
+// Prompts are asked one at a time, even when items are published concurrently
+let pendingPrompt: Promise<unknown> = Promise.resolve();
+
+// Helper function to ask before a publish that reaches every user at once.
+// Without a terminal to ask on, --yes is required.
+async function confirmFullPublish(
+  itemId: string,
+  version: string | undefined
+): Promise<void> {
+  if (!process.stdin.isTTY || Output.isJson()) {
+    throw new CwsError(
+      ErrorCode.CONFIRMATION_REQUIRED,
+      `Publishing ${itemId} to 100% of users needs confirmation, and there is no terminal to ask on`
+    );
+  }
+
+  const prompt = pendingPrompt.then(() =>
+    inquirer.prompt<{ confirmed: boolean }>([
+      {
+        type: "confirm",
+        name: "confirmed",
+        message: `Publish ${version ? `version ${version} of ` : ""}${itemId} to 100% of users?`,
+        default: false,
+      },
+    ])
+  );
+  pendingPrompt = prompt.catch(() => undefined);
+
+  const { confirmed } = await prompt;
+  if (!confirmed) {
+    throw new CwsError(ErrorCode.CONFIRMATION_REQUIRED, "Publish cancelled");
+  }
+}
+
+/**
+ * Gates a publish: runs the pre-publish checks, then asks for confirmation
+ * when a default (not staged) publish goes to 100% of users. `--yes` and dry
+ * runs skip the question.
+ */
+export async function checkBeforePublish(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  version: string | undefined,
+  publishType: PublishType,
+  deployPercentage: number,
+  options: PreflightOptions & { dry?: boolean }
+): Promise<PreflightCheckResult[]> {
+  const results = await runPreflightChecks(client, itemId, version, options);
+
+  if (
+    publishType === PublishType.DEFAULT_PUBLISH &&
+    deployPercentage === 100 &&
+    !options.yes &&
+    !options.dry
+  ) {
+    await confirmFullPublish(itemId, version);
+  }
+  return results;
+}
@@ -0,0 +1,112 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, isAbsolute, resolve } from "path";
+import { BatchTarget, ErrorCode, ProjectConfig } from "../types";
+import { CwsError } from "./errors";
+
+/**
+ * Loads the project file that lists the items managed together.
+ *
+ * The project file (default: ./cws.config.json) maps item names to their
+ * item IDs, package paths and publish defaults, and may list webhooks
+ * notified of status changes. Package paths are resolved relative to the
+ * project file.
+ */
+export class ProjectManager {
+  static readonly DEFAULT_PROJECT_FILE = "cws.config.json";
+
+  static loadProject(projectPath?: string): ProjectConfig {
+    const filePath = resolve(projectPath || ProjectManager.DEFAULT_PROJECT_FILE);
+
+    if (!existsSync(filePath)) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Project file not found: ${filePath}\n` +
+          `Create a ${ProjectManager.DEFAULT_PROJECT_FILE} or pass --project <path>.`
+      );
+    }
+
+    let project: ProjectConfig;
+    try {
+      project = JSON.parse(readFileSync(filePath, "utf8")) as ProjectConfig;
+    } catch (error) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Failed to load project file: ${error}`
+      );
+    }
+
+    ProjectManager.validateProject(project);
+
+    // Resolve package paths relative to the project file
+    const baseDir = dirname(filePath);
+    for (const item of Object.values(project.items)) {
+      if (item.package && !isAbsolute(item.package)) {
+        item.package = resolve(baseDir, item.package);
+      }
+    }
+
+    return project;
+  }
+
+  /**
+   * Loads the project file when it exists, for commands that use it only for
+   * optional settings
+   */
+  static loadProjectIfExists(projectPath?: string): ProjectConfig | null {
+    const filePath = resolve(projectPath || ProjectManager.DEFAULT_PROJECT_FILE);
+    return existsSync(filePath) ? ProjectManager.loadProject(filePath) : null;
+  }
+
+  static validateProject(project: ProjectConfig): void {
+    if (!project || typeof project.items !== "object" || !project.items) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        'Project file must contain an "items" object'
+      );
+    }
+
+    const names = Object.keys(project.items);
+    if (names.length === 0) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        "Project file does not define any items"
+      );
+    }
+
+    const missingIds = names.filter((name) => !project.items[name]?.itemId);
+    if (missingIds.length > 0) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        `Missing itemId for project items: ${missingIds.join(", ")}`
+      );
+    }
+
+    if (
+      project.concurrency !== undefined &&
+      (!Number.isInteger(project.concurrency) || project.concurrency < 1)
+    ) {
+      throw new CwsError(
+        ErrorCode.CONFIG_ERROR,
+        "Project concurrency must be a positive integer"
+      );
+    }
+  }
+
+  /**
+   * Returns the items selected by name, or every item when no names are given
+   */
+  static selectItems(project: ProjectConfig, names?: string[]): BatchTarget[] {
+    const selected = names && names.length > 0 ? names : Object.keys(project.items);
+
+    const unknown = selected.filter((name) => !project.items[name]);
+    if (unknown.length > 0) {
+      throw new CwsError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Unknown project items: ${unknown.join(", ")}. ` +
+          `Available: ${Object.keys(project.items).join(", ")}`
+      );
+    }
+
+    return selected.map((name) => ({ name, ...project.items[name] }));
+  }
+}
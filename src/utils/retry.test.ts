@@ -0,0 +1,105 @@
+import {
+  getRetryDelay,
+  isRetryableNetworkError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "./retry";
+
+const OPTIONS = {
+  maxRetries: 3,
+  retryTimeout: 60_000,
+  initialDelay: 1000,
+  maxDelay: 30_000,
+};
+
+// A network error as fetch reports it, with the system error as its cause
+function networkError(code: string): Error {
+  return Object.assign(new TypeError("fetch failed"), { cause: { code } });
+}
+
+describe("isRetryableStatus", () => {
+  it("retries server errors and throttling of idempotent requests", () => {
+    [408, 429, 500, 502, 503, 504].forEach((status) =>
+      expect(isRetryableStatus(status, true)).toBe(true)
+    );
+    [400, 401, 403, 404].forEach((status) =>
+      expect(isRetryableStatus(status, true)).toBe(false)
+    );
+  });
+
+  it("retries other requests only on 429", () => {
+    expect(isRetryableStatus(429, false)).toBe(true);
+    expect(isRetryableStatus(503, false)).toBe(false);
+  });
+});
+
+describe("isRetryableNetworkError", () => {
+  it("retries any network error of an idempotent request", () => {
+    expect(isRetryableNetworkError(networkError("ECONNRESET"), true)).toBe(
+      true
+    );
+  });
+
+  it("retries other requests only when they were never sent", () => {
+    expect(isRetryableNetworkError(networkError("ECONNREFUSED"), false)).toBe(
+      true
+    );
+    expect(isRetryableNetworkError(networkError("ECONNRESET"), false)).toBe(
+      false
+    );
+    expect(isRetryableNetworkError(new Error("aborted"), false)).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses a delay in seconds", () => {
+    expect(parseRetryAfter("5")).toBe(5000);
+    expect(parseRetryAfter("-3")).toBe(0);
+  });
+
+  it("parses an HTTP date", () => {
+    const date = new Date(Date.now() + 10_000).toUTCString();
+    const delay = parseRetryAfter(date)!;
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10_000);
+  });
+
+  it("ignores a missing or invalid header", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("getRetryDelay", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("backs off exponentially with jitter", () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    expect(getRetryDelay(OPTIONS, 0, Date.now())).toBe(1000);
+    expect(getRetryDelay(OPTIONS, 2, Date.now())).toBe(4000);
+
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(getRetryDelay(OPTIONS, 2, Date.now())).toBe(2000);
+  });
+
+  it("caps the backoff at the maximum delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    expect(getRetryDelay({ ...OPTIONS, maxRetries: 10 }, 8, Date.now())).toBe(
+      30_000
+    );
+  });
+
+  it("prefers the server's Retry-After delay", () => {
+    expect(getRetryDelay(OPTIONS, 0, Date.now(), 7000)).toBe(7000);
+  });
+
+  it("gives up after the last retry", () => {
+    expect(getRetryDelay(OPTIONS, 3, Date.now())).toBeUndefined();
+  });
+
+  it("gives up when the delay would pass the retry timeout", () => {
+    expect(getRetryDelay(OPTIONS, 0, Date.now() - 55_000, 10_000)).toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { RetryOptions } from "../types";
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  retryTimeout: 60_000,
+  initialDelay: 1000,
+  maxDelay: 30_000,
+};
+
+// Statuses worth retrying for requests that can safely be repeated
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Network error codes that mean the request never reached the server
+const UNSENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+/**
+ * Returns whether a failed response may be retried. Requests that are not
+ * idempotent are only retried on 429, where the server did not process them.
+ */
+export function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  return idempotent ? RETRYABLE_STATUSES.includes(status) : status === 429;
+}
+
+/**
+ * Returns whether a network error may be retried. Requests that are not
+ * idempotent are only retried when the connection was never established.
+ */
+export function isRetryableNetworkError(
+  error: unknown,
+  idempotent: boolean
+): boolean {
+  if (idempotent) {
+    return true;
+  }
+
+  const cause = (error as { cause?: { code?: string } })?.cause;
+  return !!cause?.code && UNSENT_ERROR_CODES.includes(cause.code);
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the delay before the next attempt, or undefined when the retry
+ * budget (attempt count or total time) is exhausted.
+ *
+ * Uses exponential backoff with jitter; a server-provided Retry-After delay
+ * takes precedence.
+ */
+export function getRetryDelay(
+  options: RetryOptions,
+  attempt: number,
+  startTime: number,
+  retryAfter?: number
+): number | undefined {
+  if (attempt >= options.maxRetries) {
+    return undefined;
+  }
+
+  let delay = retryAfter;
+  if (delay === undefined) {
+    const backoff = Math.min(
+      options.maxDelay,
+      options.initialDelay * Math.pow(2, attempt)
+    );
+    delay = backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  if (Date.now() - startTime + delay > options.retryTimeout) {
+    return undefined;
+  }
+
+  return Math.round(delay);
+}
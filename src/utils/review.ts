@@ -0,0 +1,186 @@
+import { ChromeWebStoreClient } from "../services/chrome-webstore-client";
+import {
+  ErrorCode,
+  FetchItemStatusResponse,
+  ItemState,
+  ReviewExitCode,
+  ReviewOutcome,
+} from "../types";
+import { CwsError } from "./errors";
+import { Logger } from "./logger";
+import { withSpinnerCustom } from "./spinner";
+import { formatDuration, parseDuration } from "./utils";
+
+// Submission states that end a review
+export const TERMINAL_REVIEW_STATES = [
+  ItemState.PUBLISHED,
+  ItemState.STAGED,
+  ItemState.REJECTED,
+  ItemState.CANCELLED,
+];
+
+export const DEFAULT_REVIEW_TIMEOUT = "24h";
+export const DEFAULT_REVIEW_POLL_INTERVAL = "30";
+
+const OUTCOME_EXIT_CODES: Partial<Record<ItemState, ReviewExitCode>> = {
+  [ItemState.PUBLISHED]: ReviewExitCode.PUBLISHED,
+  [ItemState.STAGED]: ReviewExitCode.STAGED,
+  [ItemState.REJECTED]: ReviewExitCode.REJECTED,
+  [ItemState.CANCELLED]: ReviewExitCode.CANCELLED,
+};
+
+/**
+ * Returns the state of the latest submission. When nothing is under review,
+ * the published revision's state is used, since an approved submission
+ * becomes the published revision.
+ */
+export function getSubmissionState(
+  status: FetchItemStatusResponse
+): ItemState | undefined {
+  return (
+    status.submittedItemRevisionStatus?.state ??
+    status.publishedItemRevisionStatus?.state
+  );
+}
+
+export function parseItemState(value: string): ItemState {
+  const state = value.toUpperCase() as ItemState;
+  if (!Object.values(ItemState).includes(state)) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Unknown state "${value}"; expected one of: ${Object.values(ItemState).join(", ")}`
+    );
+  }
+  return state;
+}
+
+export function getReviewExitCode(
+  target: ItemState,
+  state?: ItemState
+): ReviewExitCode {
+  if (!state) {
+    return ReviewExitCode.TIMEOUT;
+  }
+  if (state === target) {
+    return ReviewExitCode.TARGET_REACHED;
+  }
+  return OUTCOME_EXIT_CODES[state] ?? ReviewExitCode.TIMEOUT;
+}
+
+/**
+ * Polls an item until its submission reaches the target state or a terminal
+ * review state, or until the timeout passes. Timeouts are reported in the
+ * outcome rather than thrown, so callers can map them to an exit code.
+ */
+export async function waitForReview(
+  client: ChromeWebStoreClient,
+  itemId: string,
+  target: ItemState,
+  timeout = DEFAULT_REVIEW_TIMEOUT,
+  pollInterval = DEFAULT_REVIEW_POLL_INTERVAL
+): Promise<ReviewOutcome> {
+  const timeoutMs = parseDuration(timeout);
+  const pollIntervalMs = parseDuration(pollInterval);
+  if (pollIntervalMs < 5000) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Poll interval must be at least 5 seconds"
+    );
+  }
+
+  const states = [target, ...TERMINAL_REVIEW_STATES];
+  const startTime = Date.now();
+  let lastStatus: FetchItemStatusResponse | undefined;
+
+  return withSpinnerCustom(
+    `Waiting for ${target} (timeout ${formatDuration(timeoutMs)})...`,
+    async (spinner) => {
+      try {
+        const status = await client.waitForSubmissionState(
+          itemId,
+          states,
+          timeoutMs,
+          pollIntervalMs,
+          (polled) => {
+            lastStatus = polled;
+            spinner.text = `Waiting for ${target}: ${getSubmissionState(polled) ?? "unknown"} after ${formatDuration(Date.now() - startTime)}...`;
+          }
+        );
+        const state = getSubmissionState(status);
+        const exitCode = getReviewExitCode(target, state);
+
+        if (exitCode === ReviewExitCode.TARGET_REACHED) {
+          spinner.succeed(`Reached ${state}`);
+        } else {
+          spinner.fail(`Review ended in ${state}`);
+        }
+        return { target, state, timedOut: false, exitCode, status };
+      } catch (error) {
+        if (error instanceof CwsError && error.code === ErrorCode.TIMEOUT) {
+          spinner.fail(
+            `Timed out after ${formatDuration(timeoutMs)} waiting for ${target}`
+          );
+          return {
+            target,
+            timedOut: true,
+            exitCode: ReviewExitCode.TIMEOUT,
+            status: lastStatus,
+          };
+        }
+        spinner.fail("Failed to check review status");
+        throw error;
+      }
+    }
+  );
+}
+
+/**
+ * Returns the outcome fields reported in command results
+ */
+export function summarizeReviewOutcome(
+  outcome: ReviewOutcome
+): Record<string, unknown> {
+  return {
+    target: outcome.target,
+    state: outcome.state,
+    timedOut: outcome.timedOut,
+    exitCode: outcome.exitCode,
+  };
+}
+
+/**
+ * Throws when a review wait did not reach its target, for batch runs where
+ * exit codes cannot be reported per item
+ */
+export function assertReviewSucceeded(outcome: ReviewOutcome): void {
+  if (outcome.timedOut) {
+    throw new CwsError(
+      ErrorCode.TIMEOUT,
+      `Submission did not reach ${outcome.target} before the timeout`
+    );
+  }
+  if (outcome.exitCode !== ReviewExitCode.TARGET_REACHED) {
+    throw new CwsError(
+      ErrorCode.REVIEW_FAILED,
+      `Submission ended in ${outcome.state} instead of ${outcome.target}`
+    );
+  }
+}
+
+/**
+ * Prints the outcome of a review wait
+ */
+export function displayReviewOutcome(outcome: ReviewOutcome): void {
+  if (outcome.exitCode === ReviewExitCode.TARGET_REACHED) {
+    Logger.green(`✅ Submission reached ${outcome.target}`);
+  } else if (outcome.timedOut) {
+    Logger.yellow(
+      `⏱️  Submission did not reach ${outcome.target} before the timeout`
+    );
+  } else if (outcome.state === ItemState.REJECTED) {
+    Logger.red("❌ Submission was rejected");
+  } else {
+    Logger.yellow(`⚠️  Submission ended in ${outcome.state}`);
+  }
+  Logger.gray(`Exit code: ${outcome.exitCode}`);
+}
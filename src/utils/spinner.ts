@@ -1,4 +1,34 @@
 import ora, { Ora } from "ora";
+import { Logger } from "./logger";
+
+let animationEnabled = true;
+let silent = false;
+
+/**
+ * Enables or disables spinner animation. When disabled, spinners print their
+ * start and end states as plain lines, which keeps concurrent output readable.
+ */
+export function setSpinnerAnimation(enabled: boolean): void {
+  animationEnabled = enabled;
+}
+
+/**
+ * Suppresses spinner output entirely
+ */
+export function setSpinnerSilent(enabled: boolean): void {
+  silent = enabled;
+}
+
+function buildSpinner(message: string): Ora {
+  const prefix = Logger.getPrefix();
+  return ora({
+    // Non-animated spinners print their start line without the prefix text
+    text: prefix && !animationEnabled ? `[${prefix}] ${message}` : message,
+    prefixText: prefix ? `[${prefix}]` : undefined,
+    isEnabled: animationEnabled ? undefined : false,
+    isSilent: silent,
+  });
+}
 
 /**
  * Executes an async operation with a spinner, handling success and failure states
@@ -9,7 +39,7 @@ export async function withSpinner<T>(
   failureMessage: string,
   operation: () => Promise<T>
 ): Promise<T> {
-  const spinner = ora(loadingMessage).start();
+  const spinner = buildSpinner(loadingMessage).start();
 
   try {
     const result = await operation();
@@ -25,7 +55,7 @@ export async function withSpinner<T>(
  * Creates a manual spinner for cases where you need more control over the lifecycle
  */
 export function createSpinner(message: string): Ora {
-  return ora(message);
+  return buildSpinner(message);
 }
 
 /**
@@ -35,6 +65,6 @@ export async function withSpinnerCustom<T>(
   loadingMessage: string,
   operation: (spinner: Ora) => Promise<T>
 ): Promise<T> {
-  const spinner = ora(loadingMessage).start();
+  const spinner = buildSpinner(loadingMessage).start();
   return operation(spinner);
 }
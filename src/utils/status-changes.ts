@@ -0,0 +1,94 @@
+import { FetchItemStatusResponse, StatusChange, StatusField } from "../types";
+
+type StatusValue = string | number | boolean | undefined;
+
+// Fields compared between snapshots, with the labels used in messages and
+// in the compact watch output
+const TRACKED_FIELDS: {
+  field: StatusField;
+  label: string;
+  shortLabel: string;
+  read: (status: FetchItemStatusResponse) => StatusValue;
+}[] = [
+  {
+    field: "submittedState",
+    label: "Submitted state",
+    shortLabel: "submitted",
+    read: (status) => status.submittedItemRevisionStatus?.state,
+  },
+  {
+    field: "publishedState",
+    label: "Published state",
+    shortLabel: "published",
+    read: (status) => status.publishedItemRevisionStatus?.state,
+  },
+  {
+    field: "uploadState",
+    label: "Upload state",
+    shortLabel: "upload",
+    read: (status) => status.lastAsyncUploadState,
+  },
+  {
+    field: "warned",
+    label: "Warned",
+    shortLabel: "warned",
+    read: (status) => !!status.warned,
+  },
+  {
+    field: "takenDown",
+    label: "Taken down",
+    shortLabel: "taken down",
+    read: (status) => !!status.takenDown,
+  },
+  {
+    field: "deployPercentage",
+    label: "Deploy percentage",
+    shortLabel: "deploy %",
+    read: (status) =>
+      status.publishedItemRevisionStatus?.distributionChannels?.[0]
+        ?.deployPercentage,
+  },
+];
+
+/**
+ * Returns the tracked fields that differ between two status snapshots
+ */
+export function detectStatusChanges(
+  previous: FetchItemStatusResponse,
+  current: FetchItemStatusResponse
+): StatusChange[] {
+  return TRACKED_FIELDS.flatMap(({ field, label, read }) => {
+    const from = read(previous);
+    const to = read(current);
+    return from === to ? [] : [{ field, label, from, to }];
+  });
+}
+
+function formatValue(field: StatusField, value: StatusValue): string {
+  if (value === undefined) {
+    return "none";
+  }
+  return field === "deployPercentage" ? `${value}%` : String(value);
+}
+
+/**
+ * Describes the values of a change as "from → to"
+ */
+export function formatStatusTransition(change: StatusChange): string {
+  return `${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
+}
+
+/**
+ * Describes a change as "Label: from → to"
+ */
+export function formatStatusChange(change: StatusChange): string {
+  return `${change.label}: ${formatStatusTransition(change)}`;
+}
+
+/**
+ * Describes a change as "short label: from → to", e.g. "deploy %: 10 → 25"
+ */
+export function formatCompactStatusChange(change: StatusChange): string {
+  const tracked = TRACKED_FIELDS.find(({ field }) => field === change.field);
+  return `${tracked?.shortLabel ?? change.label}: ${change.from ?? "none"} → ${change.to ?? "none"}`;
+}
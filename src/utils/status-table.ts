@@ -0,0 +1,252 @@
+import chalk from "chalk";
+import {
+  ErrorCode,
+  ItemState,
+  ItemStatusRow,
+  StatusColumnKey,
+  StatusFilter,
+  StatusSort,
+  UploadState,
+} from "../types";
+import { CwsError } from "./errors";
+import { getSubmissionState } from "./review";
+import { renderTable } from "./table";
+import { compareVersions } from "./version";
+
+type ColumnValue = string | number | boolean | undefined;
+
+// Columns of the multi-item table. The state column shows the latest
+// submission, or the published revision when nothing is under review.
+const STATUS_COLUMNS: {
+  key: StatusColumnKey;
+  header: string;
+  read: (row: ItemStatusRow) => ColumnValue;
+  format?: (value: ColumnValue) => string;
+}[] = [
+  {
+    key: "name",
+    header: "Item",
+    read: (row) => row.name ?? row.status?.name,
+  },
+  { key: "id", header: "Item ID", read: (row) => row.itemId },
+  {
+    key: "version",
+    header: "Version",
+    read: (row) =>
+      row.status?.publishedItemRevisionStatus?.distributionChannels?.[0]
+        ?.crxVersion,
+  },
+  {
+    key: "deploy",
+    header: "Deploy %",
+    read: (row) =>
+      row.status?.publishedItemRevisionStatus?.distributionChannels?.[0]
+        ?.deployPercentage,
+    format: (value) => `${value}%`,
+  },
+  {
+    key: "state",
+    header: "State",
+    read: (row) => (row.status ? getSubmissionState(row.status) : undefined),
+    format: (value) => getStateColor(value as ItemState),
+  },
+  {
+    key: "upload",
+    header: "Upload",
+    read: (row) => row.status?.lastAsyncUploadState,
+    format: (value) => getUploadStateColor(value as UploadState),
+  },
+  {
+    key: "warned",
+    header: "Warned",
+    read: (row) => !!row.status?.warned,
+    format: (value) => (value ? chalk.yellow("yes") : "no"),
+  },
+  {
+    key: "takenDown",
+    header: "Taken down",
+    read: (row) => !!row.status?.takenDown,
+    format: (value) => (value ? chalk.red("yes") : "no"),
+  },
+];
+
+const COLUMN_KEYS = STATUS_COLUMNS.map(({ key }) => key);
+
+function getColumn(key: StatusColumnKey) {
+  return STATUS_COLUMNS.find((column) => column.key === key)!;
+}
+
+function parseColumnKey(value: string): StatusColumnKey {
+  const key = COLUMN_KEYS.find(
+    (column) => column.toLowerCase() === value.toLowerCase()
+  );
+  if (!key) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Unknown status column "${value}"; expected one of: ${COLUMN_KEYS.join(", ")}`
+    );
+  }
+  return key;
+}
+
+export function getStateColor(state?: ItemState): string {
+  if (!state) return "Unknown";
+
+  switch (state) {
+    case ItemState.PUBLISHED:
+      return chalk.green(state);
+    case ItemState.PUBLISHED_TO_TESTERS:
+      return chalk.blue(state);
+    case ItemState.PENDING_REVIEW:
+      return chalk.yellow(state);
+    case ItemState.STAGED:
+      return chalk.cyan(state);
+    case ItemState.REJECTED:
+      return chalk.red(state);
+    case ItemState.CANCELLED:
+      return chalk.gray(state);
+    default:
+      return chalk.gray(state);
+  }
+}
+
+export function getUploadStateColor(state?: UploadState): string {
+  if (!state) return "Unknown";
+
+  switch (state) {
+    case UploadState.SUCCEEDED:
+      return chalk.green(state);
+    case UploadState.IN_PROGRESS:
+      return chalk.yellow(state);
+    case UploadState.FAILED:
+      return chalk.red(state);
+    default:
+      return chalk.gray(state);
+  }
+}
+
+/**
+ * Parses a `--filter` value such as `state=REJECTED` or `warned!=yes`
+ */
+export function parseStatusFilter(spec: string): StatusFilter {
+  const match = /^(\w+)\s*(!?=)\s*(.*)$/.exec(spec);
+  if (!match) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid filter "${spec}"; expected <column>=<value> or <column>!=<value>`
+    );
+  }
+  return {
+    column: parseColumnKey(match[1]),
+    value: match[3],
+    negate: match[2] === "!=",
+  };
+}
+
+/**
+ * Parses a `--sort` value such as `deploy` or `deploy:desc`
+ */
+export function parseStatusSort(spec: string): StatusSort {
+  const [column, direction = "asc"] = spec.split(":");
+  if (direction !== "asc" && direction !== "desc") {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid sort direction "${direction}"; expected asc or desc`
+    );
+  }
+  return { column: parseColumnKey(column), descending: direction === "desc" };
+}
+
+function matchesFilter(row: ItemStatusRow, filter: StatusFilter): boolean {
+  const value = getColumn(filter.column).read(row);
+  const expected = filter.value.toLowerCase();
+  const matches =
+    typeof value === "boolean"
+      ? value === (expected === "true" || expected === "yes")
+      : String(value ?? "none").toLowerCase() === expected;
+  return matches !== filter.negate;
+}
+
+/**
+ * Keeps the rows matching every filter. Rows whose status could not be
+ * fetched are always kept, so failures stay visible.
+ */
+export function filterStatusRows(
+  rows: ItemStatusRow[],
+  filters: StatusFilter[]
+): ItemStatusRow[] {
+  return rows.filter(
+    (row) =>
+      !row.status || filters.every((filter) => matchesFilter(row, filter))
+  );
+}
+
+function compareValues(
+  column: StatusColumnKey,
+  a: ColumnValue,
+  b: ColumnValue
+): number {
+  if (column === "version") {
+    return compareVersions(String(a), String(b));
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Sorts rows by a column; rows without a value for it come last
+ */
+export function sortStatusRows(
+  rows: ItemStatusRow[],
+  sort: StatusSort
+): ItemStatusRow[] {
+  const { read } = getColumn(sort.column);
+  return [...rows].sort((rowA, rowB) => {
+    const a = read(rowA);
+    const b = read(rowB);
+    if (a === undefined || b === undefined) {
+      return Number(a === undefined) - Number(b === undefined);
+    }
+    const order = compareValues(sort.column, a, b);
+    return sort.descending ? -order : order;
+  });
+}
+
+/**
+ * Renders one table line per fetched item, followed by the items whose last
+ * status check failed
+ */
+export function renderStatusTable(rows: ItemStatusRow[]): string {
+  const fetched = rows.filter((row) => row.status);
+  const failed = rows.filter((row) => row.error);
+
+  const lines = [
+    renderTable(
+      STATUS_COLUMNS.map(({ header }) => header),
+      fetched.map((row) =>
+        STATUS_COLUMNS.map(({ read, format }) => {
+          const value = read(row);
+          if (value === undefined) {
+            return "-";
+          }
+          return format ? format(value) : String(value);
+        })
+      )
+    ),
+  ];
+
+  failed.forEach((row) =>
+    lines.push(
+      chalk.red(
+        `✖ ${row.name ? `${row.name} (${row.itemId})` : row.itemId}: ${row.error?.message ?? "status unavailable"}`
+      )
+    )
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,35 @@
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+function visibleLength(text: string): number {
+  return text.replace(ANSI_PATTERN, "").length;
+}
+
+function pad(text: string, width: number): string {
+  return text + " ".repeat(Math.max(0, width - visibleLength(text)));
+}
+
+/**
+ * Renders rows as a plain-text table with a header and separator line.
+ * Cells may contain chalk colours; widths are computed on the visible text.
+ */
+export function renderTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(
+      visibleLength(header),
+      ...rows.map((row) => visibleLength(row[column] ?? ""))
+    )
+  );
+
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => pad(cell ?? "", widths[column]))
+      .join("  ")
+      .trimEnd();
+
+  return [
+    formatRow(headers),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(formatRow),
+  ].join("\n");
+}
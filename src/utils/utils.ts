@@ -1,3 +1,6 @@
+import { ErrorCode } from "../types";
+import { CwsError } from "./errors";
+
 export function formatFileSize(bytes: number): string {
   const sizes = ["Bytes", "KB", "MB", "GB"];
   if (bytes === 0) return "0 Bytes";
@@ -10,6 +13,51 @@ export function wait(ms: number): Promise<void> {
   return new Promise<void>((resolve) => setTimeout(resolve, ms));
 }
 
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as "90s", "30m", "24h" or "2d" into milliseconds.
+ * A number without a unit is read as seconds.
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    throw new CwsError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid duration "${value}" (use e.g. 90s, 30m, 24h or 2d)`
+    );
+  }
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS_MS[match[2] || "s"]);
+}
+
+/**
+ * Formats milliseconds as a short duration such as "1d 2h" or "5m 30s"
+ */
+export function formatDuration(ms: number): string {
+  const parts: string[] = [];
+  let remaining = Math.max(0, Math.round(ms / 1000));
+
+  for (const [unit, seconds] of [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ] as const) {
+    if (remaining >= seconds) {
+      parts.push(`${Math.floor(remaining / seconds)}${unit}`);
+      remaining %= seconds;
+    }
+  }
+
+  return parts.slice(0, 2).join(" ") || "0s";
+}
+
 export function validateDeployPercentage(percentageStr: string): number {
   const deployPercentage = parseInt(percentageStr, 10);
 
@@ -0,0 +1,78 @@
+import { ItemState } from "../types";
+import {
+  bumpVersion,
+  compareVersions,
+  getHighestStoreVersion,
+  maxVersion,
+  validateVersionBump,
+} from "./version";
+
+describe("compareVersions", () => {
+  it("compares component by component, as numbers", () => {
+    expect(compareVersions("1.10.0", "1.9.0")).toBe(1);
+    expect(compareVersions("1.2.3", "1.2.4")).toBe(-1);
+    expect(compareVersions("2", "1.99.99.99")).toBe(1);
+    expect(compareVersions("1.2.3.4", "1.2.3.4")).toBe(0);
+  });
+
+  it("counts missing components as 0", () => {
+    expect(compareVersions("1.2", "1.2.0")).toBe(0);
+    expect(compareVersions("1.2.0.0", "1.2")).toBe(0);
+    expect(compareVersions("1.2", "1.2.0.1")).toBe(-1);
+  });
+});
+
+describe("maxVersion", () => {
+  it("returns the highest version, ignoring empty values", () => {
+    expect(maxVersion(["1.9", undefined, "1.10", "", "1.2.5"])).toBe("1.10");
+    expect(maxVersion([undefined])).toBeUndefined();
+  });
+});
+
+describe("bumpVersion", () => {
+  it("increments one component and resets the ones after it", () => {
+    expect(bumpVersion("1.2.3", "patch")).toBe("1.2.4");
+    expect(bumpVersion("1.2.3", "minor")).toBe("1.3.0");
+    expect(bumpVersion("1.2.3", "major")).toBe("2.0.0");
+  });
+
+  it("fills in missing components and drops a fourth one", () => {
+    expect(bumpVersion("1", "patch")).toBe("1.0.1");
+    expect(bumpVersion("1.2.3.4", "patch")).toBe("1.2.4");
+  });
+
+  it("always returns a higher version", () => {
+    ["0.0.0", "1.2", "1.2.3.4", "9.99.999"].forEach((version) =>
+      (["patch", "minor", "major"] as const).forEach((bump) =>
+        expect(compareVersions(bumpVersion(version, bump), version)).toBe(1)
+      )
+    );
+  });
+});
+
+describe("validateVersionBump", () => {
+  it("accepts patch, minor and major only", () => {
+    expect(validateVersionBump("minor")).toBe("minor");
+    expect(() => validateVersionBump("build")).toThrow(
+      "Invalid version bump: build"
+    );
+  });
+});
+
+describe("getHighestStoreVersion", () => {
+  it("considers the published and the submitted revisions", () => {
+    expect(
+      getHighestStoreVersion({
+        publishedItemRevisionStatus: {
+          state: ItemState.PUBLISHED,
+          distributionChannels: [{ crxVersion: "1.4.0" }],
+        },
+        submittedItemRevisionStatus: {
+          state: ItemState.PENDING_REVIEW,
+          distributionChannels: [{ crxVersion: "1.10.0" }],
+        },
+      })
+    ).toBe("1.10.0");
+    expect(getHighestStoreVersion({})).toBeUndefined();
+  });
+});
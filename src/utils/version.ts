@@ -0,0 +1,81 @@
+import { FetchItemStatusResponse } from "../types";
+
+export type VersionBump = "patch" | "minor" | "major";
+
+const VERSION_BUMPS: VersionBump[] = ["patch", "minor", "major"];
+
+function parseVersion(version: string): number[] {
+  return version.split(".").map((part) => parseInt(part, 10) || 0);
+}
+
+/**
+ * Compares two extension version strings component by component.
+ * Missing components count as 0, so "1.2" and "1.2.0" are equal.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  const length = Math.max(left.length, right.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff < 0 ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Returns the highest of the given versions, ignoring empty values
+ */
+export function maxVersion(
+  versions: Array<string | undefined>
+): string | undefined {
+  return versions
+    .filter((version): version is string => !!version)
+    .reduce<string | undefined>(
+      (max, version) =>
+        !max || compareVersions(version, max) > 0 ? version : max,
+      undefined
+    );
+}
+
+/**
+ * Increments a version as major.minor.patch. Any fourth component is dropped.
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const [major = 0, minor = 0, patch = 0] = parseVersion(version);
+
+  switch (bump) {
+    case "major":
+      return `${major + 1}.0.0`;
+    case "minor":
+      return `${major}.${minor + 1}.0`;
+    case "patch":
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+export function validateVersionBump(bump: string): VersionBump {
+  if (!VERSION_BUMPS.includes(bump as VersionBump)) {
+    throw new Error(
+      `Invalid version bump: ${bump}. Use one of: ${VERSION_BUMPS.join(", ")}`
+    );
+  }
+  return bump as VersionBump;
+}
+
+/**
+ * Returns the highest crxVersion across the published and submitted revisions
+ */
+export function getHighestStoreVersion(
+  status: FetchItemStatusResponse
+): string | undefined {
+  const channels = [
+    ...(status.publishedItemRevisionStatus?.distributionChannels || []),
+    ...(status.submittedItemRevisionStatus?.distributionChannels || []),
+  ];
+  return maxVersion(channels.map((channel) => channel.crxVersion));
+}
@@ -0,0 +1,55 @@
+import { ZipArchive, createZip } from "./zip";
+
+const FILES = [
+  { name: "manifest.json", data: Buffer.from('{"version":"1.0.0"}') },
+  { name: "icons/icon.png", data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+  { name: "background.js", data: Buffer.from("console.log(1);\n".repeat(50)) },
+];
+
+describe("createZip", () => {
+  it("writes an archive the reader gets the files back from", () => {
+    const archive = new ZipArchive(createZip(FILES));
+
+    expect(archive.entries.map((entry) => entry.name)).toEqual([
+      "manifest.json",
+      "icons/icon.png",
+      "background.js",
+    ]);
+    FILES.forEach((file) => expect(archive.read(file.name)).toEqual(file.data));
+  });
+
+  it("deflates only the entries that get smaller", () => {
+    const archive = new ZipArchive(createZip(FILES));
+
+    expect(archive.getEntry("icons/icon.png")?.method).toBe(0);
+    expect(archive.getEntry("background.js")).toMatchObject({
+      method: 8,
+      size: 800,
+    });
+    expect(archive.getEntry("background.js")!.compressedSize).toBeLessThan(800);
+  });
+
+  it("produces the same bytes for the same input, whenever it runs", () => {
+    const first = createZip(FILES);
+    jest.useFakeTimers({ now: new Date("2031-06-15T12:34:56Z") });
+    const later = createZip(FILES.map((file) => ({ ...file })));
+    jest.useRealTimers();
+
+    expect(later).toEqual(first);
+    // Every entry is dated 1980-01-01 00:00
+    expect(first.readUInt16LE(10)).toBe(0);
+    expect(first.readUInt16LE(12)).toBe((1 << 5) | 1);
+  });
+
+  it("keeps UTF-8 file names", () => {
+    const archive = new ZipArchive(
+      createZip([{ name: "_locales/ja/説明.txt", data: Buffer.from("x") }])
+    );
+
+    expect(archive.has("_locales/ja/説明.txt")).toBe(true);
+  });
+
+  it("writes an empty archive", () => {
+    expect(new ZipArchive(createZip([])).entries).toEqual([]);
+  });
+});
@@ -0,0 +1,255 @@
+import { readFileSync } from "fs";
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CRX_MAGIC = "Cr24";
+
+// The end of central directory record is 22 bytes plus an optional comment of up to 64KB
+const EOCD_MIN_SIZE = 22;
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Strips the CRX (v2 or v3) header from a package buffer, returning the
+ * embedded zip archive. Buffers without a CRX header are returned as-is.
+ */
+export function stripCrxHeader(buffer: Buffer): Buffer {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== CRX_MAGIC) {
+    return buffer;
+  }
+
+  const version = buffer.readUInt32LE(4);
+  if (version === 2) {
+    const publicKeyLength = buffer.readUInt32LE(8);
+    const signatureLength = buffer.readUInt32LE(12);
+    return buffer.subarray(16 + publicKeyLength + signatureLength);
+  }
+  if (version === 3) {
+    const headerSize = buffer.readUInt32LE(8);
+    return buffer.subarray(12 + headerSize);
+  }
+
+  throw new Error(`Unsupported CRX version: ${version}`);
+}
+
+/**
+ * Minimal read-only view over a zip archive held in memory.
+ *
+ * Supports stored and deflated entries, which covers every archive produced
+ * by common zip tools and by Chrome itself. Zip64 archives are rejected.
+ */
+export class ZipArchive {
+  readonly entries: ZipEntry[];
+  private readonly buffer: Buffer;
+  private readonly entriesByName: Map<string, ZipEntry>;
+
+  constructor(buffer: Buffer) {
+    this.buffer = stripCrxHeader(buffer);
+    this.entries = ZipArchive.readCentralDirectory(this.buffer);
+    this.entriesByName = new Map(
+      this.entries.map((entry) => [entry.name, entry])
+    );
+  }
+
+  static fromFile(filePath: string): ZipArchive {
+    return new ZipArchive(readFileSync(filePath));
+  }
+
+  has(name: string): boolean {
+    return this.entriesByName.has(name);
+  }
+
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entriesByName.get(name);
+  }
+
+  /**
+   * Returns the uncompressed contents of an entry
+   */
+  read(name: string): Buffer {
+    const entry = this.entriesByName.get(name);
+    if (!entry) {
+      throw new Error(`Entry not found in archive: ${name}`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt local header for entry: ${name}`);
+    }
+
+    const nameLength = this.buffer.readUInt16LE(offset + 26);
+    const extraLength = this.buffer.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = this.buffer.subarray(
+      dataStart,
+      dataStart + entry.compressedSize
+    );
+
+    switch (entry.method) {
+      case METHOD_STORED:
+        return Buffer.from(data);
+      case METHOD_DEFLATE:
+        return inflateRawSync(data);
+      default:
+        throw new Error(
+          `Unsupported compression method ${entry.method} for entry: ${name}`
+        );
+    }
+  }
+
+  private static readCentralDirectory(buffer: Buffer): ZipEntry[] {
+    const eocdOffset = ZipArchive.findEndOfCentralDirectory(buffer);
+    const entryCount = buffer.readUInt16LE(eocdOffset + 10);
+    const directoryOffset = buffer.readUInt32LE(eocdOffset + 16);
+
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error("Zip64 archives are not supported");
+    }
+
+    const entries: ZipEntry[] = [];
+    let offset = directoryOffset;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (
+        offset + 46 > buffer.length ||
+        buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE
+      ) {
+        throw new Error("Corrupt zip central directory");
+      }
+
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+
+      entries.push({
+        method: buffer.readUInt16LE(offset + 10),
+        crc32: buffer.readUInt32LE(offset + 16),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        size: buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: buffer.readUInt32LE(offset + 42),
+        name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  private static findEndOfCentralDirectory(buffer: Buffer): number {
+    const searchStart = Math.max(0, buffer.length - EOCD_MAX_SEARCH);
+
+    for (let i = buffer.length - EOCD_MIN_SIZE; i >= searchStart; i--) {
+      if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+        return i;
+      }
+    }
+
+    throw new Error("Not a valid zip archive (end of central directory not found)");
+  }
+}
+
+export interface ZipFileInput {
+  name: string;
+  data: Buffer;
+}
+
+// DOS timestamp for 1980-01-01 00:00, so archives built from the same input are byte-identical
+const FIXED_DOS_TIME = 0;
+const FIXED_DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a zip archive from the given files, in the given order.
+ *
+ * Entries are deflated unless that would make them larger, and every entry
+ * gets the same fixed timestamp.
+ */
+export function createZip(files: ZipFileInput[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const deflated = deflateRawSync(file.data);
+    const useDeflate = deflated.length < file.data.length;
+    const content = useDeflate ? deflated : file.data;
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORED;
+    const checksum = crc32(file.data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    localHeader.writeUInt16LE(20, 4); // version needed to extract
+    localHeader.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    localHeader.writeUInt16LE(method, 8);
+    localHeader.writeUInt16LE(FIXED_DOS_TIME, 10);
+    localHeader.writeUInt16LE(FIXED_DOS_DATE, 12);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(content.length, 18);
+    localHeader.writeUInt32LE(file.data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    centralHeader.writeUInt16LE(20, 4); // version made by
+    centralHeader.writeUInt16LE(20, 6); // version needed to extract
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(method, 10);
+    centralHeader.writeUInt16LE(FIXED_DOS_TIME, 12);
+    centralHeader.writeUInt16LE(FIXED_DOS_DATE, 14);
+    centralHeader.writeUInt32LE(checksum, 16);
+    centralHeader.writeUInt32LE(content.length, 20);
+    centralHeader.writeUInt32LE(file.data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+
+    localParts.push(localHeader, name, content);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + content.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(EOCD_MIN_SIZE);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}